@@ -0,0 +1,154 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { accountCredentials, accountTokenFile, findAccount, loadAccountConfig, summarizeAccounts } from '../accounts';
+import { GmailValidationError } from '../errors';
+import { EncryptedFileTokenStore, EnvTokenStore, FileTokenStore } from '../stores';
+
+const ENV_VARS = ['GMAIL_DEFAULT_ACCOUNT', 'GMAIL_TOKEN_KEY', 'GMAIL_TOKEN_PASSPHRASE'];
+let dir: string;
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-accounts-'));
+  savedEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+  ENV_VARS.forEach((name) => delete process.env[name]);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+function writeConfig(config: unknown): string {
+  const file = path.join(dir, 'accounts.json');
+  fs.writeFileSync(file, JSON.stringify(config));
+  return file;
+}
+
+describe('loadAccountConfig', () => {
+  it('should load profiles from a config file and resolve paths against it', () => {
+    const file = writeConfig({
+      default: 'personal',
+      accounts: {
+        personal: { tokenFile: 'tokens/personal.json', description: 'My inbox' },
+        support: { tokenEnv: 'GMAIL_TOKEN_SUPPORT' },
+        shared: { serviceAccount: { keyFile: 'sa.json', subject: 'shared@example.com' } },
+      },
+    });
+
+    const config = loadAccountConfig(file);
+
+    expect(config.defaultAccount).toBe('personal');
+    expect(config.accounts).toEqual([
+      { name: 'personal', tokenFile: path.join(dir, 'tokens/personal.json'), description: 'My inbox' },
+      { name: 'support', tokenEnv: 'GMAIL_TOKEN_SUPPORT' },
+      { name: 'shared', serviceAccount: { keyFile: path.join(dir, 'sa.json'), subject: 'shared@example.com' } },
+    ]);
+  });
+
+  it('should treat each JSON file in a directory as an account token file', () => {
+    fs.writeFileSync(path.join(dir, 'support.json'), '{}');
+    fs.writeFileSync(path.join(dir, 'personal.json'), '{}');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '');
+
+    const config = loadAccountConfig(dir);
+
+    expect(config.accounts.map((account) => account.name)).toEqual(['personal', 'support']);
+    expect(config.accounts[1].tokenFile).toBe(path.join(dir, 'support.json'));
+    expect(config.defaultAccount).toBeUndefined();
+  });
+
+  it('should default to the only account or GMAIL_DEFAULT_ACCOUNT', () => {
+    fs.writeFileSync(path.join(dir, 'support.json'), '{}');
+    expect(loadAccountConfig(dir).defaultAccount).toBe('support');
+
+    fs.writeFileSync(path.join(dir, 'personal.json'), '{}');
+    process.env.GMAIL_DEFAULT_ACCOUNT = 'personal';
+    expect(loadAccountConfig(dir).defaultAccount).toBe('personal');
+  });
+
+  it('should reject invalid configs', () => {
+    expect(() => loadAccountConfig(path.join(dir, 'missing.json'))).toThrow('not found');
+    expect(() => loadAccountConfig(writeConfig({ accounts: [] }))).toThrow('"accounts" must be an object');
+    expect(() => loadAccountConfig(writeConfig({ accounts: { a: {} } }))).toThrow('exactly one of tokenFile, tokenEnv or serviceAccount');
+    expect(() => loadAccountConfig(writeConfig({ accounts: { 'a b': { tokenEnv: 'X' } } }))).toThrow('may only contain');
+    expect(() => loadAccountConfig(writeConfig({ default: 'b', accounts: { a: { tokenEnv: 'X' } } }))).toThrow('default account "b"');
+  });
+});
+
+describe('findAccount', () => {
+  const config = {
+    defaultAccount: 'personal',
+    accounts: [{ name: 'personal', tokenEnv: 'A' }, { name: 'support', tokenEnv: 'B' }],
+  };
+
+  it('should find the named or default account', () => {
+    expect(findAccount(config, 'support').name).toBe('support');
+    expect(findAccount(config).name).toBe('personal');
+  });
+
+  it('should report unknown accounts and a missing default as validation errors', () => {
+    expect(() => findAccount(config, 'sales')).toThrow(GmailValidationError);
+    expect(() => findAccount(config, 'sales')).toThrow('available: personal, support');
+    expect(() => findAccount({ accounts: config.accounts })).toThrow('no account given');
+  });
+});
+
+describe('accountCredentials', () => {
+  it('should map each token source to a store or service account', () => {
+    const serviceAccount = { keyFile: '/keys/sa.json', subject: 'a@example.com' };
+
+    expect(accountCredentials({ name: 'sa', serviceAccount })).toEqual({ serviceAccount });
+    expect(accountCredentials({ name: 'env', tokenEnv: 'GMAIL_TOKEN_SUPPORT' }).store).toBeInstanceOf(EnvTokenStore);
+    expect(accountCredentials({ name: 'file', tokenFile: '/t.json' }).store).toBeInstanceOf(FileTokenStore);
+  });
+
+  it('should encrypt token files when a token key is configured', () => {
+    process.env.GMAIL_TOKEN_PASSPHRASE = 'secret';
+
+    expect(accountCredentials({ name: 'file', tokenFile: '/t.json' }).store).toBeInstanceOf(EncryptedFileTokenStore);
+    expect(accountCredentials({ name: 'file', tokenFile: '/t.json', encrypted: false }).store).toBeInstanceOf(FileTokenStore);
+  });
+});
+
+describe('summarizeAccounts', () => {
+  it('should list names and types without credentials', () => {
+    expect(summarizeAccounts({
+      defaultAccount: 'support',
+      accounts: [
+        { name: 'support', tokenFile: '/secret/support.json', description: 'Support inbox' },
+        { name: 'shared', serviceAccount: { keyFile: '/secret/sa.json' } },
+      ],
+    })).toEqual([
+      { name: 'support', description: 'Support inbox', type: 'oauth', default: true },
+      { name: 'shared', type: 'service_account', default: false },
+    ]);
+  });
+});
+
+describe('accountTokenFile', () => {
+  it('should name a token file in an account directory, including new accounts', () => {
+    expect(accountTokenFile(dir, 'sales')).toEqual({ tokenFile: path.join(dir, 'sales.json') });
+    expect(() => accountTokenFile(dir, '../escape')).toThrow(GmailValidationError);
+  });
+
+  it('should use the token file of a configured account', () => {
+    const file = writeConfig({
+      accounts: {
+        personal: { tokenFile: 'personal.json', encrypted: true },
+        support: { tokenEnv: 'GMAIL_TOKEN_SUPPORT' },
+      },
+    });
+
+    expect(accountTokenFile(file, 'personal')).toEqual({ tokenFile: path.join(dir, 'personal.json'), encrypted: true });
+    expect(() => accountTokenFile(file, 'support')).toThrow('does not use a token file');
+    expect(() => accountTokenFile(file, 'sales')).toThrow('unknown account');
+  });
+});
@@ -0,0 +1,115 @@
+import { formatAddress, formatAddressList, parseAddressList, parseReceivedAddresses } from '../address';
+import { GmailValidationError } from '../errors';
+
+describe('parseAddressList', () => {
+  it('should parse bare addresses', () => {
+    expect(parseAddressList('a@example.com')).toEqual([{ address: 'a@example.com' }]);
+  });
+
+  it('should parse name-addr forms with quoted and unquoted names', () => {
+    expect(parseAddressList('Jane Doe <jane@example.com>, "Doe, John" <john@example.com>')).toEqual([
+      { name: 'Jane Doe', address: 'jane@example.com' },
+      { name: 'Doe, John', address: 'john@example.com' },
+    ]);
+  });
+
+  it('should unescape quoted names', () => {
+    expect(parseAddressList('"Say \\"hi\\"" <hi@example.com>')).toEqual([
+      { name: 'Say "hi"', address: 'hi@example.com' },
+    ]);
+  });
+
+  it('should accept non-ASCII display names', () => {
+    expect(parseAddressList('Jürgen Müller <j@example.de>')).toEqual([
+      { name: 'Jürgen Müller', address: 'j@example.de' },
+    ]);
+  });
+
+  it('should parse groups, including empty groups', () => {
+    expect(parseAddressList('Team: a@example.com, B <b@example.com>;, undisclosed-recipients:;')).toEqual([
+      { group: 'Team', members: [{ address: 'a@example.com' }, { name: 'B', address: 'b@example.com' }] },
+      { group: 'undisclosed-recipients', members: [] },
+    ]);
+  });
+
+  it('should drop comments', () => {
+    expect(parseAddressList('a@example.com (work), B (boss) <b@example.com>')).toEqual([
+      { address: 'a@example.com' },
+      { name: 'B', address: 'b@example.com' },
+    ]);
+  });
+
+  it('should accept quoted local parts and domain literals', () => {
+    expect(parseAddressList('"john doe"@example.com, x@[192.168.0.1]')).toEqual([
+      { address: '"john doe"@example.com' },
+      { address: 'x@[192.168.0.1]' },
+    ]);
+  });
+
+  it.each([
+    'not-an-address',
+    'a@localhost',
+    'a@@example.com',
+    'a@example..com',
+    '<a@example.com',
+    'a@example.com>',
+    '"unterminated <a@example.com>',
+    'Team: a@example.com',
+    'a@example.com;',
+    'A <b> <a@example.com>',
+    'Bad@Name <a@example.com>',
+  ])('should reject %p', (input) => {
+    expect(() => parseAddressList(input, 'to')).toThrow(GmailValidationError);
+  });
+
+  it('should reject line breaks', () => {
+    expect(() => parseAddressList('a@example.com\r\nBcc: b@example.com', 'to'))
+      .toThrow('Invalid to: line breaks are not allowed in addresses');
+  });
+});
+
+describe('parseReceivedAddresses', () => {
+  it('should parse valid headers like parseAddressList', () => {
+    expect(parseReceivedAddresses('Alice <a@example.com>, Team: b@example.com;')).toEqual([
+      { name: 'Alice', address: 'a@example.com' },
+      { address: 'b@example.com' },
+    ]);
+  });
+
+  it('should salvage the address and display name of entries the strict parser rejects', () => {
+    expect(parseReceivedAddresses('billing@vendor.com <billing@vendor.com>')).toEqual([{ address: 'billing@vendor.com' }]);
+    expect(parseReceivedAddresses('root@localhost')).toEqual([{ address: 'root@localhost' }]);
+    expect(parseReceivedAddresses('"Cron, Daemon" <root@localhost>')).toEqual([{ name: 'Cron, Daemon', address: 'root@localhost' }]);
+  });
+
+  it('should keep the valid entries around a malformed one', () => {
+    expect(parseReceivedAddresses('a@example.com, broken <<, Bob <b@example.com>')).toEqual([
+      { address: 'a@example.com' },
+      { name: 'Bob', address: 'b@example.com' },
+    ]);
+    expect(parseReceivedAddresses('undisclosed-recipients:;')).toEqual([]);
+  });
+});
+
+describe('formatAddress', () => {
+  it('should return bare addresses unchanged', () => {
+    expect(formatAddress({ address: 'a@example.com' })).toBe('a@example.com');
+  });
+
+  it('should quote names with specials', () => {
+    expect(formatAddress({ name: 'Doe, "JD" Jane', address: 'jane@example.com' }))
+      .toBe('"Doe, \\"JD\\" Jane" <jane@example.com>');
+  });
+
+  it('should encode non-ASCII names', () => {
+    expect(formatAddress({ name: 'Müller', address: 'm@example.com' }))
+      .toBe(`=?UTF-8?B?${Buffer.from('Müller').toString('base64')}?= <m@example.com>`);
+  });
+});
+
+describe('formatAddressList', () => {
+  it('should round-trip groups and mailboxes', () => {
+    const input = 'Team: a@example.com, B <b@example.com>;, c@example.com';
+    expect(formatAddressList(parseAddressList(input))).toBe(input);
+  });
+});
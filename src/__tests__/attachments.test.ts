@@ -0,0 +1,61 @@
+import { findAttachments } from '../attachments';
+import { MessagePayload } from '../types';
+
+describe('findAttachments', () => {
+  it('should return an empty array for a missing payload', () => {
+    expect(findAttachments(undefined)).toEqual([]);
+  });
+
+  it('should ignore parts without an attachment ID', () => {
+    const payload: MessagePayload = {
+      mimeType: 'text/plain',
+      body: { size: 5, data: 'aGVsbG8' },
+    };
+
+    expect(findAttachments(payload)).toEqual([]);
+  });
+
+  it('should collect attachments from nested parts', () => {
+    const payload: MessagePayload = {
+      mimeType: 'multipart/mixed',
+      parts: [
+        {
+          partId: '0',
+          mimeType: 'multipart/alternative',
+          parts: [
+            { partId: '0.0', mimeType: 'text/plain', body: { size: 5, data: 'aGVsbG8' } },
+            { partId: '0.1', mimeType: 'text/html', body: { size: 12, data: 'PGI-aGk8L2I-' } },
+          ],
+        },
+        {
+          partId: '1',
+          mimeType: 'application/pdf',
+          filename: 'invoice.pdf',
+          body: { size: 2048, attachmentId: 'att-1' },
+        },
+        {
+          partId: '2',
+          mimeType: 'multipart/related',
+          parts: [
+            { partId: '2.0', filename: 'logo.png', mimeType: 'image/png', body: { size: 512, attachmentId: 'att-2' } },
+          ],
+        },
+      ],
+    };
+
+    expect(findAttachments(payload)).toEqual([
+      { attachmentId: 'att-1', filename: 'invoice.pdf', mimeType: 'application/pdf', size: 2048, partId: '1' },
+      { attachmentId: 'att-2', filename: 'logo.png', mimeType: 'image/png', size: 512, partId: '2.0' },
+    ]);
+  });
+
+  it('should fall back to defaults for missing filename and MIME type', () => {
+    const payload: MessagePayload = {
+      body: { size: 0, attachmentId: 'att-3' },
+    };
+
+    expect(findAttachments(payload)).toEqual([
+      { attachmentId: 'att-3', filename: '', mimeType: 'application/octet-stream', size: 0, partId: undefined },
+    ]);
+  });
+});
@@ -0,0 +1,175 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import { OAuth2Client } from 'google-auth-library';
+import { authorize, createPkcePair, DEFAULT_AUTH_SCOPES, parseAuthArgs, parseAuthorizationCode } from '../auth';
+
+jest.mock('google-auth-library', () => ({
+  CodeChallengeMethod: { S256: 'S256' },
+  OAuth2Client: jest.fn(),
+}));
+
+function get(url: string): Promise<{ status?: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, (res) => {
+      let body = '';
+      res.on('data', (chunk) => (body += chunk));
+      res.on('end', () => resolve({ status: res.statusCode, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('createPkcePair', () => {
+  it('should derive an S256 challenge from a base64url verifier', () => {
+    const { codeVerifier, codeChallenge } = createPkcePair();
+
+    expect(codeVerifier).toMatch(/^[A-Za-z0-9_-]{43}$/);
+    const expected = crypto.createHash('sha256').update(codeVerifier).digest('base64')
+      .replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+    expect(codeChallenge).toBe(expected);
+  });
+});
+
+describe('parseAuthorizationCode', () => {
+  it('should accept a bare code', () => {
+    expect(parseAuthorizationCode('  4/0Abc-123 \n', 'state')).toBe('4/0Abc-123');
+  });
+
+  it('should extract the code from a redirect URL with the expected state', () => {
+    expect(parseAuthorizationCode('http://127.0.0.1/?state=s1&code=4%2F0Abc&scope=x', 's1')).toBe('4/0Abc');
+  });
+
+  it('should reject a mismatched state, a denial and an empty input', () => {
+    expect(() => parseAuthorizationCode('http://127.0.0.1/?state=other&code=c', 's1')).toThrow('state does not match');
+    expect(() => parseAuthorizationCode('http://127.0.0.1/?error=access_denied', 's1')).toThrow('access_denied');
+    expect(() => parseAuthorizationCode('http://127.0.0.1/?state=s1', 's1')).toThrow('missing the code');
+    expect(() => parseAuthorizationCode('   ', 's1')).toThrow('No authorization code');
+  });
+});
+
+describe('parseAuthArgs', () => {
+  it('should parse flags in both --flag value and --flag=value forms', () => {
+    expect(parseAuthArgs(['--no-browser', '--token-file', '/tmp/t.json', '--scopes=a,b c'])).toEqual({
+      noBrowser: true,
+      help: false,
+      tokenFile: '/tmp/t.json',
+      scopes: ['a', 'b', 'c'],
+    });
+    expect(parseAuthArgs(['-h']).help).toBe(true);
+    expect(parseAuthArgs(['--account', 'support']).account).toBe('support');
+  });
+
+  it('should reject unknown options and missing values', () => {
+    expect(() => parseAuthArgs(['--browser'])).toThrow('Unknown option: --browser');
+    expect(() => parseAuthArgs(['--token-file'])).toThrow('--token-file requires a value');
+  });
+});
+
+describe('authorize', () => {
+  let dir: string;
+  let oauth2Client: { generateAuthUrl: jest.Mock; getToken: jest.Mock };
+  const credentials = { access_token: 'access', refresh_token: 'refresh', expiry_date: 2000000000, token_type: 'Bearer' };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-auth-'));
+    oauth2Client = {
+      generateAuthUrl: jest.fn(() => 'https://accounts.google.com/o/oauth2/v2/auth?client_id=id'),
+      getToken: jest.fn().mockResolvedValue({ tokens: credentials }),
+    };
+    (OAuth2Client as unknown as jest.Mock).mockImplementation(() => oauth2Client);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should catch the loopback redirect and write the tokens', async () => {
+    const tokenFile = path.join(dir, 'token.json');
+    let page: { status?: number; body: string } | undefined;
+
+    const result = await authorize({
+      clientId: 'id',
+      clientSecret: 'secret',
+      tokenFile,
+      onAuthUrl: async () => {
+        const [, , redirectUri] = (OAuth2Client as unknown as jest.Mock).mock.calls[0];
+        const { state } = oauth2Client.generateAuthUrl.mock.calls[0][0];
+        expect(redirectUri).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/callback$/);
+        expect((await get(redirectUri.replace('/callback', '/favicon.ico'))).status).toBe(404);
+        page = await get(`${redirectUri}?state=${state}&code=auth-code`);
+      },
+    });
+
+    expect(page?.status).toBe(200);
+    expect(page?.body).toContain('Authorization complete');
+    const authOptions = oauth2Client.generateAuthUrl.mock.calls[0][0];
+    expect(authOptions).toEqual(expect.objectContaining({
+      access_type: 'offline',
+      prompt: 'consent',
+      scope: DEFAULT_AUTH_SCOPES,
+      code_challenge_method: 'S256',
+    }));
+    expect(oauth2Client.getToken).toHaveBeenCalledWith(expect.objectContaining({ code: 'auth-code' }));
+    const { codeVerifier } = oauth2Client.getToken.mock.calls[0][0];
+    expect(authOptions.code_challenge).toBe(
+      crypto.createHash('sha256').update(codeVerifier).digest('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+    );
+    expect(result).toEqual({ tokens: credentials, tokenFile });
+    expect(JSON.parse(fs.readFileSync(tokenFile, 'utf-8'))).toEqual(credentials);
+  });
+
+  it('should read a pasted redirect URL in no-browser mode', async () => {
+    const tokenFile = path.join(dir, 'token.json');
+    fs.writeFileSync(tokenFile, JSON.stringify({ accessToken: 'old', refreshToken: 'old-refresh' }));
+
+    await authorize({
+      clientId: 'id',
+      tokenFile,
+      scopes: ['https://www.googleapis.com/auth/gmail.readonly'],
+      onAuthUrl: jest.fn(),
+      promptForCode: async () => {
+        const { state } = oauth2Client.generateAuthUrl.mock.calls[0][0];
+        return `http://127.0.0.1/?state=${state}&code=pasted-code`;
+      },
+    });
+
+    expect(OAuth2Client).toHaveBeenCalledWith('id', undefined, 'http://127.0.0.1');
+    expect(oauth2Client.generateAuthUrl).toHaveBeenCalledWith(
+      expect.objectContaining({ scope: ['https://www.googleapis.com/auth/gmail.readonly'] })
+    );
+    expect(oauth2Client.getToken).toHaveBeenCalledWith(
+      expect.objectContaining({ code: 'pasted-code', redirect_uri: 'http://127.0.0.1' })
+    );
+    // The existing file keeps its camelCase shape
+    expect(JSON.parse(fs.readFileSync(tokenFile, 'utf-8'))).toEqual({
+      accessToken: 'access',
+      refreshToken: 'refresh',
+      expiryDate: 2000000000,
+      tokenType: 'Bearer',
+    });
+  });
+
+  it('should fail when the redirect does not arrive in time', async () => {
+    await expect(authorize({
+      clientId: 'id',
+      tokenFile: path.join(dir, 'token.json'),
+      timeoutMs: 10,
+      onAuthUrl: jest.fn(),
+    })).rejects.toThrow(/Timed out/);
+    expect(fs.existsSync(path.join(dir, 'token.json'))).toBe(false);
+  });
+
+  it('should require a client ID', async () => {
+    const clientId = process.env.GOOGLE_CLIENT_ID;
+    delete process.env.GOOGLE_CLIENT_ID;
+    try {
+      await expect(authorize({ onAuthUrl: jest.fn() })).rejects.toThrow('GOOGLE_CLIENT_ID is not set');
+    } finally {
+      if (clientId !== undefined) {
+        process.env.GOOGLE_CLIENT_ID = clientId;
+      }
+    }
+  });
+});
@@ -0,0 +1,67 @@
+import { buildBatchBody, parseBatchResponse } from '../batch';
+
+describe('buildBatchBody', () => {
+  it('should render one application/http part per request', () => {
+    const body = buildBatchBody(
+      [
+        { id: 'item-0', method: 'GET', path: '/gmail/v1/users/me/messages/a?format=full' },
+        { id: 'item-1', method: 'GET', path: '/gmail/v1/users/me/messages/b?format=full' },
+      ],
+      'b123'
+    );
+
+    expect(body).toBe(
+      '--b123\r\nContent-Type: application/http\r\nContent-ID: <item-0>\r\n\r\n' +
+        'GET /gmail/v1/users/me/messages/a?format=full\r\n' +
+        '\r\n--b123\r\nContent-Type: application/http\r\nContent-ID: <item-1>\r\n\r\n' +
+        'GET /gmail/v1/users/me/messages/b?format=full\r\n' +
+        '\r\n--b123--\r\n'
+    );
+  });
+});
+
+describe('parseBatchResponse', () => {
+  const body = [
+    '--batch_abc',
+    'Content-Type: application/http',
+    'Content-ID: <response-item-0>',
+    '',
+    'HTTP/1.1 200 OK',
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    '{"id":"a","snippet":"Hi"}',
+    '--batch_abc',
+    'Content-Type: application/http',
+    'Content-ID: <response-item-1>',
+    '',
+    'HTTP/1.1 404 Not Found',
+    'Content-Type: application/json; charset=UTF-8',
+    '',
+    '{"error":{"code":404,"message":"Not Found"}}',
+    '--batch_abc--',
+    '',
+  ].join('\r\n');
+
+  it('should return status and JSON body per Content-ID', () => {
+    expect(parseBatchResponse(body, 'multipart/mixed; boundary=batch_abc')).toEqual([
+      { id: 'item-0', status: 200, body: { id: 'a', snippet: 'Hi' } },
+      { id: 'item-1', status: 404, body: { error: { code: 404, message: 'Not Found' } } },
+    ]);
+  });
+
+  it('should accept a quoted boundary and LF line endings', () => {
+    const result = parseBatchResponse(body.replace(/\r\n/g, '\n'), 'multipart/mixed; boundary="batch_abc"');
+    expect(result.map((response) => response.status)).toEqual([200, 404]);
+  });
+
+  it('should keep non-JSON bodies as text', () => {
+    const text = '--x\r\nContent-ID: <response-1>\r\n\r\nHTTP/1.1 503 Unavailable\r\n\r\nService Unavailable\r\n--x--';
+    expect(parseBatchResponse(text, 'multipart/mixed; boundary=x')).toEqual([
+      { id: '1', status: 503, body: 'Service Unavailable' },
+    ]);
+  });
+
+  it('should throw when the boundary is missing', () => {
+    expect(() => parseBatchResponse('', 'multipart/mixed')).toThrow('missing a multipart boundary');
+  });
+});
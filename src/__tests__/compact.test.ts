@@ -0,0 +1,159 @@
+import { collapseQuotedText, compactMessage, compactThread } from '../compact';
+import { ParsedMessage } from '../types';
+
+function makeParsed(overrides: Partial<ParsedMessage> = {}): ParsedMessage {
+  return {
+    id: 'msg1',
+    threadId: 'thread1',
+    labelIds: ['INBOX'],
+    from: { name: 'Alice', address: 'alice@example.com' },
+    to: [{ address: 'me@example.com' }],
+    cc: [],
+    bcc: [],
+    replyTo: [],
+    subject: 'Hello',
+    date: new Date('2024-01-01T10:00:00Z'),
+    references: [],
+    headers: { received: ['from a', 'from b'] },
+    text: 'Hi there',
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe('collapseQuotedText', () => {
+  it('should hide the quoted earlier message in a reply', () => {
+    const text = 'Sounds good.\n\nOn Mon, Jan 1, 2024 at 10:00 AM Alice <alice@example.com> wrote:\n> Earlier\n> message';
+    expect(collapseQuotedText(text)).toBe('Sounds good.\n\n[quoted text hidden]');
+  });
+
+  it('should handle attributions wrapped over two lines', () => {
+    const text = 'Yes.\n\nOn Mon, Jan 1, 2024 at 10:00 AM Alice <\nalice@example.com> wrote:\n> Earlier';
+    expect(collapseQuotedText(text)).toBe('Yes.\n\n[quoted text hidden]');
+  });
+
+  it('should hide Outlook original-message blocks', () => {
+    const text = 'Done.\n\n-----Original Message-----\nFrom: Bob\nSent: Monday\n\nOld text';
+    expect(collapseQuotedText(text)).toBe('Done.\n\n[quoted text hidden]');
+  });
+
+  it('should hide signatures', () => {
+    const text = 'Thanks!\n-- \nAlice Example\nCEO, Example Corp\n+1 555 0100';
+    expect(collapseQuotedText(text)).toBe('Thanks!\n[signature hidden]');
+  });
+
+  it('should collapse inline quote blocks', () => {
+    const text = '> question one\n> more\nAnswer one\n> question two\nAnswer two';
+    expect(collapseQuotedText(text)).toBe('[quoted text hidden]\nAnswer one\n[quoted text hidden]\nAnswer two');
+  });
+
+  it('should leave forwarded content alone', () => {
+    const text = 'FYI\n\n---------- Forwarded message ---------\nFrom: Bob\n\nThe content';
+    expect(collapseQuotedText(text)).toBe(text);
+  });
+});
+
+describe('compactMessage', () => {
+  it('should keep key headers and drop the rest', () => {
+    const compact = compactMessage(makeParsed({
+      attachments: [{ attachmentId: 'att1', filename: 'a.pdf', mimeType: 'application/pdf', size: 10, partId: '1' }],
+    }));
+
+    expect(compact).toEqual({
+      id: 'msg1',
+      threadId: 'thread1',
+      date: '2024-01-01T10:00:00.000Z',
+      from: 'Alice <alice@example.com>',
+      to: ['me@example.com'],
+      cc: [],
+      subject: 'Hello',
+      labels: ['INBOX'],
+      body: 'Hi there',
+      totalBodyChars: 8,
+      nextCursor: undefined,
+      attachments: [{ attachmentId: 'att1', filename: 'a.pdf', mimeType: 'application/pdf', size: 10 }],
+    });
+  });
+
+  it('should convert HTML to text when there is no plain-text body', () => {
+    const compact = compactMessage(makeParsed({ text: undefined, html: '<style>x{}</style><p>Big <b>news</b></p>' }));
+    expect(compact.body).toBe('Big news');
+  });
+
+  it('should truncate to the budget and continue from the cursor', () => {
+    const text = Array.from({ length: 100 }, (_, i) => `word${i}`).join(' ');
+    const first = compactMessage(makeParsed({ text }), { maxBodyChars: 50 });
+
+    expect(first.body.endsWith('…')).toBe(true);
+    expect(first.body.length).toBeLessThanOrEqual(51);
+    expect(first.nextCursor).toBeDefined();
+    expect(first.totalBodyChars).toBe(text.length);
+
+    const second = compactMessage(makeParsed({ text }), { maxBodyChars: 50, cursor: first.nextCursor });
+    expect(text.slice(first.nextCursor).startsWith(second.body.replace(/…$/, ''))).toBe(true);
+
+    let cursor: number | undefined = 0;
+    let pages = 0;
+    while (cursor !== undefined) {
+      cursor = compactMessage(makeParsed({ text }), { maxBodyChars: 50, cursor }).nextCursor;
+      pages++;
+    }
+    expect(pages).toBeGreaterThan(10);
+  });
+
+  it('should reject a body budget that is not a positive integer', () => {
+    for (const maxBodyChars of [0, -50, 12.5, NaN]) {
+      expect(() => compactMessage(makeParsed({ text: 'a'.repeat(100) }), { maxBodyChars }))
+        .toThrow('Invalid maxBodyChars: must be a positive integer');
+      expect(() => compactThread({ id: 't1', messages: [makeParsed({ text: 'a'.repeat(100) })] }, { maxBodyChars }))
+        .toThrow('Invalid maxBodyChars: must be a positive integer');
+    }
+  });
+
+  it('should keep quotes when collapseQuotes is false', () => {
+    const compact = compactMessage(makeParsed({ text: 'Hi\n> quoted' }), { collapseQuotes: false });
+    expect(compact.body).toBe('Hi\n> quoted');
+  });
+});
+
+describe('compactThread', () => {
+  const thread = {
+    id: 'thread1',
+    messages: [
+      makeParsed({ text: 'a'.repeat(30) }),
+      makeParsed({ id: 'msg2', text: 'b'.repeat(30) }),
+      makeParsed({ id: 'msg3', text: 'c'.repeat(30) }),
+    ],
+  };
+
+  it('should return every message when the thread fits the budget', () => {
+    const compact = compactThread({ id: 'thread1', messages: [makeParsed(), makeParsed({ id: 'msg2' })] });
+
+    expect(compact.messageCount).toBe(2);
+    expect(compact.messages.map((m) => m.body)).toEqual(['Hi there', 'Hi there']);
+    expect(compact.totalBodyChars).toBe(16);
+    expect(compact.nextCursor).toBeUndefined();
+  });
+
+  it('should share one budget across the thread and continue from the cursor', () => {
+    const first = compactThread(thread, { maxBodyChars: 50 });
+
+    expect(first.messageCount).toBe(3);
+    expect(first.totalBodyChars).toBe(90);
+    expect(first.messages.map((m) => m.body)).toEqual(['a'.repeat(30), `${'b'.repeat(20)}…`]);
+    expect(first.nextCursor).toBe(50);
+
+    const second = compactThread(thread, { maxBodyChars: 50, cursor: first.nextCursor });
+    expect(second.messages.map((m) => m.id)).toEqual(['msg2', 'msg3']);
+    expect(second.messages.map((m) => m.body)).toEqual(['b'.repeat(10), 'c'.repeat(30)]);
+    expect(second.nextCursor).toBeUndefined();
+  });
+
+  it('should start the next page at a message boundary when the budget runs out there', () => {
+    const first = compactThread(thread, { maxBodyChars: 60 });
+
+    expect(first.messages.map((m) => m.id)).toEqual(['msg1', 'msg2']);
+    expect(first.nextCursor).toBe(60);
+    expect(compactThread(thread, { maxBodyChars: 60, cursor: 60 }).messages.map((m) => m.body)).toEqual(['c'.repeat(30)]);
+  });
+});
@@ -0,0 +1,195 @@
+import {
+  decodeCharset,
+  decodeHeaderValue,
+  encodeHeaderValue,
+  encodeParameter,
+  encodeParameterValue,
+  encodeQuotedPrintable,
+  encodeTextBody,
+  foldHeader,
+  wrapBase64,
+} from '../encoding';
+
+function decodeEncodedWords(value: string): string {
+  return value
+    .split('\r\n ')
+    .map((word) => {
+      const match = word.match(/^=\?UTF-8\?B\?([^?]*)\?=$/);
+      return match ? Buffer.from(match[1], 'base64') : Buffer.from(word);
+    })
+    .reduce((acc, bytes) => Buffer.concat([acc, bytes]), Buffer.alloc(0))
+    .toString();
+}
+
+describe('encodeHeaderValue', () => {
+  it('should leave printable ASCII untouched', () => {
+    expect(encodeHeaderValue('Quarterly report (draft)')).toBe('Quarterly report (draft)');
+  });
+
+  it('should encode non-ASCII as RFC 2047 encoded-words', () => {
+    const encoded = encodeHeaderValue('Grüße aus München');
+    expect(encoded).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/);
+    expect(decodeEncodedWords(encoded)).toBe('Grüße aus München');
+  });
+
+  it('should split long values into words of at most 75 characters without cutting characters', () => {
+    const subject = '会議の議事録と次回の打ち合わせの日程についてのご連絡です。よろしくお願いいたします。';
+    const encoded = encodeHeaderValue(subject);
+    const words = encoded.split('\r\n ');
+
+    expect(words.length).toBeGreaterThan(1);
+    words.forEach((word) => {
+      expect(word.length).toBeLessThanOrEqual(75);
+      // Every word must decode on its own to valid UTF-8
+      const payload = Buffer.from(word.slice(10, -2), 'base64').toString();
+      expect(payload).not.toContain('�');
+    });
+    expect(decodeEncodedWords(encoded)).toBe(subject);
+  });
+
+  it('should shorten the first word to leave room for the header name', () => {
+    const subject = 'Grüße aus München und herzliche Einladung zum Sommerfest';
+    const [first, ...rest] = encodeHeaderValue(subject, 'Subject: '.length).split('\r\n ');
+
+    expect('Subject: '.length + first.length).toBeLessThanOrEqual(76);
+    expect(rest.length).toBeGreaterThan(0);
+    expect(decodeEncodedWords([first, ...rest].join('\r\n '))).toBe(subject);
+  });
+});
+
+describe('encodeParameterValue', () => {
+  it('should percent-encode per RFC 2231', () => {
+    expect(encodeParameterValue("Rechnung März (1).pdf")).toBe("UTF-8''Rechnung%20M%C3%A4rz%20%281%29.pdf");
+  });
+});
+
+describe('encodeParameter', () => {
+  it('should keep short values in a single parameter', () => {
+    expect(encodeParameter('filename', 'März.pdf')).toBe("filename*=UTF-8''M%C3%A4rz.pdf");
+  });
+
+  it('should split long values into continuations without cutting escapes', () => {
+    const value = 'Präsentation für den Vorstand über die Ergebnisse des Geschäftsjahres.pptx';
+    const lines = encodeParameter('filename', value).split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line, index) => {
+      expect(line.trimStart().startsWith(`filename*${index}*=`)).toBe(true);
+      expect(line.length + (index === 0 ? 1 : 0)).toBeLessThanOrEqual(76);
+      expect(line).not.toMatch(/%.?;?$/);
+    });
+    const joined = lines.map((line) => line.trim().replace(/^filename\*\d+\*=/, '').replace(/;$/, '')).join('');
+    expect(decodeURIComponent(joined.replace(/^UTF-8''/, ''))).toBe(value);
+  });
+});
+
+describe('foldHeader', () => {
+  it('should leave short headers alone', () => {
+    expect(foldHeader('Subject: short')).toBe('Subject: short');
+  });
+
+  it('should fold each line of an already folded header', () => {
+    const header = `To: =?UTF-8?B?w6Q=?=\r\n =?UTF-8?B?w7Y=?= <a@example.com>, ${'b@example.com, '.repeat(10)}c@example.com`;
+    const folded = foldHeader(header);
+
+    folded.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    expect(folded.replace(/\r\n/g, '')).toBe(header.replace(/\r\n/g, ''));
+  });
+
+  it('should fold long headers at whitespace', () => {
+    const header = `Subject: ${'word '.repeat(30).trim()}`;
+    const folded = foldHeader(header);
+
+    folded.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(78));
+    expect(folded.replace(/\r\n/g, '')).toBe(header);
+  });
+});
+
+describe('encodeQuotedPrintable', () => {
+  it('should escape non-ASCII bytes and equals signs', () => {
+    expect(encodeQuotedPrintable('a=b ü')).toBe('a=3Db =C3=BC');
+  });
+
+  it('should encode trailing whitespace', () => {
+    expect(encodeQuotedPrintable('end \nnext\t')).toBe('end=20\r\nnext=09');
+  });
+
+  it('should insert soft line breaks to keep lines within 76 characters', () => {
+    const encoded = encodeQuotedPrintable(`${'ä'.repeat(40)}`);
+    const lines = encoded.split('\r\n');
+
+    expect(lines.length).toBeGreaterThan(1);
+    lines.forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    lines.slice(0, -1).forEach((line) => expect(line.endsWith('=')).toBe(true));
+    // Encoded octets are never split across a soft break
+    expect(lines.every((line) => !/=[0-9A-F]?=$/.test(line))).toBe(true);
+  });
+});
+
+describe('wrapBase64', () => {
+  it('should wrap at 76 characters', () => {
+    const lines = wrapBase64('A'.repeat(200)).split('\r\n');
+    expect(lines.map((line) => line.length)).toEqual([76, 76, 48]);
+  });
+});
+
+describe('encodeTextBody', () => {
+  it('should use 7bit for short-lined ASCII and normalize line endings', () => {
+    expect(encodeTextBody('Hello\nWorld')).toEqual({ encoding: '7bit', body: 'Hello\r\nWorld' });
+  });
+
+  it('should use quoted-printable for mostly-ASCII text with accents', () => {
+    const result = encodeTextBody('Schöne Grüße aus dem Büro');
+    expect(result.encoding).toBe('quoted-printable');
+    expect(result.body).toBe('Sch=C3=B6ne Gr=C3=BC=C3=9Fe aus dem B=C3=BCro');
+  });
+
+  it('should use quoted-printable for long ASCII lines', () => {
+    const result = encodeTextBody('x'.repeat(100));
+    expect(result.encoding).toBe('quoted-printable');
+    result.body.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+  });
+
+  it('should use base64 for mostly non-ASCII text', () => {
+    const result = encodeTextBody('こんにちは\n世界');
+    expect(result.encoding).toBe('base64');
+    expect(Buffer.from(result.body, 'base64').toString()).toBe('こんにちは\r\n世界');
+  });
+});
+
+describe('decodeCharset', () => {
+  it('should decode legacy charsets', () => {
+    expect(decodeCharset(Buffer.from([0x47, 0x72, 0xfc, 0xdf, 0x65]), 'ISO-8859-1')).toBe('Grüße');
+  });
+
+  it('should fall back to UTF-8 for unknown charsets', () => {
+    expect(decodeCharset(Buffer.from('ü'), 'x-unknown')).toBe('ü');
+  });
+});
+
+describe('decodeHeaderValue', () => {
+  it('should decode B and Q encoded-words', () => {
+    expect(decodeHeaderValue('=?UTF-8?B?R3LDvMOfZQ==?=')).toBe('Grüße');
+    expect(decodeHeaderValue('=?iso-8859-1?q?Gr=FC=DFe_aus?=')).toBe('Grüße aus');
+  });
+
+  it('should drop whitespace between adjacent encoded-words but keep surrounding text', () => {
+    expect(decodeHeaderValue('Re: =?UTF-8?B?R3LDvA==?=\r\n =?UTF-8?B?w59l?= again')).toBe('Re: Grüße again');
+  });
+
+  it('should join multi-byte characters split across words', () => {
+    const bytes = Buffer.from('日本');
+    const first = bytes.subarray(0, 4).toString('base64');
+    const second = bytes.subarray(4).toString('base64');
+    expect(decodeHeaderValue(`=?UTF-8?B?${first}?= =?UTF-8?B?${second}?=`)).toBe('日本');
+  });
+
+  it('should round-trip values produced by encodeHeaderValue', () => {
+    const subject = '会議の議事録と次回の打ち合わせの日程についてのご連絡です';
+    expect(decodeHeaderValue(encodeHeaderValue(subject))).toBe(subject);
+  });
+
+  it('should leave plain values untouched', () => {
+    expect(decodeHeaderValue('Plain = subject ?')).toBe('Plain = subject ?');
+  });
+});
@@ -0,0 +1,48 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { writeFileAtomic, writeFileAtomicSync } from '../files';
+
+let dir: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-files-'));
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+describe('writeFileAtomic', () => {
+  it('should create parent directories and leave no temporary file behind', async () => {
+    const file = path.join(dir, 'nested', 'state.json');
+
+    await writeFileAtomic(file, '{"a":1}');
+    await writeFileAtomic(file, '{"a":2}', { mode: 0o600 });
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"a":2}');
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['state.json']);
+  });
+
+  it('should let concurrent writes to the same file each complete', async () => {
+    const file = path.join(dir, 'state.json');
+    const contents = Array.from({ length: 20 }, (_value, index) => `{"write":${index}}`);
+
+    await Promise.all(contents.map((content) => writeFileAtomic(file, content)));
+
+    expect(contents).toContain(fs.readFileSync(file, 'utf-8'));
+    expect(fs.readdirSync(dir)).toEqual(['state.json']);
+  });
+});
+
+describe('writeFileAtomicSync', () => {
+  it('should write the file with the given mode', () => {
+    const file = path.join(dir, 'nested', 'token.json');
+
+    writeFileAtomicSync(file, '{"refresh_token":"r"}', { mode: 0o600 });
+
+    expect(fs.readFileSync(file, 'utf-8')).toBe('{"refresh_token":"r"}');
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['token.json']);
+  });
+});
@@ -0,0 +1,103 @@
+import { validateFilterCriteria, buildFilterAction, suggestFilterCriteria } from '../filters';
+import { GmailValidationError } from '../errors';
+import { parseMessage } from '../parse';
+import { ParsedMessage } from '../types';
+
+function message(overrides: Partial<ParsedMessage> = {}): ParsedMessage {
+  return {
+    id: 'msg1',
+    threadId: 't1',
+    labelIds: ['INBOX'],
+    from: { name: 'Acme Billing', address: 'billing@acme.com' },
+    to: [],
+    cc: [],
+    bcc: [],
+    replyTo: [],
+    subject: 'Your invoice',
+    references: [],
+    headers: {},
+    attachments: [],
+    ...overrides,
+  };
+}
+
+describe('validateFilterCriteria', () => {
+  it('should accept criteria with at least one condition', () => {
+    expect(() => validateFilterCriteria({ from: 'billing@acme.com' })).not.toThrow();
+    expect(() => validateFilterCriteria({ hasAttachment: true })).not.toThrow();
+    expect(() => validateFilterCriteria({ size: 5000000, sizeComparison: 'larger' })).not.toThrow();
+  });
+
+  it('should reject criteria that match everything', () => {
+    expect(() => validateFilterCriteria({})).toThrow(GmailValidationError);
+    expect(() => validateFilterCriteria({ from: '', hasAttachment: false, excludeChats: true })).toThrow('Invalid criteria');
+  });
+
+  it('should reject bad sizes', () => {
+    expect(() => validateFilterCriteria({ size: -1 })).toThrow('Invalid criteria.size');
+    expect(() => validateFilterCriteria({ from: 'a@b.com', sizeComparison: 'larger' })).toThrow('Invalid criteria.sizeComparison');
+  });
+});
+
+describe('buildFilterAction', () => {
+  it('should expand shorthands into label changes', () => {
+    expect(buildFilterAction({ addLabelIds: ['Vendors/Acme'], archive: true, markAsRead: true, neverSpam: true, star: true })).toEqual({
+      addLabelIds: ['Vendors/Acme', 'STARRED'],
+      removeLabelIds: ['UNREAD', 'INBOX', 'SPAM'],
+      forward: undefined,
+    });
+  });
+
+  it('should normalise the forwarding address', () => {
+    expect(buildFilterAction({ forward: 'Accounts <accounts@example.com>' }).forward).toBe('accounts@example.com');
+  });
+
+  it('should reject more than one forwarding address', () => {
+    expect(() => buildFilterAction({ forward: 'a@example.com, b@example.com' })).toThrow('Invalid action.forward');
+  });
+
+  it('should reject actions that do nothing', () => {
+    expect(() => buildFilterAction({})).toThrow('Invalid action');
+  });
+});
+
+describe('suggestFilterCriteria', () => {
+  it('should prefer the mailing list when the message has a List-Id', () => {
+    const newsletter = message({ headers: { 'list-id': ['Acme News <news.acme.com>'] } });
+    expect(suggestFilterCriteria(newsletter)).toEqual({ query: 'list:news.acme.com' });
+  });
+
+  it('should fall back to the sender address', () => {
+    expect(suggestFilterCriteria(message())).toEqual({ from: 'billing@acme.com' });
+  });
+
+  it('should match the sender domain on request', () => {
+    expect(suggestFilterCriteria(message(), { by: 'domain', includeSubject: true })).toEqual({
+      from: '@acme.com',
+      subject: 'Your invoice',
+    });
+  });
+
+  it('should explain when the requested basis is unavailable', () => {
+    expect(() => suggestFilterCriteria(message(), { by: 'list' })).toThrow('no List-Id header');
+    expect(() => suggestFilterCriteria(message({ from: undefined }))).toThrow('no sender address');
+  });
+
+  it('should only build criteria from a valid sender address', () => {
+    const raw = message({ from: { address: 'billing@vendor.com <billing@vendor.com>' } });
+    for (const by of ['sender', 'domain'] as const) {
+      expect(() => suggestFilterCriteria(raw, { by })).toThrow(GmailValidationError);
+    }
+    expect(() => suggestFilterCriteria(message({ from: { address: 'root@localhost' } })))
+      .toThrow('the sender "root@localhost" is not a valid email address');
+  });
+
+  it('should suggest the sender of a message whose From header needed salvaging', () => {
+    const parsed = parseMessage({
+      id: 'm',
+      threadId: 't',
+      payload: { headers: [{ name: 'From', value: 'billing@vendor.com <billing@vendor.com>' }] },
+    });
+    expect(suggestFilterCriteria(parsed, { by: 'domain' })).toEqual({ from: '@vendor.com' });
+  });
+});
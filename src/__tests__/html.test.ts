@@ -0,0 +1,52 @@
+import { decodeEntities, htmlToText, resolveBodies } from '../html';
+
+describe('decodeEntities', () => {
+  it('should decode named and numeric entities', () => {
+    expect(decodeEntities('a &amp; b &lt;c&gt; &#39;d&#39; &#x263A; &quot;e&quot;')).toBe('a & b <c> \'d\' ☺ "e"');
+  });
+
+  it('should leave unknown entities untouched', () => {
+    expect(decodeEntities('&bogus; &#xZZ;')).toBe('&bogus; &#xZZ;');
+  });
+});
+
+describe('htmlToText', () => {
+  it('should keep paragraph and line structure', () => {
+    expect(htmlToText('<h1>Title</h1><p>First<br>line</p><p>Second</p>')).toBe('Title\n\nFirst\nline\n\nSecond');
+  });
+
+  it('should drop head, style and script content', () => {
+    const html = '<html><head><title>T</title><style>p { color: red }</style></head>'
+      + '<body><script>alert(1)</script><p>Visible</p></body></html>';
+    expect(htmlToText(html)).toBe('Visible');
+  });
+
+  it('should render list items as bullets', () => {
+    expect(htmlToText('<ul><li>One</li><li>Two</li></ul>')).toBe('- One\n- Two');
+  });
+
+  it('should append link targets that differ from the label', () => {
+    expect(htmlToText('<a href="https://example.com/x">Read more</a>')).toBe('Read more (https://example.com/x)');
+    expect(htmlToText('<a href="https://example.com">https://example.com</a>')).toBe('https://example.com');
+  });
+
+  it('should collapse whitespace and decode entities', () => {
+    expect(htmlToText('<p>  Fish   &amp;&nbsp;chips  </p>\n\n\n\n<p>Done</p>')).toBe('Fish & chips\n\nDone');
+  });
+});
+
+describe('resolveBodies', () => {
+  it('should send body as plain text unless html is set', () => {
+    expect(resolveBodies({ body: 'Hi' })).toEqual({ text: 'Hi', html: undefined });
+    expect(resolveBodies({})).toEqual({ text: '', html: undefined });
+  });
+
+  it('should derive the text alternative from the HTML', () => {
+    expect(resolveBodies({ body: '<p>Hi <b>there</b></p>', html: true })).toEqual({ text: 'Hi there', html: '<p>Hi <b>there</b></p>' });
+    expect(resolveBodies({ body: 'ignored', html: '<p>Hello</p>' })).toEqual({ text: 'Hello', html: '<p>Hello</p>' });
+  });
+
+  it('should keep an explicit text alternative', () => {
+    expect(resolveBodies({ html: '<p>Hello</p>', text: 'Plain' })).toEqual({ text: 'Plain', html: '<p>Hello</p>' });
+  });
+});
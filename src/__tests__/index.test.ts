@@ -1,7 +1,11 @@
 import { createGmailClient, resolveTokens, Tokens } from '../index';
 import * as tokens from '../tokens';
+import * as credentials from '../credentials';
+import * as stores from '../stores';
 
 jest.mock('../tokens');
+jest.mock('../credentials');
+jest.mock('../stores');
 
 // Create a mock Gmail API instance that will be reused
 let mockGmailApi: any;
@@ -12,24 +16,68 @@ jest.mock('googleapis', () => ({
       if (!mockGmailApi) {
         mockGmailApi = {
           users: {
+            getProfile: jest.fn(),
+            watch: jest.fn(),
+            stop: jest.fn(),
             messages: {
               list: jest.fn(),
               get: jest.fn(),
               send: jest.fn(),
               modify: jest.fn(),
+              batchModify: jest.fn(),
+              batchDelete: jest.fn(),
               trash: jest.fn(),
               untrash: jest.fn(),
+              attachments: {
+                get: jest.fn(),
+              },
             },
             drafts: {
               create: jest.fn(),
+              list: jest.fn(),
+              get: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+              send: jest.fn(),
             },
             labels: {
               list: jest.fn(),
+              get: jest.fn(),
+              create: jest.fn(),
+              patch: jest.fn(),
+              delete: jest.fn(),
             },
             threads: {
               list: jest.fn(),
               get: jest.fn(),
             },
+            history: {
+              list: jest.fn(),
+            },
+            settings: {
+              getVacation: jest.fn(),
+              updateVacation: jest.fn(),
+              getAutoForwarding: jest.fn(),
+              updateAutoForwarding: jest.fn(),
+              getImap: jest.fn(),
+              updateImap: jest.fn(),
+              getPop: jest.fn(),
+              updatePop: jest.fn(),
+              sendAs: {
+                list: jest.fn(),
+                get: jest.fn(),
+                patch: jest.fn(),
+              },
+              forwardingAddresses: {
+                list: jest.fn(),
+              },
+              filters: {
+                list: jest.fn(),
+                get: jest.fn(),
+                create: jest.fn(),
+                delete: jest.fn(),
+              },
+            },
           },
         };
       }
@@ -41,9 +89,37 @@ jest.mock('googleapis', () => ({
 jest.mock('google-auth-library', () => ({
   OAuth2Client: jest.fn(() => ({
     setCredentials: jest.fn(),
+    request: jest.fn(),
+    on: jest.fn(),
   })),
 }));
 
+// Build a multipart/mixed batch response the way the Gmail batch endpoint returns it
+function batchResponse(parts: Array<{ id: string; status: number; body: unknown }>) {
+  const boundary = 'batch_test';
+  const data = parts
+    .map((part) => [
+      `--${boundary}`,
+      'Content-Type: application/http',
+      `Content-ID: <response-${part.id}>`,
+      '',
+      `HTTP/1.1 ${part.status} ${part.status === 200 ? 'OK' : 'Error'}`,
+      'Content-Type: application/json; charset=UTF-8',
+      '',
+      JSON.stringify(part.body),
+      '',
+    ].join('\r\n'))
+    .join('') + `--${boundary}--\r\n`;
+
+  return { data, headers: { 'content-type': `multipart/mixed; boundary=${boundary}` } };
+}
+
+function lastOAuth2Client() {
+  const { OAuth2Client } = require('google-auth-library');
+  const results = (OAuth2Client as jest.Mock).mock.results;
+  return results[results.length - 1].value;
+}
+
 const mockTokens: Tokens = {
   access_token: 'test-access-token',
   refresh_token: 'test-refresh-token',
@@ -93,6 +169,252 @@ describe('Gmail Client', () => {
     });
   });
 
+  describe('auth clients', () => {
+    it('should use a pre-built auth client as is', async () => {
+      const authClient = { request: jest.fn().mockResolvedValue(batchResponse([])), setCredentials: jest.fn(), on: jest.fn() };
+      const { google } = require('googleapis');
+
+      const client = createGmailClient({ authClient: authClient as any, tokens: mockTokens });
+      await (client as any).getMessages('me', ['msg1']);
+
+      expect(google.gmail).toHaveBeenCalledWith({ version: 'v1', auth: authClient, retry: false });
+      expect(authClient.setCredentials).not.toHaveBeenCalled();
+      expect(authClient.on).not.toHaveBeenCalled();
+      expect(authClient.request).toHaveBeenCalled();
+      expect(tokens.resolveTokens).not.toHaveBeenCalled();
+    });
+
+    it('should build a service account client for serviceAccount options', () => {
+      const jwt = { request: jest.fn() };
+      (credentials.createServiceAccountClient as jest.Mock).mockReturnValue(jwt);
+      const { google } = require('googleapis');
+
+      createGmailClient({ serviceAccount: { keyFile: '/keys/sa.json', subject: 'alice@example.com' } });
+
+      expect(credentials.createServiceAccountClient).toHaveBeenCalledWith({ keyFile: '/keys/sa.json', subject: 'alice@example.com' });
+      expect(google.gmail).toHaveBeenCalledWith({ version: 'v1', auth: jwt, retry: false });
+      expect(tokens.resolveTokens).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token refresh', () => {
+    const refreshed = { access_token: 'new-access-token', expiry_date: 2000000000 };
+    const merged = { ...mockTokens, ...refreshed };
+
+    function emitTokens(credentials: Tokens) {
+      const [event, listener] = lastOAuth2Client().on.mock.calls[0];
+      expect(event).toBe('tokens');
+      listener(credentials);
+    }
+
+    const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+    beforeEach(() => {
+      (tokens.mergeRefreshedTokens as jest.Mock).mockReturnValue(merged);
+    });
+
+    afterEach(() => {
+      (tokens.resolveTokenFile as jest.Mock).mockReset();
+      (tokens.mergeRefreshedTokens as jest.Mock).mockReset();
+      (stores.tokenStoreFromEnv as jest.Mock).mockReset();
+    });
+
+    it('should persist refreshed tokens to the file they were read from', async () => {
+      (tokens.resolveTokenFile as jest.Mock).mockReturnValue('/tmp/token.json');
+
+      createGmailClient();
+      emitTokens(refreshed);
+      await flush();
+
+      expect(stores.FileTokenStore).toHaveBeenCalledWith('/tmp/token.json');
+      expect(tokens.mergeRefreshedTokens).toHaveBeenCalledWith(mockTokens, refreshed);
+      const store = (stores.FileTokenStore as jest.Mock).mock.instances[0];
+      expect(store.save).toHaveBeenCalledWith(merged);
+    });
+
+    it('should not persist tokens that were passed in directly', () => {
+      createGmailClient({ tokens: mockTokens });
+      emitTokens(refreshed);
+
+      expect(tokens.resolveTokenFile).not.toHaveBeenCalled();
+      expect(stores.FileTokenStore).not.toHaveBeenCalled();
+    });
+
+    it('should not persist tokens when persistTokens is false', () => {
+      (tokens.resolveTokenFile as jest.Mock).mockReturnValue('/tmp/token.json');
+
+      createGmailClient({ persistTokens: false });
+      emitTokens(refreshed);
+
+      expect(stores.FileTokenStore).not.toHaveBeenCalled();
+    });
+
+    it('should pass the merged tokens to onTokensRefreshed', async () => {
+      const onTokensRefreshed = jest.fn();
+
+      createGmailClient({ tokens: mockTokens, onTokensRefreshed });
+      emitTokens(refreshed);
+      await flush();
+
+      expect(onTokensRefreshed).toHaveBeenCalledWith(merged);
+    });
+
+    it('should log instead of throwing when saving or the callback fails', async () => {
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const store = { load: jest.fn().mockResolvedValue(mockTokens), save: jest.fn().mockRejectedValue(new Error('EACCES')), delete: jest.fn() };
+      const onTokensRefreshed = jest.fn().mockRejectedValue(new Error('boom'));
+
+      createGmailClient({ store, onTokensRefreshed });
+      expect(() => emitTokens(refreshed)).not.toThrow();
+      await flush();
+
+      expect(store.save).toHaveBeenCalledWith(merged);
+      expect(onTokensRefreshed).toHaveBeenCalledWith(merged);
+      expect(consoleSpy).toHaveBeenCalledTimes(2);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('token stores', () => {
+    const storedTokens: Tokens = { accessToken: 'stored-access', refreshToken: 'stored-refresh' };
+
+    afterEach(() => {
+      (stores.tokenStoreFromEnv as jest.Mock).mockReset();
+    });
+
+    function fakeStore(load: jest.Mock) {
+      return { load, save: jest.fn().mockResolvedValue(undefined), delete: jest.fn() };
+    }
+
+    it('should load tokens from the store before the first request and only once', async () => {
+      const { OAuth2Client } = require('google-auth-library');
+      const oauth2Client = {
+        setCredentials: jest.fn(),
+        on: jest.fn(),
+        request: jest.fn().mockResolvedValue(batchResponse([{ id: 'item-0', status: 200, body: { id: 'msg1' } }])),
+      };
+      const { request } = oauth2Client;
+      (OAuth2Client as jest.Mock).mockImplementationOnce(() => oauth2Client);
+      const store = fakeStore(jest.fn().mockResolvedValue(storedTokens));
+
+      const client = createGmailClient({ store });
+      expect(store.load).not.toHaveBeenCalled();
+      expect(tokens.resolveTokens).not.toHaveBeenCalled();
+
+      await (client as any).getMessages('me', ['msg1']);
+      await (client as any).getMessages('me', ['msg1']);
+
+      expect(store.load).toHaveBeenCalledTimes(1);
+      expect(request).toHaveBeenCalledTimes(2);
+      expect(oauth2Client.setCredentials).toHaveBeenCalledWith(expect.objectContaining({
+        access_token: 'stored-access',
+        refresh_token: 'stored-refresh',
+      }));
+      expect(oauth2Client.setCredentials.mock.invocationCallOrder[0]).toBeLessThan(request.mock.invocationCallOrder[0]);
+    });
+
+    it('should fail requests when the store is empty and retry a failed load', async () => {
+      const load = jest.fn().mockRejectedValueOnce(new Error('vault unavailable')).mockResolvedValue(undefined);
+      const client = createGmailClient({ store: fakeStore(load) });
+
+      await expect((client as any).getMessages('me', ['msg1'])).rejects.toThrow('vault unavailable');
+      await expect((client as any).getMessages('me', ['msg1'])).rejects.toThrow('No Gmail tokens found in the token store');
+      expect(load).toHaveBeenCalledTimes(2);
+    });
+
+    it('should use the store from the environment when no tokens are given', () => {
+      const store = fakeStore(jest.fn());
+      (stores.tokenStoreFromEnv as jest.Mock).mockReturnValue(store);
+
+      createGmailClient();
+      expect(tokens.resolveTokens).not.toHaveBeenCalled();
+
+      createGmailClient({ tokens: mockTokens });
+      expect(tokens.resolveTokens).toHaveBeenCalledWith(mockTokens);
+    });
+  });
+
+  describe('retries', () => {
+    const retry = { baseDelayMs: 0, jitter: false };
+    const rateLimited = () => Object.assign(new Error('Rate Limit Exceeded'), { code: 429, response: { status: 429, headers: {} } });
+    const backendError = () => Object.assign(new Error('Backend Error'), { code: 500, response: { status: 500, headers: {} } });
+
+    it('should retry a rate-limited call until it succeeds', async () => {
+      const client = createGmailClient({ tokens: mockTokens, retry });
+      const api = require('googleapis').google.gmail();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      api.users.messages.list
+        .mockRejectedValueOnce(rateLimited())
+        .mockRejectedValueOnce(backendError())
+        .mockResolvedValue({ data: { messages: [{ id: 'msg1', threadId: 't1' }] } });
+
+      expect(await (client as any).listMessages('me')).toEqual([{ id: 'msg1', threadId: 't1' }]);
+      expect(api.users.messages.list).toHaveBeenCalledTimes(3);
+      expect(consoleSpy).not.toHaveBeenCalled();
+      consoleSpy.mockRestore();
+    });
+
+    it('should retry sending only when the request was rejected unprocessed', async () => {
+      const client = createGmailClient({ tokens: mockTokens, retry });
+      const api = require('googleapis').google.gmail();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+      const options = { to: 'test@example.com', subject: 'Test', body: 'Test body' };
+
+      api.users.messages.send.mockRejectedValueOnce(rateLimited()).mockResolvedValue({ data: { id: 'sent1' } });
+      expect(await (client as any).sendMessage('me', options)).toEqual({ id: 'sent1' });
+      expect(api.users.messages.send).toHaveBeenCalledTimes(2);
+
+      api.users.messages.send.mockClear();
+      api.users.messages.send.mockRejectedValue(backendError());
+      await expect((client as any).sendMessage('me', options)).rejects.toThrow('Backend Error');
+      expect(api.users.messages.send).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('should stop after maxAttempts and not retry when turned off', async () => {
+      const client = createGmailClient({ tokens: mockTokens, retry: { ...retry, maxAttempts: 2 } });
+      const api = require('googleapis').google.gmail();
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      api.users.labels.list.mockRejectedValue(backendError());
+      await expect((client as any).listLabels('me')).rejects.toThrow('Backend Error');
+      expect(api.users.labels.list).toHaveBeenCalledTimes(2);
+
+      api.users.labels.list.mockClear();
+      await expect((createGmailClient({ tokens: mockTokens, retry: false }) as any).listLabels('me')).rejects.toThrow();
+      expect(api.users.labels.list).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+
+    it('should resend only the batch items that failed with a retryable status', async () => {
+      const onRetry = jest.fn();
+      const client = createGmailClient({ tokens: mockTokens, retry: { ...retry, onRetry } });
+      const auth = lastOAuth2Client();
+
+      auth.request
+        .mockResolvedValueOnce(batchResponse([
+          { id: 'item-0', status: 200, body: { id: 'msg1' } },
+          { id: 'item-1', status: 429, body: { error: { code: 429, message: 'Too many concurrent requests for user' } } },
+          { id: 'item-2', status: 404, body: { error: { code: 404, message: 'Requested entity was not found.' } } },
+        ]))
+        .mockResolvedValueOnce(batchResponse([{ id: 'item-1', status: 200, body: { id: 'msg2' } }]));
+
+      const result = await (client as any).getMessages('me', ['msg1', 'msg2', 'missing']);
+
+      expect(result).toEqual([
+        { id: 'msg1', message: { id: 'msg1' } },
+        { id: 'msg2', message: { id: 'msg2' } },
+        { id: 'missing', error: { code: 404, message: 'Requested entity was not found.' } },
+      ]);
+      expect(auth.request).toHaveBeenCalledTimes(2);
+      const retried = auth.request.mock.calls[1][0].data;
+      expect(retried).toContain('GET /gmail/v1/users/me/messages/msg2?format=full');
+      expect(retried).not.toContain('messages/msg1?');
+      expect(onRetry).toHaveBeenCalledWith(expect.objectContaining({ attempt: 1, delayMs: 0 }));
+    });
+  });
+
   describe('listMessages', () => {
     it('should list messages with optional parameters', async () => {
       const mockMessages = [
@@ -119,7 +441,8 @@ describe('Gmail Client', () => {
           userId: 'me',
           q: 'is:unread',
           maxResults: 10,
-        })
+        }),
+        { signal: undefined }
       );
     });
 
@@ -147,6 +470,245 @@ describe('Gmail Client', () => {
     });
   });
 
+  describe('listMessagesPage', () => {
+    it('should return paging metadata with the messages', async () => {
+      const mockMessages = [{ id: 'msg1', threadId: 'thread1' }];
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list.mockResolvedValue({
+        data: { messages: mockMessages, nextPageToken: 'token2', resultSizeEstimate: 120 },
+      });
+
+      const result = await (client as any).listMessagesPage('me', { maxResults: 1, pageToken: 'token1' });
+
+      expect(result).toEqual({ messages: mockMessages, nextPageToken: 'token2', resultSizeEstimate: 120 });
+      expect(api.users.messages.list).toHaveBeenCalledWith(
+        expect.objectContaining({ maxResults: 1, pageToken: 'token1' }),
+        { signal: undefined }
+      );
+    });
+
+    it('should omit the token on the last page', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list.mockResolvedValue({ data: { resultSizeEstimate: 0 } });
+
+      const result = await (client as any).listMessagesPage('me');
+
+      expect(result).toEqual({ messages: [], nextPageToken: undefined, resultSizeEstimate: 0 });
+    });
+  });
+
+  describe('getMessages', () => {
+    it('should fetch messages in one batch request and keep input order', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const auth = lastOAuth2Client();
+
+      auth.request.mockResolvedValue(batchResponse([
+        { id: 'item-1', status: 200, body: { id: 'msg2', snippet: 'Second' } },
+        { id: 'item-0', status: 200, body: { id: 'msg1', snippet: 'First' } },
+      ]));
+
+      const result = await (client as any).getMessages('me', ['msg1', 'msg2'], 'metadata');
+
+      expect(result).toEqual([
+        { id: 'msg1', message: { id: 'msg1', snippet: 'First' } },
+        { id: 'msg2', message: { id: 'msg2', snippet: 'Second' } },
+      ]);
+      expect(auth.request).toHaveBeenCalledTimes(1);
+      const request = auth.request.mock.calls[0][0];
+      expect(request.url).toBe('https://gmail.googleapis.com/batch/gmail/v1');
+      expect(request.data).toContain('GET /gmail/v1/users/me/messages/msg1?format=metadata');
+      expect(request.data).toContain('GET /gmail/v1/users/me/messages/msg2?format=metadata');
+    });
+
+    it('should report per-message errors without failing the batch', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const auth = lastOAuth2Client();
+
+      auth.request.mockResolvedValue(batchResponse([
+        { id: 'item-0', status: 200, body: { id: 'msg1' } },
+        { id: 'item-1', status: 404, body: { error: { code: 404, message: 'Requested entity was not found.' } } },
+      ]));
+
+      const result = await (client as any).getMessages('me', ['msg1', 'missing']);
+
+      expect(result[0]).toEqual({ id: 'msg1', message: { id: 'msg1' } });
+      expect(result[1]).toEqual({
+        id: 'missing',
+        error: { code: 404, message: 'Requested entity was not found.' },
+      });
+    });
+
+    it('should split more than 100 IDs into several batch requests', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const auth = lastOAuth2Client();
+      const ids = Array.from({ length: 150 }, (_, index) => `msg${index}`);
+
+      auth.request.mockImplementation(async ({ data }: { data: string }) => {
+        const count = (data.match(/Content-ID:/g) || []).length;
+        return batchResponse(Array.from({ length: count }, (_, index) => ({
+          id: `item-${index}`,
+          status: 200,
+          body: { id: `hydrated-${index}` },
+        })));
+      });
+
+      const result = await (client as any).getMessages('me', ids);
+
+      expect(auth.request).toHaveBeenCalledTimes(2);
+      expect(result).toHaveLength(150);
+      expect(result[100]).toEqual({ id: 'msg100', message: { id: 'hydrated-0' } });
+    });
+  });
+
+  describe('listMessagesPage with format', () => {
+    it('should hydrate listed messages through the batch endpoint', async () => {
+      const client = createGmailClient({ tokens: mockTokens, retry: false });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const auth = lastOAuth2Client();
+
+      api.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1', threadId: 't1' }, { id: 'msg2', threadId: 't2' }], nextPageToken: 'next' },
+      });
+      auth.request.mockResolvedValue(batchResponse([
+        { id: 'item-0', status: 200, body: { id: 'msg1', threadId: 't1', snippet: 'Hello' } },
+        { id: 'item-1', status: 500, body: { error: { code: 500, message: 'Backend Error' } } },
+      ]));
+
+      const result = await (client as any).listMessagesPage('me', { format: 'metadata' });
+
+      expect(result.messages).toEqual([
+        { id: 'msg1', threadId: 't1', snippet: 'Hello' },
+        { id: 'msg2', threadId: 't2' },
+      ]);
+      expect(result.nextPageToken).toBe('next');
+      expect(api.users.messages.get).not.toHaveBeenCalled();
+    });
+
+    it('should not call the batch endpoint without a format', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const auth = lastOAuth2Client();
+
+      api.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'msg1' }] } });
+
+      await (client as any).listMessagesPage('me');
+
+      expect(auth.request).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchMessagesPage', () => {
+    it('should return paging metadata for a search', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list.mockResolvedValue({
+        data: { messages: [{ id: 'msg1', threadId: 't1' }], nextPageToken: 'next', resultSizeEstimate: 3 },
+      });
+
+      const result = await (client as any).searchMessagesPage('me', 'is:unread', { maxResults: 1 });
+
+      expect(result.nextPageToken).toBe('next');
+      expect(api.users.messages.list).toHaveBeenCalledWith(
+        expect.objectContaining({ q: 'is:unread', maxResults: 1 }),
+        { signal: undefined }
+      );
+    });
+  });
+
+  describe('iterateMessages', () => {
+    it('should follow page tokens and hydrate each message', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'm1', threadId: 't1' }], nextPageToken: 'p2' } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'm2', threadId: 't2' }] } });
+      api.users.messages.get.mockImplementation(async ({ id }: { id: string }) => ({
+        data: { id, threadId: 't', snippet: `snippet ${id}` },
+      }));
+
+      const results = [];
+      for await (const message of (client as any).iterateMessages('me', 'is:unread', { format: 'metadata', pageSize: 1 })) {
+        results.push(message);
+      }
+
+      expect(results.map((m: any) => m.snippet)).toEqual(['snippet m1', 'snippet m2']);
+      expect(api.users.messages.list).toHaveBeenLastCalledWith(
+        expect.objectContaining({ q: 'is:unread', pageToken: 'p2', maxResults: 1 }),
+        { signal: undefined }
+      );
+      expect(api.users.messages.get).toHaveBeenCalledWith({ userId: 'me', id: 'm1', format: 'metadata' });
+    });
+
+    it('should yield stubs without a format', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'm1', threadId: 't1' }] } });
+
+      const results = [];
+      for await (const message of (client as any).iterateMessages('me')) {
+        results.push(message);
+      }
+
+      expect(results).toEqual([{ id: 'm1', threadId: 't1' }]);
+      expect(api.users.messages.get).not.toHaveBeenCalled();
+    });
+
+    it('should pass the abort signal to each list request', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const controller = new AbortController();
+
+      api.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'm1', threadId: 't1' }] } });
+      api.users.threads.list.mockResolvedValue({ data: { threads: [{ id: 't1' }] } });
+
+      for await (const message of (client as any).iterateMessages('me', undefined, { signal: controller.signal })) {
+        expect(message.id).toBe('m1');
+      }
+      for await (const thread of (client as any).iterateThreads('me', undefined, { signal: controller.signal })) {
+        expect(thread.id).toBe('t1');
+      }
+
+      expect(api.users.messages.list).toHaveBeenCalledWith(expect.any(Object), { signal: controller.signal });
+      expect(api.users.threads.list).toHaveBeenCalledWith(expect.any(Object), { signal: controller.signal });
+    });
+  });
+
+  describe('iterateThreads', () => {
+    it('should iterate threads up to the limit', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.list.mockResolvedValue({
+        data: { threads: [{ id: 't1' }, { id: 't2' }, { id: 't3' }], nextPageToken: 'more' },
+      });
+
+      const results = [];
+      for await (const thread of (client as any).iterateThreads('me', 'label:work', { limit: 2 })) {
+        results.push(thread);
+      }
+
+      expect(results).toEqual([{ id: 't1' }, { id: 't2' }]);
+      expect(api.users.threads.list).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('getMessage', () => {
     it('should get a specific message', async () => {
       const mockMessage = {
@@ -173,6 +735,30 @@ describe('Gmail Client', () => {
       });
     });
 
+    it('should return a parsed message for the parsed format', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            mimeType: 'text/plain',
+            headers: [{ name: 'Subject', value: 'Hello' }],
+            body: { size: 2, data: Buffer.from('Hi').toString('base64url') },
+          },
+        },
+      });
+
+      const result = await (client as any).getMessage('me', 'msg1', 'parsed');
+
+      expect(api.users.messages.get).toHaveBeenCalledWith({ userId: 'me', id: 'msg1', format: 'full' });
+      expect(result.subject).toBe('Hello');
+      expect(result.text).toBe('Hi');
+    });
+
     it('should handle API errors on get message', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
@@ -184,6 +770,72 @@ describe('Gmail Client', () => {
     });
   });
 
+  describe('listAttachments', () => {
+    it('should list attachments found in the message payload', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            parts: [
+              { mimeType: 'text/plain', body: { size: 4, data: 'dGVzdA' } },
+              { partId: '1', mimeType: 'application/pdf', filename: 'invoice.pdf', body: { size: 100, attachmentId: 'att1' } },
+            ],
+          },
+        },
+      });
+
+      const result = await (client as any).listAttachments('me', 'msg1');
+
+      expect(result).toEqual([
+        { attachmentId: 'att1', filename: 'invoice.pdf', mimeType: 'application/pdf', size: 100, partId: '1' },
+      ]);
+      expect(api.users.messages.get).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+        format: 'full',
+      });
+    });
+  });
+
+  describe('getAttachment', () => {
+    it('should fetch attachment data', async () => {
+      const mockAttachment = { attachmentId: 'att1', size: 4, data: 'dGVzdA' };
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.attachments.get.mockResolvedValue({
+        data: mockAttachment,
+      });
+
+      const result = await (client as any).getAttachment('me', 'msg1', 'att1');
+
+      expect(result).toEqual(mockAttachment);
+      expect(api.users.messages.attachments.get).toHaveBeenCalledWith({
+        userId: 'me',
+        messageId: 'msg1',
+        id: 'att1',
+      });
+    });
+
+    it('should handle API errors on attachment get', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.attachments.get.mockRejectedValue(new Error('Attachment get failed'));
+
+      await expect((client as any).getAttachment('me', 'msg1', 'att1')).rejects.toThrow('Attachment get failed');
+    });
+  });
+
   describe('searchMessages', () => {
     it('should search messages with query', async () => {
       const mockMessages = [{ id: 'msg1', threadId: 'thread1' }];
@@ -202,7 +854,8 @@ describe('Gmail Client', () => {
       expect(api.users.messages.list).toHaveBeenCalledWith(
         expect.objectContaining({
           q: 'from:test@example.com',
-        })
+        }),
+        { signal: undefined }
       );
     });
 
@@ -246,313 +899,1309 @@ describe('Gmail Client', () => {
       );
     });
 
-    it('should handle multiple recipients', async () => {
+    it('should handle multiple recipients', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.send.mockResolvedValue({
+        data: { id: 'sent1' },
+      });
+
+      await (client as any).sendMessage('me', {
+        to: ['test1@example.com', 'test2@example.com'],
+        subject: 'Test',
+        body: 'Test body',
+      });
+
+      const callArgs = api.users.messages.send.mock.calls[0][0];
+      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
+      expect(raw).toContain('To: test1@example.com, test2@example.com');
+    });
+
+    it('should send HTML emails', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.send.mockResolvedValue({
+        data: { id: 'sent1' },
+      });
+
+      await (client as any).sendMessage('me', {
+        to: 'test@example.com',
+        subject: 'Test',
+        body: '<h1>Test</h1>',
+        html: true,
+      });
+
+      const callArgs = api.users.messages.send.mock.calls[0][0];
+      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
+      expect(raw).toContain('Content-Type: text/html');
+    });
+
+    it('should include inReplyTo headers when replying', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.send.mockResolvedValue({
+        data: { id: 'sent1' },
+      });
+
+      await (client as any).sendMessage('me', {
+        to: 'test@example.com',
+        subject: 'Re: Test',
+        body: 'Reply body',
+        inReplyTo: 'msg123',
+      });
+
+      const callArgs = api.users.messages.send.mock.calls[0][0];
+      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
+      expect(raw).toContain('In-Reply-To: msg123');
+      expect(raw).toContain('References: msg123');
+    });
+
+    it('should encode the raw payload as base64url', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.send.mockResolvedValue({
+        data: { id: 'sent1' },
+      });
+
+      await (client as any).sendMessage('me', {
+        to: 'test@example.com',
+        subject: '???>>>',
+        body: '???>>>',
+      });
+
+      const callArgs = api.users.messages.send.mock.calls[0][0];
+      expect(callArgs.requestBody.raw).not.toMatch(/[+/=]/);
+      expect(Buffer.from(callArgs.requestBody.raw, 'base64url').toString()).toContain('Subject: ???>>>');
+    });
+
+    it('should handle API errors on send', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.send.mockRejectedValue(new Error('Send failed'));
+
+      await expect((client as any).sendMessage('me', {
+        to: 'test@example.com',
+        subject: 'Test',
+        body: 'Test',
+      })).rejects.toThrow('Send failed');
+    });
+  });
+
+  describe('replyToMessage', () => {
+    const original = {
+      id: 'msg1',
+      threadId: 'thread1',
+      payload: {
+        mimeType: 'text/plain',
+        headers: [
+          { name: 'From', value: 'Alice <alice@example.com>' },
+          { name: 'To', value: 'me@example.com, bob@example.com' },
+          { name: 'Subject', value: 'Hello' },
+          { name: 'Message-Id', value: '<orig@example.com>' },
+        ],
+        body: { size: 2, data: Buffer.from('Hi').toString('base64url') },
+      },
+    };
+
+    it('should send a threaded reply to the sender', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({ data: original });
+      api.users.getProfile.mockResolvedValue({ data: { emailAddress: 'me@example.com' } });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1', threadId: 'thread1' } });
+
+      const result = await (client as any).replyToMessage('me', 'msg1', { body: 'Thanks' });
+
+      expect(result).toEqual({ id: 'sent1', threadId: 'thread1' });
+      const callArgs = api.users.messages.send.mock.calls[0][0];
+      expect(callArgs.requestBody.threadId).toBe('thread1');
+      const raw = Buffer.from(callArgs.requestBody.raw, 'base64url').toString();
+      expect(raw).toContain('To: Alice <alice@example.com>\r\n');
+      expect(raw).toContain('Subject: Re: Hello');
+      expect(raw).toContain('In-Reply-To: <orig@example.com>');
+      expect(raw).toContain('References: <orig@example.com>');
+    });
+
+    it('should exclude our own address on reply all', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({ data: original });
+      api.users.getProfile.mockResolvedValue({ data: { emailAddress: 'me@example.com' } });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1' } });
+
+      await (client as any).replyToMessage('me', 'msg1', { body: 'Thanks' }, { replyAll: true });
+
+      const raw = Buffer.from(api.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+      expect(raw).toContain('To: Alice <alice@example.com>, bob@example.com\r\n');
+      expect(raw).not.toContain('me@example.com');
+    });
+  });
+
+  describe('forwardMessage', () => {
+    it('should forward a message with its attachments', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: {
+            mimeType: 'multipart/mixed',
+            headers: [
+              { name: 'From', value: 'alice@example.com' },
+              { name: 'Subject', value: 'Invoice' },
+            ],
+            parts: [
+              { mimeType: 'text/plain', body: { size: 4, data: Buffer.from('See!').toString('base64url') } },
+              { mimeType: 'application/pdf', filename: 'invoice.pdf', body: { size: 3, attachmentId: 'att1' } },
+            ],
+          },
+        },
+      });
+      api.users.messages.attachments.get.mockResolvedValue({
+        data: { size: 3, data: Buffer.from('PDF').toString('base64url') },
+      });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1' } });
+
+      await (client as any).forwardMessage('me', 'msg1', 'dave@example.com', { body: 'FYI' });
+
+      expect(api.users.messages.attachments.get).toHaveBeenCalledWith({ userId: 'me', messageId: 'msg1', id: 'att1' });
+      const raw = Buffer.from(api.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+      expect(raw).toContain('Subject: Fwd: Invoice');
+      expect(raw).toContain('filename="invoice.pdf"');
+      expect(raw).toContain(Buffer.from('PDF').toString('base64'));
+    });
+
+    it('should skip original attachments when includeAttachments is false', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 'thread1',
+          payload: { parts: [{ filename: 'a.pdf', body: { size: 1, attachmentId: 'att1' } }] },
+        },
+      });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1' } });
+
+      await (client as any).forwardMessage('me', 'msg1', 'dave@example.com', { includeAttachments: false });
+
+      expect(api.users.messages.attachments.get).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('createDraft', () => {
+    it('should create a draft', async () => {
+      const mockDraft = { id: 'draft1', message: { id: 'msg1' } };
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.create.mockResolvedValue({
+        data: mockDraft,
+      });
+
+      const result = await (client as any).createDraft('me', {
+        to: 'test@example.com',
+        subject: 'Draft',
+        body: 'Draft body',
+      });
+
+      expect(result).toEqual(mockDraft);
+    });
+
+    it('should handle API errors on draft creation', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.create.mockRejectedValue(new Error('Draft creation failed'));
+
+      await expect((client as any).createDraft('me', {
+        to: 'test@example.com',
+        subject: 'Draft',
+        body: 'Draft body',
+      })).rejects.toThrow('Draft creation failed');
+    });
+  });
+
+  describe('draft lifecycle', () => {
+    it('should list drafts with paging metadata', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.list.mockResolvedValue({
+        data: { drafts: [{ id: 'draft1', message: { id: 'msg1' } }], nextPageToken: 'next', resultSizeEstimate: 4 },
+      });
+
+      const page = await (client as any).listDraftsPage('me', { q: 'subject:report', maxResults: 1 });
+      const drafts = await (client as any).listDrafts('me');
+
+      expect(page).toEqual({
+        drafts: [{ id: 'draft1', message: { id: 'msg1' } }],
+        nextPageToken: 'next',
+        resultSizeEstimate: 4,
+      });
+      expect(drafts).toEqual([{ id: 'draft1', message: { id: 'msg1' } }]);
+      expect(api.users.drafts.list).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'me', q: 'subject:report', maxResults: 1 })
+      );
+    });
+
+    it('should get a draft in the requested format', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.get.mockResolvedValue({ data: { id: 'draft1', message: { id: 'msg1', snippet: 'Hi' } } });
+
+      const result = await (client as any).getDraft('me', 'draft1', 'metadata');
+
+      expect(result.message.snippet).toBe('Hi');
+      expect(api.users.drafts.get).toHaveBeenCalledWith({ userId: 'me', id: 'draft1', format: 'metadata' });
+    });
+
+    it('should replace a draft with a newly built message', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.update.mockResolvedValue({ data: { id: 'draft1', message: { id: 'msg2' } } });
+
+      await (client as any).updateDraft('me', 'draft1', {
+        to: 'test@example.com',
+        subject: 'Revised',
+        body: 'Second version',
+        threadId: 'thread1',
+      });
+
+      const request = api.users.drafts.update.mock.calls[0][0];
+      expect(request.id).toBe('draft1');
+      expect(request.requestBody.id).toBe('draft1');
+      expect(request.requestBody.message.threadId).toBe('thread1');
+      const raw = Buffer.from(request.requestBody.message.raw, 'base64url').toString();
+      expect(raw).toContain('Subject: Revised');
+      expect(raw).toContain('Second version');
+    });
+
+    it('should validate updated drafts like new ones', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      await expect(
+        (client as any).updateDraft('me', 'draft1', { to: 'not an address', body: 'x' })
+      ).rejects.toThrow('Invalid to');
+      expect(api.users.drafts.update).not.toHaveBeenCalled();
+    });
+
+    it('should delete a draft', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.delete.mockResolvedValue({ data: '' });
+
+      await (client as any).deleteDraft('me', 'draft1');
+
+      expect(api.users.drafts.delete).toHaveBeenCalledWith({ userId: 'me', id: 'draft1' });
+    });
+
+    it('should send a draft and return the sent message', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.send.mockResolvedValue({ data: { id: 'msg3', labelIds: ['SENT'] } });
+
+      const result = await (client as any).sendDraft('me', 'draft1');
+
+      expect(result).toEqual({ id: 'msg3', labelIds: ['SENT'] });
+      expect(api.users.drafts.send).toHaveBeenCalledWith({ userId: 'me', requestBody: { id: 'draft1' } });
+    });
+
+    it('should surface API errors when sending a draft', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.drafts.send.mockRejectedValue(new Error('Requested entity was not found.'));
+
+      await expect((client as any).sendDraft('me', 'gone')).rejects.toThrow('Requested entity was not found.');
+    });
+  });
+
+  describe('listLabels', () => {
+    it('should list all labels', async () => {
+      const mockLabels = [
+        { id: 'INBOX', name: 'INBOX' },
+        { id: 'SENT', name: 'SENT' },
+      ];
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({
+        data: { labels: mockLabels },
+      });
+
+      const result = await (client as any).listLabels('me');
+
+      expect(result).toEqual(mockLabels);
+    });
+
+    it('should handle API errors on label list', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockRejectedValue(new Error('Labels fetch failed'));
+
+      await expect((client as any).listLabels('me')).rejects.toThrow('Labels fetch failed');
+    });
+  });
+
+  describe('label management', () => {
+    const userLabels = [
+      { id: 'INBOX', name: 'INBOX', type: 'system' },
+      { id: 'Label_1', name: 'Projects', type: 'user' },
+      { id: 'Label_2', name: 'Projects/Acme', type: 'user' },
+    ];
+
+    it('should get a label by name with its counts', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: userLabels } });
+      api.users.labels.get.mockResolvedValue({
+        data: { id: 'Label_2', name: 'Projects/Acme', messagesTotal: 12, messagesUnread: 3 },
+      });
+
+      const result = await (client as any).getLabel('me', 'projects/acme');
+
+      expect(result.messagesUnread).toBe(3);
+      expect(api.users.labels.get).toHaveBeenCalledWith({ userId: 'me', id: 'Label_2' });
+    });
+
+    it('should create missing parents before a nested label', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: userLabels } });
+      api.users.labels.create.mockImplementation(async ({ requestBody }: any) => ({
+        data: { id: `Label_${requestBody.name.length}`, name: requestBody.name },
+      }));
+
+      const result = await (client as any).createLabel('me', {
+        name: 'Projects/Acme/Invoices/2026',
+        color: { textColor: '#ffffff', backgroundColor: '#16a765' },
+      });
+
+      const created = api.users.labels.create.mock.calls.map((call: any[]) => call[0].requestBody.name);
+      expect(created).toEqual(['Projects/Acme/Invoices', 'Projects/Acme/Invoices/2026']);
+      expect(api.users.labels.create.mock.calls[1][0].requestBody.color).toEqual({
+        textColor: '#ffffff',
+        backgroundColor: '#16a765',
+      });
+      expect(result.name).toBe('Projects/Acme/Invoices/2026');
+    });
+
+    it('should not list labels when creating a top-level label', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.create.mockResolvedValue({ data: { id: 'Label_9', name: 'Receipts' } });
+
+      await (client as any).createLabel('me', { name: ' Receipts ', labelListVisibility: 'labelShowIfUnread' });
+
+      expect(api.users.labels.list).not.toHaveBeenCalled();
+      expect(api.users.labels.create).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: {
+          name: 'Receipts',
+          labelListVisibility: 'labelShowIfUnread',
+          messageListVisibility: undefined,
+          color: undefined,
+        },
+      });
+    });
+
+    it('should rename a label found by name', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: userLabels } });
+      api.users.labels.patch.mockResolvedValue({ data: { id: 'Label_2', name: 'Clients/Acme' } });
+      api.users.labels.create.mockResolvedValue({ data: { id: 'Label_3', name: 'Clients' } });
+
+      await (client as any).updateLabel('me', 'Projects/Acme', { name: 'Clients/Acme', messageListVisibility: 'hide' });
+
+      expect(api.users.labels.create.mock.calls[0][0].requestBody).toEqual({ name: 'Clients' });
+      expect(api.users.labels.patch).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'Label_2',
+        requestBody: {
+          name: 'Clients/Acme',
+          labelListVisibility: undefined,
+          messageListVisibility: 'hide',
+          color: undefined,
+        },
+      });
+    });
+
+    it('should delete a label by ID without listing', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.delete.mockResolvedValue({ data: '' });
+
+      await (client as any).deleteLabel('me', 'Label_7');
+
+      expect(api.users.labels.list).not.toHaveBeenCalled();
+      expect(api.users.labels.delete).toHaveBeenCalledWith({ userId: 'me', id: 'Label_7' });
+    });
+
+    it('should reject unknown label names with a validation error', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: userLabels } });
+
+      await expect((client as any).deleteLabel('me', 'Receipts')).rejects.toThrow('Invalid labelId: no label named "Receipts"');
+      expect(api.users.labels.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('label name resolution', () => {
+    it('should resolve names when modifying and reuse the cached label list', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({
+        data: { labels: [{ id: 'INBOX', name: 'INBOX' }, { id: 'Label_2', name: 'Projects/Acme' }] },
+      });
+      api.users.messages.modify.mockResolvedValue({ data: { id: 'msg1' } });
+
+      await (client as any).modifyMessageLabels('me', 'msg1', { addLabelIds: ['Projects/Acme'], removeLabelIds: ['Inbox'] });
+      await (client as any).modifyMessageLabels('me', 'msg2', { addLabelIds: ['projects/acme'] });
+
+      expect(api.users.messages.modify.mock.calls[0][0].requestBody).toEqual({
+        addLabelIds: ['Label_2'],
+        removeLabelIds: ['INBOX'],
+      });
+      expect(api.users.messages.modify.mock.calls[1][0].requestBody.addLabelIds).toEqual(['Label_2']);
+      expect(api.users.labels.list).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refresh the cache once when a name is not found', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list
+        .mockResolvedValueOnce({ data: { labels: [{ id: 'Label_1', name: 'Old' }] } })
+        .mockResolvedValueOnce({ data: { labels: [{ id: 'Label_1', name: 'Old' }, { id: 'Label_5', name: 'New' }] } });
+
+      await (client as any).listLabels('me');
+      const ids = await (client as any).resolveLabelIds('me', ['New']);
+
+      expect(ids).toEqual(['Label_5']);
+      expect(api.users.labels.list).toHaveBeenCalledTimes(2);
+    });
+
+    it('should resolve label names in list filters', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: [{ id: 'Label_2', name: 'Projects/Acme' }] } });
+      api.users.messages.list.mockResolvedValue({ data: { messages: [] } });
+      api.users.threads.list.mockResolvedValue({ data: { threads: [] } });
+
+      await (client as any).listMessagesPage('me', { labelIds: ['Projects/Acme', 'UNREAD'] });
+      await (client as any).listThreadsPage('me', { labelIds: ['Projects/Acme'] });
+
+      expect(api.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ labelIds: ['Label_2', 'UNREAD'] }), { signal: undefined });
+      expect(api.users.threads.list).toHaveBeenCalledWith(expect.objectContaining({ labelIds: ['Label_2'] }), { signal: undefined });
+    });
+
+    it('should fail modifyMatching on an unknown label before searching', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: [] } });
+
+      await expect(
+        (client as any).modifyMatching('me', 'is:unread', { addLabelIds: ['Nope'] })
+      ).rejects.toThrow('Invalid addLabelIds: no label named "Nope"');
+      expect(api.users.messages.list).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('modifyMessageLabels', () => {
+    it('should add and remove labels from a message', async () => {
+      const mockModifiedMessage = {
+        id: 'msg1',
+        labelIds: ['INBOX', 'CUSTOM'],
+      };
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: [{ id: 'CUSTOM', name: 'Custom' }] } });
+      api.users.messages.modify.mockResolvedValue({
+        data: mockModifiedMessage,
+      });
+
+      const result = await (client as any).modifyMessageLabels('me', 'msg1', {
+        addLabelIds: ['CUSTOM'],
+        removeLabelIds: ['DRAFT'],
+      });
+
+      expect(result).toEqual(mockModifiedMessage);
+      expect(api.users.messages.modify).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userId: 'me',
+          id: 'msg1',
+          requestBody: {
+            addLabelIds: ['CUSTOM'],
+            removeLabelIds: ['DRAFT'],
+          },
+        })
+      );
+    });
+
+    it('should handle API errors on label modification', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.labels.list.mockResolvedValue({ data: { labels: [{ id: 'CUSTOM', name: 'Custom' }] } });
+      api.users.messages.modify.mockRejectedValue(new Error('Modify failed'));
+
+      await expect((client as any).modifyMessageLabels('me', 'msg1', {
+        addLabelIds: ['CUSTOM'],
+      })).rejects.toThrow('Modify failed');
+    });
+  });
+
+  describe('batchModifyMessages', () => {
+    it('should modify labels with a single request up to 1000 IDs', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.batchModify.mockResolvedValue({ data: '' });
+
+      await (client as any).batchModifyMessages('me', ['msg1', 'msg2'], { removeLabelIds: ['INBOX'] });
+
+      expect(api.users.messages.batchModify).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { ids: ['msg1', 'msg2'], addLabelIds: undefined, removeLabelIds: ['INBOX'] },
+      });
+    });
+
+    it('should chunk past the per-request limit', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const ids = Array.from({ length: 2500 }, (_, index) => `msg${index}`);
+
+      api.users.messages.batchModify.mockResolvedValue({ data: '' });
+
+      await (client as any).batchModifyMessages('me', ids, { addLabelIds: ['Label_1'] });
+
+      const sizes = api.users.messages.batchModify.mock.calls.map((call: any[]) => call[0].requestBody.ids.length);
+      expect(sizes).toEqual([1000, 1000, 500]);
+    });
+
+    it('should not call the API for an empty ID list', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      await (client as any).batchModifyMessages('me', [], { addLabelIds: ['Label_1'] });
+
+      expect(api.users.messages.batchModify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('batchDeleteMessages', () => {
+    it('should delete messages in chunks of 1000', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const ids = Array.from({ length: 1001 }, (_, index) => `msg${index}`);
+
+      api.users.messages.batchDelete.mockResolvedValue({ data: '' });
+
+      await (client as any).batchDeleteMessages('me', ids);
+
+      expect(api.users.messages.batchDelete).toHaveBeenCalledTimes(2);
+      expect(api.users.messages.batchDelete.mock.calls[1][0]).toEqual({
+        userId: 'me',
+        requestBody: { ids: ['msg1000'] },
+      });
+    });
+
+    it('should surface API errors', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.batchDelete.mockRejectedValue(new Error('Insufficient Permission'));
+
+      await expect((client as any).batchDeleteMessages('me', ['msg1'])).rejects.toThrow('Insufficient Permission');
+    });
+  });
+
+  describe('modifyMatching', () => {
+    it('should collect every matching message before modifying and report the count', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg1' }, { id: 'msg2' }], nextPageToken: 'p2' } })
+        .mockResolvedValueOnce({ data: { messages: [{ id: 'msg3' }] } });
+      api.users.messages.batchModify.mockResolvedValue({ data: '' });
+
+      const result = await (client as any).modifyMatching('me', 'from:alerts@example.com', {
+        addLabelIds: ['Label_1'],
+        removeLabelIds: ['INBOX'],
+      });
+
+      expect(result).toEqual({ modified: 3 });
+      expect(api.users.messages.list).toHaveBeenCalledWith(
+        expect.objectContaining({ q: 'from:alerts@example.com', maxResults: 500 }),
+        { signal: undefined }
+      );
+      expect(api.users.messages.batchModify).toHaveBeenCalledTimes(1);
+      expect(api.users.messages.batchModify.mock.calls[0][0].requestBody).toEqual({
+        ids: ['msg1', 'msg2', 'msg3'],
+        addLabelIds: ['Label_1'],
+        removeLabelIds: ['INBOX'],
+      });
+    });
+
+    it('should report zero when nothing matches', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.list.mockResolvedValue({ data: { resultSizeEstimate: 0 } });
+
+      const result = await (client as any).modifyMatching('me', 'label:none', { addLabelIds: ['STARRED'] });
+
+      expect(result).toEqual({ modified: 0 });
+      expect(api.users.messages.batchModify).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('trashMessage', () => {
+    it('should move message to trash', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.trash.mockResolvedValue({
+        data: { id: 'msg1' },
+      });
+
+      await (client as any).trashMessage('me', 'msg1');
+
+      expect(api.users.messages.trash).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+      });
+    });
+
+    it('should handle API errors on trash', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.trash.mockRejectedValue(new Error('Trash failed'));
+
+      await expect((client as any).trashMessage('me', 'msg1')).rejects.toThrow('Trash failed');
+    });
+  });
+
+  describe('untrashMessage', () => {
+    it('should restore message from trash', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.untrash.mockResolvedValue({
+        data: { id: 'msg1' },
+      });
+
+      await (client as any).untrashMessage('me', 'msg1');
+
+      expect(api.users.messages.untrash).toHaveBeenCalledWith({
+        userId: 'me',
+        id: 'msg1',
+      });
+    });
+
+    it('should handle API errors on untrash', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.messages.untrash.mockRejectedValue(new Error('Untrash failed'));
+
+      await expect((client as any).untrashMessage('me', 'msg1')).rejects.toThrow('Untrash failed');
+    });
+  });
+
+  describe('listThreads', () => {
+    it('should list threads', async () => {
+      const mockThreads = [
+        { id: 'thread1', snippet: 'Thread snippet' },
+      ];
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.list.mockResolvedValue({
+        data: { threads: mockThreads },
+      });
+
+      const result = await (client as any).listThreads('me');
+
+      expect(result).toEqual(mockThreads);
+    });
+
+    it('should handle API errors on thread list', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.list.mockRejectedValue(new Error('Thread list failed'));
+
+      await expect((client as any).listThreads('me')).rejects.toThrow('Thread list failed');
+    });
+  });
+
+  describe('listThreadsPage', () => {
+    it('should return paging metadata with the threads', async () => {
+      const mockThreads = [{ id: 'thread1' }];
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.list.mockResolvedValue({
+        data: { threads: mockThreads, nextPageToken: 'tok', resultSizeEstimate: 7 },
+      });
+
+      const result = await (client as any).listThreadsPage('me', { q: 'label:work' });
+
+      expect(result).toEqual({ threads: mockThreads, nextPageToken: 'tok', resultSizeEstimate: 7 });
+    });
+
+    it('should handle API errors on thread page', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.list.mockRejectedValue(new Error('Thread page failed'));
+
+      await expect((client as any).listThreadsPage('me')).rejects.toThrow('Thread page failed');
+    });
+  });
+
+  describe('getThread', () => {
+    it('should get a specific thread', async () => {
+      const mockThread = {
+        id: 'thread1',
+        messages: [{ id: 'msg1' }, { id: 'msg2' }],
+      };
+
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.threads.get.mockResolvedValue({
+        data: mockThread,
+      });
+
+      const result = await (client as any).getThread('me', 'thread1', 'full');
+
+      expect(result).toEqual(mockThread);
+    });
+
+    it('should return a parsed thread for the parsed format', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.send.mockResolvedValue({
-        data: { id: 'sent1' },
+      api.users.threads.get.mockResolvedValue({
+        data: { id: 'thread1', messages: [{ id: 'msg1', threadId: 'thread1', payload: { headers: [] } }] },
       });
 
-      await (client as any).sendMessage('me', {
-        to: ['test1@example.com', 'test2@example.com'],
-        subject: 'Test',
-        body: 'Test body',
-      });
+      const result = await (client as any).getThread('me', 'thread1', 'parsed');
 
-      const callArgs = api.users.messages.send.mock.calls[0][0];
-      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
-      expect(raw).toContain('To: test1@example.com,test2@example.com');
+      expect(api.users.threads.get).toHaveBeenCalledWith({ userId: 'me', id: 'thread1', format: 'full' });
+      expect(result.messages[0].id).toBe('msg1');
+      expect(result.messages[0].to).toEqual([]);
     });
 
-    it('should send HTML emails', async () => {
+    it('should handle API errors on thread get', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.send.mockResolvedValue({
-        data: { id: 'sent1' },
-      });
-
-      await (client as any).sendMessage('me', {
-        to: 'test@example.com',
-        subject: 'Test',
-        body: '<h1>Test</h1>',
-        html: true,
-      });
+      api.users.threads.get.mockRejectedValue(new Error('Thread get failed'));
 
-      const callArgs = api.users.messages.send.mock.calls[0][0];
-      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
-      expect(raw).toContain('Content-Type: text/html');
+      await expect((client as any).getThread('me', 'thread1')).rejects.toThrow('Thread get failed');
     });
+  });
 
-    it('should include inReplyTo headers when replying', async () => {
+  describe('listHistoryPage', () => {
+    it('should return change events and the current history ID', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.send.mockResolvedValue({
-        data: { id: 'sent1' },
+      api.users.history.list.mockResolvedValue({
+        data: {
+          history: [{ id: '101', messagesAdded: [{ message: { id: 'msg1', threadId: 't1' } }] }],
+          historyId: '105',
+          nextPageToken: 'more',
+        },
       });
 
-      await (client as any).sendMessage('me', {
-        to: 'test@example.com',
-        subject: 'Re: Test',
-        body: 'Reply body',
-        inReplyTo: 'msg123',
-      });
+      const result = await (client as any).listHistoryPage('me', '100', { labelId: 'INBOX' });
 
-      const callArgs = api.users.messages.send.mock.calls[0][0];
-      const raw = Buffer.from(callArgs.requestBody.raw, 'base64').toString();
-      expect(raw).toContain('In-Reply-To: msg123');
-      expect(raw).toContain('References: msg123');
+      expect(result).toEqual({
+        events: [{ type: 'messageAdded', historyId: '101', message: { id: 'msg1', threadId: 't1' } }],
+        historyId: '105',
+        nextPageToken: 'more',
+      });
+      expect(api.users.history.list).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'me', startHistoryId: '100', labelId: 'INBOX' })
+      );
     });
 
-    it('should handle API errors on send', async () => {
+    it('should report an expired start point as GmailHistoryExpiredError', async () => {
+      const { GmailHistoryExpiredError } = require('../index');
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.send.mockRejectedValue(new Error('Send failed'));
+      api.users.history.list.mockRejectedValue(Object.assign(new Error('Requested entity was not found.'), { code: 404 }));
 
-      await expect((client as any).sendMessage('me', {
-        to: 'test@example.com',
-        subject: 'Test',
-        body: 'Test',
-      })).rejects.toThrow('Send failed');
+      await expect((client as any).listHistoryPage('me', '1')).rejects.toBeInstanceOf(GmailHistoryExpiredError);
     });
   });
 
-  describe('createDraft', () => {
-    it('should create a draft', async () => {
-      const mockDraft = { id: 'draft1', message: { id: 'msg1' } };
+  describe('syncMailbox', () => {
+    it('should replay every history page from the stored checkpoint and save the new one', async () => {
+      const { MemoryCheckpointStore } = require('../index');
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const store = new MemoryCheckpointStore();
+      await store.save('me', '100');
+
+      api.users.history.list
+        .mockResolvedValueOnce({
+          data: {
+            history: [{ id: '101', labelsAdded: [{ message: { id: 'msg1', threadId: 't1' }, labelIds: ['STARRED'] }] }],
+            historyId: '110',
+            nextPageToken: 'p2',
+          },
+        })
+        .mockResolvedValueOnce({
+          data: {
+            history: [{ id: '108', messagesDeleted: [{ message: { id: 'msg2', threadId: 't2' } }] }],
+            historyId: '110',
+          },
+        });
 
+      const result = await (client as any).syncMailbox('me', { store });
+
+      expect(result.mode).toBe('incremental');
+      expect(result.historyId).toBe('110');
+      expect(result.events.map((event: any) => event.type)).toEqual(['labelsAdded', 'messageDeleted']);
+      expect(api.users.history.list.mock.calls[1][0]).toEqual(
+        expect.objectContaining({ startHistoryId: '100', pageToken: 'p2' })
+      );
+      expect(await store.load('me')).toBe('110');
+    });
+
+    it('should run a full sync when there is no checkpoint', async () => {
+      const { MemoryCheckpointStore } = require('../index');
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
+      const store = new MemoryCheckpointStore();
 
-      api.users.drafts.create.mockResolvedValue({
-        data: mockDraft,
-      });
+      api.users.getProfile.mockResolvedValue({ data: { emailAddress: 'me@example.com', historyId: '500' } });
+      api.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'msg1', threadId: 't1' }] } });
 
-      const result = await (client as any).createDraft('me', {
-        to: 'test@example.com',
-        subject: 'Draft',
-        body: 'Draft body',
-      });
+      const result = await (client as any).syncMailbox('me', { store, key: 'inbox', labelId: 'INBOX' });
 
-      expect(result).toEqual(mockDraft);
+      expect(result).toEqual({
+        mode: 'full',
+        reason: 'no-checkpoint',
+        historyId: '500',
+        events: [],
+        messages: [{ id: 'msg1', threadId: 't1' }],
+      });
+      expect(api.users.history.list).not.toHaveBeenCalled();
+      expect(api.users.messages.list).toHaveBeenCalledWith(expect.objectContaining({ labelIds: ['INBOX'] }), { signal: undefined });
+      expect(await store.load('inbox')).toBe('500');
     });
 
-    it('should handle API errors on draft creation', async () => {
+    it('should fall back to a full sync when the history ID has expired', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.drafts.create.mockRejectedValue(new Error('Draft creation failed'));
+      api.users.history.list.mockRejectedValue(Object.assign(new Error('Not Found'), { response: { status: 404 } }));
+      api.users.getProfile.mockResolvedValue({ data: { emailAddress: 'me@example.com', historyId: '900' } });
+      api.users.messages.list.mockResolvedValue({ data: { messages: [] } });
 
-      await expect((client as any).createDraft('me', {
-        to: 'test@example.com',
-        subject: 'Draft',
-        body: 'Draft body',
-      })).rejects.toThrow('Draft creation failed');
+      const result = await (client as any).syncMailbox('me', { startHistoryId: '1' });
+
+      expect(result.mode).toBe('full');
+      expect(result.reason).toBe('history-expired');
+      expect(result.historyId).toBe('900');
     });
-  });
 
-  describe('listLabels', () => {
-    it('should list all labels', async () => {
-      const mockLabels = [
-        { id: 'INBOX', name: 'INBOX' },
-        { id: 'SENT', name: 'SENT' },
-      ];
+    it('should not save a checkpoint when the sync fails', async () => {
+      const { MemoryCheckpointStore } = require('../index');
+      const client = createGmailClient({ tokens: mockTokens, retry: false });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+      const store = new MemoryCheckpointStore();
+      await store.save('me', '100');
+
+      api.users.history.list.mockRejectedValue(Object.assign(new Error('Backend Error'), { code: 500 }));
 
+      await expect((client as any).syncMailbox('me', { store })).rejects.toThrow('Backend Error');
+      expect(await store.load('me')).toBe('100');
+    });
+  });
+
+  describe('filters', () => {
+    it('should list filters', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
+      const filters = [{ id: 'f1', criteria: { from: 'a@example.com' }, action: { addLabelIds: ['Label_1'] } }];
 
-      api.users.labels.list.mockResolvedValue({
-        data: { labels: mockLabels },
-      });
-
-      const result = await (client as any).listLabels('me');
+      api.users.settings.filters.list.mockResolvedValue({ data: { filter: filters } });
 
-      expect(result).toEqual(mockLabels);
+      expect(await (client as any).listFilters('me')).toEqual(filters);
     });
 
-    it('should handle API errors on label list', async () => {
+    it('should return an empty list when there are no filters', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.labels.list.mockRejectedValue(new Error('Labels fetch failed'));
+      api.users.settings.filters.list.mockResolvedValue({ data: {} });
 
-      await expect((client as any).listLabels('me')).rejects.toThrow('Labels fetch failed');
+      expect(await (client as any).listFilters('me')).toEqual([]);
     });
-  });
 
-  describe('modifyMessageLabels', () => {
-    it('should add and remove labels from a message', async () => {
-      const mockModifiedMessage = {
-        id: 'msg1',
-        labelIds: ['INBOX', 'CUSTOM'],
-      };
+    it('should get and delete a filter by ID', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.settings.filters.get.mockResolvedValue({ data: { id: 'f1', criteria: {}, action: {} } });
+      api.users.settings.filters.delete.mockResolvedValue({ data: '' });
+
+      expect((await (client as any).getFilter('me', 'f1')).id).toBe('f1');
+      await (client as any).deleteFilter('me', 'f1');
 
+      expect(api.users.settings.filters.get).toHaveBeenCalledWith({ userId: 'me', id: 'f1' });
+      expect(api.users.settings.filters.delete).toHaveBeenCalledWith({ userId: 'me', id: 'f1' });
+    });
+
+    it('should create a filter with label names resolved and shorthands expanded', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.modify.mockResolvedValue({
-        data: mockModifiedMessage,
+      api.users.labels.list.mockResolvedValue({ data: { labels: [{ id: 'Label_7', name: 'Vendors/Acme' }] } });
+      api.users.settings.filters.create.mockResolvedValue({ data: { id: 'f2' } });
+
+      await (client as any).createFilter('me', {
+        criteria: { from: '@acme.com' },
+        action: { addLabelIds: ['Vendors/Acme'], archive: true, neverSpam: true },
       });
 
-      const result = await (client as any).modifyMessageLabels('me', 'msg1', {
-        addLabelIds: ['CUSTOM'],
-        removeLabelIds: ['DRAFT'],
+      expect(api.users.settings.filters.create).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: {
+          criteria: { from: '@acme.com' },
+          action: { addLabelIds: ['Label_7'], removeLabelIds: ['INBOX', 'SPAM'], forward: undefined },
+        },
       });
+    });
 
-      expect(result).toEqual(mockModifiedMessage);
-      expect(api.users.messages.modify).toHaveBeenCalledWith(
-        expect.objectContaining({
-          userId: 'me',
-          id: 'msg1',
-          requestBody: {
-            addLabelIds: ['CUSTOM'],
-            removeLabelIds: ['DRAFT'],
-          },
-        })
+    it('should validate before calling the API', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      await expect((client as any).createFilter('me', { criteria: {}, action: { star: true } })).rejects.toThrow(
+        'Invalid criteria'
       );
+      expect(api.users.settings.filters.create).not.toHaveBeenCalled();
     });
 
-    it('should handle API errors on label modification', async () => {
+    it('should suggest criteria from an example message', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.modify.mockRejectedValue(new Error('Modify failed'));
+      api.users.messages.get.mockResolvedValue({
+        data: {
+          id: 'msg1',
+          threadId: 't1',
+          payload: {
+            mimeType: 'text/plain',
+            headers: [
+              { name: 'From', value: 'Acme <noreply@acme.com>' },
+              { name: 'List-Id', value: '<updates.acme.com>' },
+            ],
+            body: { data: Buffer.from('hi').toString('base64url') },
+          },
+        },
+      });
 
-      await expect((client as any).modifyMessageLabels('me', 'msg1', {
-        addLabelIds: ['CUSTOM'],
-      })).rejects.toThrow('Modify failed');
+      expect(await (client as any).suggestFilterCriteria('me', 'msg1')).toEqual({ query: 'list:updates.acme.com' });
+      expect(await (client as any).suggestFilterCriteria('me', 'msg1', { by: 'sender' })).toEqual({ from: 'noreply@acme.com' });
     });
   });
 
-  describe('trashMessage', () => {
-    it('should move message to trash', async () => {
+  describe('mailbox settings', () => {
+    it('should update the vacation responder and keep unspecified fields', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.trash.mockResolvedValue({
-        data: { id: 'msg1' },
+      api.users.settings.getVacation.mockResolvedValue({
+        data: { enableAutoReply: false, responseSubject: 'Out of office', responseBodyPlainText: 'Back soon', restrictToContacts: true },
       });
+      api.users.settings.updateVacation.mockImplementation(async ({ requestBody }: any) => ({ data: requestBody }));
 
-      await (client as any).trashMessage('me', 'msg1');
+      const result = await (client as any).updateVacation('me', {
+        enableAutoReply: true,
+        responseSubject: undefined,
+        endTime: '2026-05-01T00:00:00Z',
+      });
 
-      expect(api.users.messages.trash).toHaveBeenCalledWith({
+      expect(api.users.settings.updateVacation).toHaveBeenCalledWith({
         userId: 'me',
-        id: 'msg1',
+        requestBody: {
+          enableAutoReply: true,
+          responseSubject: 'Out of office',
+          responseBodyPlainText: 'Back soon',
+          restrictToContacts: true,
+          endTime: '1777593600000',
+        },
       });
+      expect(result.enableAutoReply).toBe(true);
     });
 
-    it('should handle API errors on trash', async () => {
+    it('should reject a vacation that ends before it starts', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.trash.mockRejectedValue(new Error('Trash failed'));
-
-      await expect((client as any).trashMessage('me', 'msg1')).rejects.toThrow('Trash failed');
+      await expect(
+        (client as any).updateVacation('me', { startTime: '2026-05-02T00:00:00Z', endTime: '2026-05-01T00:00:00Z' })
+      ).rejects.toThrow('Invalid endTime: must be after startTime');
+      expect(api.users.settings.getVacation).not.toHaveBeenCalled();
     });
-  });
 
-  describe('untrashMessage', () => {
-    it('should restore message from trash', async () => {
+    it('should list, get and update send-as aliases', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
+      const alias = { sendAsEmail: 'me@example.com', displayName: 'Me', isPrimary: true, signature: '' };
 
-      api.users.messages.untrash.mockResolvedValue({
-        data: { id: 'msg1' },
-      });
+      api.users.settings.sendAs.list.mockResolvedValue({ data: { sendAs: [alias] } });
+      api.users.settings.sendAs.get.mockResolvedValue({ data: alias });
+      api.users.settings.sendAs.patch.mockResolvedValue({ data: { ...alias, signature: '<b>Me</b>' } });
 
-      await (client as any).untrashMessage('me', 'msg1');
+      expect(await (client as any).listSendAs('me')).toEqual([alias]);
+      expect(await (client as any).getSendAs('me', 'me@example.com')).toEqual(alias);
+      const updated = await (client as any).updateSendAs('me', 'me@example.com', { signature: '<b>Me</b>' });
 
-      expect(api.users.messages.untrash).toHaveBeenCalledWith({
+      expect(updated.signature).toBe('<b>Me</b>');
+      expect(api.users.settings.sendAs.patch).toHaveBeenCalledWith({
         userId: 'me',
-        id: 'msg1',
+        sendAsEmail: 'me@example.com',
+        requestBody: { signature: '<b>Me</b>' },
       });
     });
 
-    it('should handle API errors on untrash', async () => {
+    it('should update forwarding, IMAP and POP settings by merging', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.messages.untrash.mockRejectedValue(new Error('Untrash failed'));
+      api.users.settings.getAutoForwarding.mockResolvedValue({ data: { enabled: false } });
+      api.users.settings.updateAutoForwarding.mockResolvedValue({ data: {} });
+      api.users.settings.getImap.mockResolvedValue({ data: { enabled: true, autoExpunge: true, maxFolderSize: 0 } });
+      api.users.settings.updateImap.mockResolvedValue({ data: {} });
+      api.users.settings.getPop.mockResolvedValue({ data: { accessWindow: 'disabled', disposition: 'leaveInInbox' } });
+      api.users.settings.updatePop.mockResolvedValue({ data: {} });
+      api.users.settings.forwardingAddresses.list.mockResolvedValue({
+        data: { forwardingAddresses: [{ forwardingEmail: 'archive@example.com', verificationStatus: 'accepted' }] },
+      });
 
-      await expect((client as any).untrashMessage('me', 'msg1')).rejects.toThrow('Untrash failed');
-    });
-  });
+      await (client as any).updateAutoForwarding('me', { enabled: true, emailAddress: 'archive@example.com', disposition: 'archive' });
+      await (client as any).updateImap('me', { expungeBehavior: 'trash' });
+      await (client as any).updatePop('me', { accessWindow: 'fromNowOn' });
+      const addresses = await (client as any).listForwardingAddresses('me');
 
-  describe('listThreads', () => {
-    it('should list threads', async () => {
-      const mockThreads = [
-        { id: 'thread1', snippet: 'Thread snippet' },
-      ];
+      expect(api.users.settings.updateAutoForwarding.mock.calls[0][0].requestBody).toEqual({
+        enabled: true,
+        emailAddress: 'archive@example.com',
+        disposition: 'archive',
+      });
+      expect(api.users.settings.updateImap.mock.calls[0][0].requestBody).toEqual({
+        enabled: true,
+        autoExpunge: true,
+        maxFolderSize: 0,
+        expungeBehavior: 'trash',
+      });
+      expect(api.users.settings.updatePop.mock.calls[0][0].requestBody).toEqual({
+        accessWindow: 'fromNowOn',
+        disposition: 'leaveInInbox',
+      });
+      expect(addresses).toEqual([{ forwardingEmail: 'archive@example.com', verificationStatus: 'accepted' }]);
+    });
 
+    it('should send from a send-as alias with its signature', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.threads.list.mockResolvedValue({
-        data: { threads: mockThreads },
+      api.users.settings.sendAs.get.mockResolvedValue({
+        data: { sendAsEmail: 'support@example.com', displayName: 'Acme Support', signature: 'The Acme Team' },
       });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1' } });
 
-      const result = await (client as any).listThreads('me');
+      await (client as any).sendMessage('me', { to: 'customer@example.com', subject: 'Hi', body: 'Thanks!', sendAs: 'support@example.com' });
 
-      expect(result).toEqual(mockThreads);
+      expect(api.users.settings.sendAs.get).toHaveBeenCalledWith({ userId: 'me', sendAsEmail: 'support@example.com' });
+      const raw = Buffer.from(api.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+      expect(raw).toContain('From: Acme Support <support@example.com>');
+      expect(raw).toContain('Thanks!\r\n\r\n-- \r\nThe Acme Team');
     });
 
-    it('should handle API errors on thread list', async () => {
+    it('should keep an explicit From and skip the signature when asked', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.threads.list.mockRejectedValue(new Error('Thread list failed'));
+      api.users.settings.sendAs.get.mockResolvedValue({
+        data: { sendAsEmail: 'support@example.com', displayName: 'Acme Support', signature: 'The Acme Team' },
+      });
+      api.users.messages.send.mockResolvedValue({ data: { id: 'sent1' } });
 
-      await expect((client as any).listThreads('me')).rejects.toThrow('Thread list failed');
+      await (client as any).sendMessage('me', {
+        to: 'customer@example.com',
+        from: 'Help Desk <support@example.com>',
+        body: 'Thanks!',
+        sendAs: 'support@example.com',
+        appendSignature: false,
+      });
+
+      const raw = Buffer.from(api.users.messages.send.mock.calls[0][0].requestBody.raw, 'base64url').toString();
+      expect(raw).toContain('From: Help Desk <support@example.com>');
+      expect(raw).not.toContain('The Acme Team');
     });
   });
 
-  describe('getThread', () => {
-    it('should get a specific thread', async () => {
-      const mockThread = {
-        id: 'thread1',
-        messages: [{ id: 'msg1' }, { id: 'msg2' }],
-      };
-
+  describe('watch', () => {
+    it('should register a watch with resolved label IDs', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.threads.get.mockResolvedValue({
-        data: mockThread,
+      api.users.watch.mockResolvedValue({ data: { historyId: '1234', expiration: '1700000000000' } });
+
+      const result = await (client as any).watch('me', 'projects/p/topics/gmail', {
+        labelIds: ['INBOX'],
+        labelFilterBehavior: 'include',
       });
 
-      const result = await (client as any).getThread('me', 'thread1', 'full');
+      expect(result).toEqual({ historyId: '1234', expiration: '1700000000000' });
+      expect(api.users.watch).toHaveBeenCalledWith({
+        userId: 'me',
+        requestBody: { topicName: 'projects/p/topics/gmail', labelIds: ['INBOX'], labelFilterBehavior: 'include' },
+      });
+    });
 
-      expect(result).toEqual(mockThread);
+    it('should stop watching', async () => {
+      const client = createGmailClient({ tokens: mockTokens });
+      const googleModule = require('googleapis');
+      const api = googleModule.google.gmail();
+
+      api.users.stop.mockResolvedValue({ data: '' });
+
+      await (client as any).stopWatch('me');
+
+      expect(api.users.stop).toHaveBeenCalledWith({ userId: 'me' });
     });
 
-    it('should handle API errors on thread get', async () => {
+    it('should renew the watch through startWatchRenewal', async () => {
       const client = createGmailClient({ tokens: mockTokens });
       const googleModule = require('googleapis');
       const api = googleModule.google.gmail();
 
-      api.users.threads.get.mockRejectedValue(new Error('Thread get failed'));
+      api.users.watch.mockResolvedValue({ data: { historyId: '1', expiration: String(Date.now() + 7 * 86400000) } });
 
-      await expect((client as any).getThread('me', 'thread1')).rejects.toThrow('Thread get failed');
+      const renewal = (client as any).startWatchRenewal('me', 'projects/p/topics/gmail', { labelIds: ['INBOX'] });
+      const first = await renewal.ready;
+      renewal.stop();
+
+      expect(first.historyId).toBe('1');
+      expect(api.users.watch).toHaveBeenCalledTimes(1);
     });
   });
 
@@ -683,6 +2332,37 @@ describe('Exported standalone functions', () => {
     expect(result).toEqual(mockMessage);
   });
 
+  it('getAttachment should use tokens parameter if provided', async () => {
+    const { getAttachment } = require('../index');
+    const mockAttachment = { size: 4, data: 'dGVzdA' };
+
+    const client = createGmailClient({ tokens: mockTokens });
+    const googleModule = require('googleapis');
+    const api = googleModule.google.gmail();
+
+    api.users.messages.attachments.get.mockResolvedValue({
+      data: mockAttachment,
+    });
+
+    const result = await getAttachment('msg1', 'att1', mockTokens);
+    expect(result).toEqual(mockAttachment);
+  });
+
+  it('listAttachments should use tokens parameter if provided', async () => {
+    const { listAttachments } = require('../index');
+
+    const client = createGmailClient({ tokens: mockTokens });
+    const googleModule = require('googleapis');
+    const api = googleModule.google.gmail();
+
+    api.users.messages.get.mockResolvedValue({
+      data: { id: 'msg1', threadId: 'thread1' },
+    });
+
+    const result = await listAttachments('msg1', mockTokens);
+    expect(result).toEqual([]);
+  });
+
   it('searchMessages should use tokens parameter if provided', async () => {
     const { searchMessages } = require('../index');
     const mockMessages = [{ id: 'msg1', threadId: 'thread1' }];
@@ -834,4 +2514,83 @@ describe('Exported standalone functions', () => {
     const result = await getThread('thread1', mockTokens);
     expect(result).toEqual(mockThread);
   });
+
+  // [export, its arguments, GmailClient method, the arguments it should receive]
+  const delegations: Array<[string, unknown[], string, unknown[]]> = [
+    ['listMessagesPage', ['me', { q: 'a' }], 'listMessagesPage', ['me', { q: 'a' }]],
+    ['getMessage', ['msg1', undefined, 'parsed'], 'getMessage', ['me', 'msg1', 'parsed']],
+    ['getMessages', [['msg1'], undefined, 'metadata'], 'getMessages', ['me', ['msg1'], 'metadata']],
+    ['searchMessagesPage', ['q', undefined, { maxResults: 5 }], 'searchMessagesPage', ['me', 'q', { maxResults: 5 }]],
+    ['listDrafts', [undefined, { q: 'x' }], 'listDrafts', ['me', { q: 'x' }]],
+    ['listDraftsPage', [undefined, { q: 'x' }], 'listDraftsPage', ['me', { q: 'x' }]],
+    ['getDraft', ['d1', undefined, 'full'], 'getDraft', ['me', 'd1', 'full']],
+    ['updateDraft', ['d1', { to: 'a@example.com' }], 'updateDraft', ['me', 'd1', { to: 'a@example.com' }]],
+    ['deleteDraft', ['d1'], 'deleteDraft', ['me', 'd1']],
+    ['sendDraft', ['d1'], 'sendDraft', ['me', 'd1']],
+    ['getProfile', [], 'getProfile', []],
+    ['replyToMessage', ['msg1', { body: 'Hi' }, 'all'], 'replyToMessage', ['me', 'msg1', { body: 'Hi' }, 'all']],
+    ['forwardMessage', ['msg1', 'b@example.com', { body: 'FYI' }], 'forwardMessage', ['me', 'msg1', 'b@example.com', { body: 'FYI' }]],
+    ['getLabel', ['Label_1'], 'getLabel', ['me', 'Label_1']],
+    ['createLabel', [{ name: 'Work' }], 'createLabel', ['me', { name: 'Work' }]],
+    ['updateLabel', ['Label_1', { name: 'Home' }], 'updateLabel', ['me', 'Label_1', { name: 'Home' }]],
+    ['deleteLabel', ['Label_1'], 'deleteLabel', ['me', 'Label_1']],
+    ['batchModifyMessages', [['msg1'], { addLabelIds: ['STARRED'] }], 'batchModifyMessages', ['me', ['msg1'], { addLabelIds: ['STARRED'] }]],
+    ['batchDeleteMessages', [['msg1']], 'batchDeleteMessages', ['me', ['msg1']]],
+    ['modifyMatching', ['q', { addLabelIds: ['STARRED'] }, undefined, { limit: 5 }], 'modifyMatching', ['me', 'q', { addLabelIds: ['STARRED'] }, { limit: 5 }]],
+    ['listThreadsPage', [undefined, { q: 'x' }], 'listThreadsPage', ['me', { q: 'x' }]],
+    ['getThread', ['t1', undefined, 'parsed'], 'getThread', ['me', 't1', 'parsed']],
+    ['archiveMessage', ['msg1'], 'archiveMessage', ['me', 'msg1']],
+    ['unarchiveMessage', ['msg1'], 'unarchiveMessage', ['me', 'msg1']],
+    ['listHistoryPage', ['100', undefined, { maxResults: 5 }], 'listHistoryPage', ['me', '100', { maxResults: 5 }]],
+    ['syncMailbox', [undefined, { checkpointKey: 'inbox' }], 'syncMailbox', ['me', { checkpointKey: 'inbox' }]],
+    ['watch', ['projects/p/topics/t', undefined, { labelIds: ['INBOX'] }], 'watch', ['me', 'projects/p/topics/t', { labelIds: ['INBOX'] }]],
+    ['stopWatch', [], 'stopWatch', ['me']],
+    ['listFilters', [], 'listFilters', ['me']],
+    ['getFilter', ['f1'], 'getFilter', ['me', 'f1']],
+    ['createFilter', [{ criteria: { from: 'a' }, action: {} }], 'createFilter', ['me', { criteria: { from: 'a' }, action: {} }]],
+    ['deleteFilter', ['f1'], 'deleteFilter', ['me', 'f1']],
+    ['getVacation', [], 'getVacation', ['me']],
+    ['updateVacation', [{ enableAutoReply: false }], 'updateVacation', ['me', { enableAutoReply: false }]],
+    ['listSendAs', [], 'listSendAs', ['me']],
+    ['getSendAs', ['a@example.com'], 'getSendAs', ['me', 'a@example.com']],
+    ['updateSendAs', ['a@example.com', { signature: 'A' }], 'updateSendAs', ['me', 'a@example.com', { signature: 'A' }]],
+    ['getAutoForwarding', [], 'getAutoForwarding', ['me']],
+    ['updateAutoForwarding', [{ enabled: false }], 'updateAutoForwarding', ['me', { enabled: false }]],
+    ['listForwardingAddresses', [], 'listForwardingAddresses', ['me']],
+    ['getImap', [], 'getImap', ['me']],
+    ['updateImap', [{ enabled: true }], 'updateImap', ['me', { enabled: true }]],
+    ['getPop', [], 'getPop', ['me']],
+    ['updatePop', [{ accessWindow: 'disabled' }], 'updatePop', ['me', { accessWindow: 'disabled' }]],
+  ];
+
+  it.each(delegations)('%s should delegate to the client method', async (name, args, method, expected) => {
+    const gmail = require('../index');
+    const prototype = Object.getPrototypeOf(createGmailClient({ tokens: mockTokens }));
+    const spy = jest.spyOn(prototype, method).mockResolvedValue('result');
+
+    try {
+      await expect(gmail[name](...args)).resolves.toBe('result');
+      expect(spy).toHaveBeenCalledWith(...expected);
+    } finally {
+      spy.mockRestore();
+    }
+  });
+
+  it('iterateMessages and iterateThreads should iterate through the client', async () => {
+    const { iterateMessages, iterateThreads } = require('../index');
+    const api = require('googleapis').google.gmail();
+
+    api.users.messages.list.mockResolvedValue({ data: { messages: [{ id: 'msg1', threadId: 't1' }] } });
+    api.users.threads.list.mockResolvedValue({ data: { threads: [{ id: 't1' }] } });
+
+    const ids = [];
+    for await (const message of iterateMessages('is:unread', { limit: 1 }, mockTokens)) {
+      ids.push(message.id);
+    }
+    for await (const thread of iterateThreads('is:unread', { limit: 1 }, mockTokens)) {
+      ids.push(thread.id);
+    }
+
+    expect(ids).toEqual(['msg1', 't1']);
+  });
 });
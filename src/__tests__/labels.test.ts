@@ -0,0 +1,58 @@
+import { isLabelId, normalizeLabelName, findLabel, parentLabelNames } from '../labels';
+import { GmailValidationError } from '../errors';
+
+describe('isLabelId', () => {
+  it('should recognise system and user label IDs', () => {
+    expect(isLabelId('INBOX')).toBe(true);
+    expect(isLabelId('CATEGORY_PROMOTIONS')).toBe(true);
+    expect(isLabelId('Label_123')).toBe(true);
+  });
+
+  it('should treat anything else as a name', () => {
+    expect(isLabelId('Inbox')).toBe(false);
+    expect(isLabelId('Projects/Acme')).toBe(false);
+    expect(isLabelId('Label_')).toBe(false);
+  });
+});
+
+describe('normalizeLabelName', () => {
+  it('should trim each nesting level', () => {
+    expect(normalizeLabelName(' Projects / Acme ')).toBe('Projects/Acme');
+  });
+
+  it('should reject empty levels', () => {
+    expect(() => normalizeLabelName('Projects//Acme')).toThrow(GmailValidationError);
+    expect(() => normalizeLabelName('  ')).toThrow('Invalid name');
+  });
+});
+
+describe('findLabel', () => {
+  const labels = [
+    { id: 'INBOX', name: 'INBOX', type: 'system' },
+    { id: 'Label_1', name: 'Projects' },
+    { id: 'Label_2', name: 'Projects/Acme' },
+  ];
+
+  it('should match by ID', () => {
+    expect(findLabel(labels, 'Label_2')?.name).toBe('Projects/Acme');
+  });
+
+  it('should match names ignoring case and spacing around slashes', () => {
+    expect(findLabel(labels, 'projects / acme')?.id).toBe('Label_2');
+    expect(findLabel(labels, 'Inbox')?.id).toBe('INBOX');
+  });
+
+  it('should return undefined for unknown labels', () => {
+    expect(findLabel(labels, 'Receipts')).toBeUndefined();
+  });
+});
+
+describe('parentLabelNames', () => {
+  it('should list ancestors outermost first', () => {
+    expect(parentLabelNames('A/B/C')).toEqual(['A', 'A/B']);
+  });
+
+  it('should return nothing for top-level labels', () => {
+    expect(parentLabelNames('Receipts')).toEqual([]);
+  });
+});
@@ -0,0 +1,377 @@
+import * as fs from 'fs';
+import { buildMessage } from '../mime';
+import { GmailValidationError } from '../errors';
+import { decodeHeaderValue } from '../encoding';
+
+jest.mock('fs');
+
+function boundaryOf(raw: string): string {
+  const match = raw.match(/boundary="([^"]+)"/);
+  if (!match) {
+    throw new Error('No boundary found');
+  }
+  return match[1];
+}
+
+describe('buildMessage', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should build a single-part plain text message', () => {
+    const raw = buildMessage({
+      to: 'test@example.com',
+      subject: 'Hello',
+      body: 'Plain body',
+    });
+
+    expect(raw).toContain('To: test@example.com');
+    expect(raw).toContain('Subject: Hello');
+    expect(raw).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(raw).not.toContain('multipart');
+    expect(raw.endsWith('\r\n\r\nPlain body')).toBe(true);
+  });
+
+  it('should default the subject', () => {
+    const raw = buildMessage({ to: 'test@example.com' });
+    expect(raw).toContain('Subject: (no subject)');
+  });
+
+  it('should build multipart/mixed with buffer and base64 attachments', () => {
+    const raw = buildMessage({
+      to: 'test@example.com',
+      subject: 'Report',
+      body: 'See attached',
+      attachments: [
+        { filename: 'report.csv', contentType: 'text/csv', content: Buffer.from('a,b\n1,2\n') },
+        { filename: 'blob.bin', content: Buffer.from('binary').toString('base64') },
+      ],
+    });
+
+    const boundary = boundaryOf(raw);
+    expect(raw).toContain(`Content-Type: multipart/mixed; boundary="${boundary}"`);
+    expect(raw).toContain('MIME-Version: 1.0');
+
+    const parts = raw.split(`--${boundary}`);
+    // preamble, body, two attachments, closing
+    expect(parts).toHaveLength(5);
+    expect(parts[4]).toBe('--');
+    expect(parts[1]).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(parts[1]).toContain('See attached');
+    expect(parts[2]).toContain('Content-Type: text/csv; name="report.csv"');
+    expect(parts[2]).toContain('Content-Disposition: attachment; filename="report.csv"');
+    expect(parts[2]).toContain('Content-Transfer-Encoding: base64');
+    expect(parts[2]).toContain(Buffer.from('a,b\n1,2\n').toString('base64'));
+    expect(parts[3]).toContain('Content-Type: application/octet-stream; name="blob.bin"');
+    expect(parts[3]).toContain(Buffer.from('binary').toString('base64'));
+  });
+
+  it('should wrap attachment base64 at 76 characters', () => {
+    const raw = buildMessage({
+      to: 'test@example.com',
+      attachments: [{ filename: 'big.bin', content: Buffer.alloc(300, 7) }],
+    });
+
+    const boundary = boundaryOf(raw);
+    const attachmentPart = raw.split(`--${boundary}`)[2];
+    const encoded = attachmentPart.split('\r\n\r\n')[1].trim().split('\r\n');
+
+    expect(encoded.length).toBeGreaterThan(1);
+    encoded.forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    expect(Buffer.from(encoded.join(''), 'base64')).toEqual(Buffer.alloc(300, 7));
+  });
+
+  it('should read attachments from a file path', () => {
+    (fs.readFileSync as jest.Mock).mockReturnValue(Buffer.from('%PDF-1.4'));
+
+    const raw = buildMessage({
+      to: 'test@example.com',
+      attachments: [{ filename: 'invoice.pdf', contentType: 'application/pdf', path: '/tmp/invoice.pdf' }],
+    });
+
+    expect(fs.readFileSync).toHaveBeenCalledWith('/tmp/invoice.pdf');
+    expect(raw).toContain(Buffer.from('%PDF-1.4').toString('base64'));
+  });
+
+  it('should throw when an attachment file cannot be read', () => {
+    (fs.readFileSync as jest.Mock).mockImplementation(() => {
+      throw new Error('ENOENT');
+    });
+
+    expect(() => buildMessage({
+      to: 'test@example.com',
+      attachments: [{ filename: 'missing.pdf', path: '/tmp/missing.pdf' }],
+    })).toThrow('Failed to read attachment file at /tmp/missing.pdf');
+  });
+
+  it('should throw when an attachment has no content or path', () => {
+    expect(() => buildMessage({
+      to: 'test@example.com',
+      attachments: [{ filename: 'empty.txt' }],
+    })).toThrow('Attachment "empty.txt" has neither content nor path');
+  });
+
+  it('should strip quotes and line breaks from attachment filenames', () => {
+    const raw = buildMessage({
+      to: 'test@example.com',
+      attachments: [{ filename: 'a"b\r\nc.txt', content: Buffer.from('x') }],
+    });
+
+    expect(raw).toContain('filename="a_b__c.txt"');
+  });
+});
+
+describe('buildMessage addressing headers', () => {
+  it('should write From, Cc, Bcc and Reply-To headers', () => {
+    const raw = buildMessage({
+      from: 'Support <support@example.com>',
+      to: 'a@example.com',
+      cc: ['b@example.com', 'c@example.com'],
+      bcc: 'd@example.com',
+      replyTo: 'replies@example.com',
+      subject: 'Hello',
+    });
+
+    expect(raw).toContain('From: Support <support@example.com>\r\n');
+    expect(raw).toContain('To: a@example.com\r\n');
+    expect(raw).toContain('Cc: b@example.com, c@example.com\r\n');
+    expect(raw).toContain('Bcc: d@example.com\r\n');
+    expect(raw).toContain('Reply-To: replies@example.com\r\n');
+  });
+
+  it('should fold long recipient lists under the 998-character line limit', () => {
+    const to = Array.from({ length: 60 }, (_, index) => `Recipient Number ${index} <recipient.${index}@example.com>`);
+
+    const raw = buildMessage({ to, cc: to.slice(0, 30), subject: 'Hello' });
+
+    expect(raw.split('\r\n').every((line) => line.length <= 998)).toBe(true);
+    const headers = raw.slice(0, raw.indexOf('\r\n\r\n'));
+    expect(headers.replace(/\r\n /g, ' ')).toContain(`To: ${to.join(', ')}\r\n`);
+  });
+
+  it('should omit optional addressing headers when not provided', () => {
+    const raw = buildMessage({ to: 'a@example.com' });
+
+    expect(raw).not.toMatch(/^(From|Cc|Bcc|Reply-To):/m);
+  });
+
+  it('should write custom headers', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      headers: { 'X-Priority': '1', 'List-Id': '<news.example.com>' },
+    });
+
+    expect(raw).toContain('X-Priority: 1\r\n');
+    expect(raw).toContain('List-Id: <news.example.com>\r\n');
+  });
+
+  it('should require at least one recipient', () => {
+    for (const to of ['', [], '  ', undefined]) {
+      expect(() => buildMessage({ to: to as string, subject: 'Hi' }))
+        .toThrow(new GmailValidationError('to', 'at least one recipient is required'));
+    }
+  });
+
+  it('should refuse custom headers that override built-in ones', () => {
+    expect(() => buildMessage({
+      to: 'a@example.com',
+      headers: { 'content-type': 'text/html' },
+    })).toThrow('Invalid headers: "content-type" cannot be set through custom headers');
+  });
+});
+
+describe('buildMessage bodies', () => {
+  it('should send text and HTML as multipart/alternative', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      text: 'Hello in text',
+      html: '<p>Hello in <b>HTML</b></p>',
+    });
+
+    const boundary = boundaryOf(raw);
+    expect(raw).toContain(`Content-Type: multipart/alternative; boundary="${boundary}"`);
+
+    const parts = raw.split(`--${boundary}`);
+    expect(parts[1]).toContain('Content-Type: text/plain; charset="UTF-8"');
+    expect(parts[1]).toContain('Hello in text');
+    expect(parts[2]).toContain('Content-Type: text/html; charset="UTF-8"');
+    expect(parts[2]).toContain('<p>Hello in <b>HTML</b></p>');
+  });
+
+  it('should derive the plain-text part when only HTML is given', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      body: '<h1>Title</h1><p>Paragraph</p>',
+      html: true,
+    });
+
+    const boundary = boundaryOf(raw);
+    const parts = raw.split(`--${boundary}`);
+    expect(parts[1]).toContain('Content-Type: text/plain');
+    expect(parts[1]).toContain('Title\r\n\r\nParagraph');
+    expect(parts[2]).toContain('Content-Type: text/html');
+  });
+
+  it('should prefer text over body for plain messages', () => {
+    const raw = buildMessage({ to: 'a@example.com', body: 'old', text: 'new' });
+
+    expect(raw).not.toContain('multipart');
+    expect(raw.endsWith('\r\n\r\nnew')).toBe(true);
+  });
+
+  it('should nest multipart/alternative inside multipart/mixed with attachments', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      html: '<p>Report</p>',
+      attachments: [{ filename: 'r.txt', content: Buffer.from('r') }],
+    });
+
+    const boundaries = Array.from(raw.matchAll(/boundary="([^"]+)"/g)).map((m) => m[1]);
+    expect(boundaries).toHaveLength(2);
+    const [mixed, alternative] = boundaries;
+    expect(raw).toContain(`Content-Type: multipart/mixed; boundary="${mixed}"`);
+    expect(raw).toContain(`Content-Type: multipart/alternative; boundary="${alternative}"`);
+
+    const mixedParts = raw.split(`--${mixed}`);
+    expect(mixedParts).toHaveLength(4);
+    expect(mixedParts[1]).toContain(`--${alternative}--`);
+    expect(mixedParts[2]).toContain('filename="r.txt"');
+  });
+});
+
+describe('buildMessage encoding', () => {
+  it('should encode non-ASCII subjects as encoded-words', () => {
+    const raw = buildMessage({ to: 'a@example.com', subject: 'Grüße' });
+
+    expect(raw).toContain(`Subject: =?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+  });
+
+  it('should keep encoded subject and header lines within 76 characters', () => {
+    const subject = '会議の議事録と次回の打ち合わせの日程についてのご連絡です。よろしくお願いいたします。';
+    const raw = buildMessage({ to: 'a@example.com', subject, headers: { 'X-Long-Header-Name': subject } });
+    const head = raw.split('\r\n\r\n')[0];
+
+    expect(head).toContain('Subject: =?UTF-8?B?');
+    head.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    expect(decodeHeaderValue(head.match(/^Subject: (.*(?:\r\n .*)*)/m)![1])).toBe(subject);
+  });
+
+  it('should encode non-ASCII display names and quote names with specials', () => {
+    const raw = buildMessage({
+      to: ['Jürgen Müller <juergen@example.com>', 'J. Doe <jane@example.com>', '"Already Quoted" <q@example.com>'],
+    }).replace(/\r\n /g, ' ');
+
+    expect(raw).toContain(`=?UTF-8?B?${Buffer.from('Jürgen Müller').toString('base64')}?= <juergen@example.com>`);
+    expect(raw).toContain('"J. Doe" <jane@example.com>');
+    expect(raw).toContain('Already Quoted <q@example.com>');
+  });
+
+  it('should declare a transfer encoding on text parts', () => {
+    const ascii = buildMessage({ to: 'a@example.com', body: 'Hello' });
+    expect(ascii).toContain('Content-Transfer-Encoding: 7bit');
+
+    const accented = buildMessage({ to: 'a@example.com', body: 'Schöne Grüße aus dem Büro' });
+    expect(accented).toContain('Content-Transfer-Encoding: quoted-printable');
+    expect(accented).toContain('Sch=C3=B6ne Gr=C3=BC=C3=9Fe aus dem B=C3=BCro');
+
+    const japanese = buildMessage({ to: 'a@example.com', body: 'こんにちは' });
+    expect(japanese).toContain('Content-Transfer-Encoding: base64');
+  });
+
+  it('should use RFC 2231 for non-ASCII attachment filenames', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      attachments: [{ filename: 'Übersicht.pdf', content: Buffer.from('x') }],
+    });
+
+    expect(raw).toContain("filename*=UTF-8''%C3%9Cbersicht.pdf");
+    expect(raw).toContain(`name="=?UTF-8?B?${Buffer.from('Übersicht.pdf').toString('base64')}?="`);
+  });
+
+  it('should keep address lines with encoded display names within 76 characters', () => {
+    const name = 'Jürgen Müller-Lüdenscheidt, Abteilungsleiter Qualitätssicherung';
+    const raw = buildMessage({
+      from: `"${name}" <juergen@example.de>`,
+      to: [`"${name}" <juergen@example.de>`, 'Björn <bjoern@example.de>'],
+    });
+    const head = raw.split('\r\n\r\n')[0];
+
+    expect(head).toMatch(/^From: =\?UTF-8\?B\?/m);
+    head.split('\r\n').forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    const from = head.match(/^From: (.*(?:\r\n .*)*)/m)![1].replace(/\r\n /g, ' ');
+    expect(decodeHeaderValue(from)).toBe(`${name} <juergen@example.de>`);
+  });
+
+  it('should fold long non-ASCII attachment names with RFC 2231 continuations', () => {
+    const filename = 'Quartalsbericht über die Entwicklung der Geschäftsbereiche in Österreich 2024.pdf';
+    const raw = buildMessage({ to: 'a@example.com', attachments: [{ filename, content: Buffer.from('x') }] });
+    const part = raw.split('\r\n\r\n').find((block) => block.includes('Content-Disposition'))!;
+    const headerLines = part.slice(part.indexOf('Content-Type: application/octet-stream')).split('\r\n');
+
+    headerLines.forEach((line) => expect(line.length).toBeLessThanOrEqual(76));
+    const continuations = [...part.matchAll(/filename\*(\d+)\*=([^;\r\n]*)/g)];
+    expect(continuations.length).toBeGreaterThan(1);
+    expect(continuations.map((match) => Number(match[1]))).toEqual(continuations.map((_match, index) => index));
+    expect(decodeURIComponent(continuations.map((match) => match[2]).join('').replace(/^UTF-8''/, ''))).toBe(filename);
+    const name = part.match(/name="([^"]*)"/)![1].replace(/\r\n /g, ' ');
+    expect(decodeHeaderValue(name)).toBe(filename);
+  });
+});
+
+describe('buildMessage header injection', () => {
+  it('should fold line breaks in the subject into spaces', () => {
+    const raw = buildMessage({ to: 'a@example.com', subject: 'Hi\r\nBcc: evil@example.com' });
+
+    expect(raw).toContain('Subject: Hi Bcc: evil@example.com\r\n');
+    expect(raw).not.toMatch(/^Bcc:/m);
+  });
+
+  it('should fold line breaks in custom header values', () => {
+    const raw = buildMessage({ to: 'a@example.com', headers: { 'X-Note': 'a\nTo: evil@example.com' } });
+
+    expect(raw).toContain('X-Note: a To: evil@example.com\r\n');
+  });
+
+  it('should reject line breaks in recipients', () => {
+    expect(() => buildMessage({ to: 'a@example.com\r\nBcc: evil@example.com' })).toThrow(GmailValidationError);
+  });
+
+  it('should reject line breaks in inReplyTo', () => {
+    expect(() => buildMessage({ to: 'a@example.com', inReplyTo: '<id@x>\r\nBcc: evil@example.com' }))
+      .toThrow('Invalid inReplyTo: line breaks are not allowed');
+  });
+
+  it('should reject invalid custom header names', () => {
+    expect(() => buildMessage({ to: 'a@example.com', headers: { 'X Bad:': '1' } }))
+      .toThrow('Invalid headers: "X Bad:" is not a valid header name');
+  });
+
+  it('should reject invalid recipients with the field name', () => {
+    try {
+      buildMessage({ to: 'a@example.com', cc: 'not-an-address' });
+      fail('expected a validation error');
+    } catch (error) {
+      expect(error).toBeInstanceOf(GmailValidationError);
+      expect((error as GmailValidationError).field).toBe('cc');
+    }
+  });
+
+  it('should accept comma-separated lists and groups in a single string', () => {
+    const raw = buildMessage({ to: 'a@example.com, Team: b@example.com, c@example.com;' });
+
+    expect(raw).toContain('To: a@example.com, Team: b@example.com, c@example.com;');
+  });
+});
+
+describe('buildMessage threading', () => {
+  it('should write the full References chain when given', () => {
+    const raw = buildMessage({
+      to: 'a@example.com',
+      inReplyTo: '<c@example.com>',
+      references: ['<a@example.com>', '<b@example.com>', '<c@example.com>'],
+    });
+
+    expect(raw).toContain('In-Reply-To: <c@example.com>\r\n');
+    expect(raw).toContain('References: <a@example.com> <b@example.com> <c@example.com>\r\n');
+  });
+});
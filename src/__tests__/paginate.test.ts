@@ -0,0 +1,119 @@
+import { paginate, PageResult } from '../paginate';
+
+function pagedSource(total: number) {
+  const fetchPage = jest.fn(async (pageToken: string | undefined, maxResults: number): Promise<PageResult<number>> => {
+    const start = pageToken ? Number(pageToken) : 0;
+    const end = Math.min(start + maxResults, total);
+    const items = Array.from({ length: end - start }, (_, i) => start + i);
+    return { items, nextPageToken: end < total ? String(end) : undefined };
+  });
+  return fetchPage;
+}
+
+async function collect<T>(iterator: AsyncGenerator<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterator) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('paginate', () => {
+  it('should follow page tokens until exhausted', async () => {
+    const fetchPage = pagedSource(25);
+
+    const items = await collect(paginate(fetchPage, { pageSize: 10 }));
+
+    expect(items).toEqual(Array.from({ length: 25 }, (_, i) => i));
+    expect(fetchPage).toHaveBeenCalledTimes(3);
+    expect(fetchPage.mock.calls.map((call) => call[0])).toEqual([undefined, '10', '20']);
+  });
+
+  it('should stop at the limit and shrink the last request', async () => {
+    const fetchPage = pagedSource(100);
+
+    const items = await collect(paginate(fetchPage, { pageSize: 10, limit: 15 }));
+
+    expect(items).toHaveLength(15);
+    expect(fetchPage.mock.calls.map((call) => call[1])).toEqual([10, 5]);
+  });
+
+  it('should cap the page size at 500', async () => {
+    const fetchPage = pagedSource(1);
+
+    await collect(paginate(fetchPage, { pageSize: 5000 }));
+
+    expect(fetchPage).toHaveBeenCalledWith(undefined, 500, undefined);
+  });
+
+  it('should hydrate items with bounded concurrency and keep order', async () => {
+    const fetchPage = pagedSource(6);
+    let active = 0;
+    let maxActive = 0;
+    const hydrate = jest.fn(async (n: number) => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await new Promise((resolve) => setTimeout(resolve, (6 - n) * 2));
+      active--;
+      return `item-${n}`;
+    });
+
+    const items = await collect(paginate(fetchPage, { pageSize: 10, concurrency: 3, hydrate }));
+
+    expect(items).toEqual(['item-0', 'item-1', 'item-2', 'item-3', 'item-4', 'item-5']);
+    expect(maxActive).toBe(3);
+  });
+
+  it('should stop cleanly when aborted', async () => {
+    const fetchPage = pagedSource(100);
+    const controller = new AbortController();
+    const items: number[] = [];
+
+    for await (const item of paginate(fetchPage, { pageSize: 10, signal: controller.signal })) {
+      items.push(item);
+      if (items.length === 12) {
+        controller.abort();
+      }
+    }
+
+    expect(items).toHaveLength(12);
+    expect(fetchPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not fetch anything when already aborted', async () => {
+    const fetchPage = pagedSource(10);
+    const controller = new AbortController();
+    controller.abort();
+
+    expect(await collect(paginate(fetchPage, { signal: controller.signal }))).toEqual([]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('should not fetch anything with a limit of zero', async () => {
+    const fetchPage = pagedSource(10);
+
+    expect(await collect(paginate(fetchPage, { limit: 0 }))).toEqual([]);
+    expect(await collect(paginate(fetchPage, { limit: -1 }))).toEqual([]);
+    expect(fetchPage).not.toHaveBeenCalled();
+  });
+
+  it('should pass on page failures when not aborted', async () => {
+    const fetchPage = jest.fn().mockRejectedValue(new Error('HTTP 500'));
+
+    await expect(collect(paginate(fetchPage, { signal: new AbortController().signal }))).rejects.toThrow('HTTP 500');
+  });
+
+  it('should cancel the page request in flight when aborted', async () => {
+    const controller = new AbortController();
+    const fetchPage = jest.fn((_pageToken: string | undefined, _maxResults: number, signal?: AbortSignal) =>
+      new Promise<PageResult<number>>((_resolve, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('aborted')));
+      }));
+
+    const items = collect(paginate(fetchPage, { signal: controller.signal }));
+    controller.abort();
+
+    expect(await items).toEqual([]);
+    expect(fetchPage).toHaveBeenCalledWith(undefined, 100, controller.signal);
+  });
+});
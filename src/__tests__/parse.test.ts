@@ -0,0 +1,156 @@
+import { extractBodies, getHeader, parseMessage, parseThread } from '../parse';
+import { Message } from '../types';
+
+function encode(text: string | Buffer): string {
+  return Buffer.from(text).toString('base64url');
+}
+
+const message: Message = {
+  id: 'msg1',
+  threadId: 'thread1',
+  labelIds: ['INBOX', 'UNREAD'],
+  snippet: 'Hallo',
+  historyId: '42',
+  internalDate: '1704103200000',
+  payload: {
+    mimeType: 'multipart/mixed',
+    headers: [
+      { name: 'From', value: '=?UTF-8?B?SsO8cmdlbg==?= <juergen@example.de>' },
+      { name: 'To', value: 'a@example.com, "Doe, Jane" <jane@example.com>' },
+      { name: 'Cc', value: 'Team: c@example.com;' },
+      { name: 'Subject', value: '=?ISO-8859-1?Q?Gr=FC=DFe_aus_M=FCnchen?=' },
+      { name: 'Date', value: 'Mon, 1 Jan 2024 10:00:00 +0000 (UTC)' },
+      { name: 'Message-ID', value: '<msg1@example.de>' },
+      { name: 'References', value: '<a@x> <b@x>' },
+      { name: 'Received', value: 'from a' },
+      { name: 'Received', value: 'from b' },
+    ],
+    parts: [
+      {
+        mimeType: 'multipart/alternative',
+        parts: [
+          {
+            mimeType: 'text/plain',
+            headers: [{ name: 'Content-Type', value: 'text/plain; charset="iso-8859-1"' }],
+            body: { size: 6, data: encode(Buffer.from([0x48, 0xe4, 0x6c, 0x6c, 0x6f, 0x21])) },
+          },
+          {
+            mimeType: 'text/html',
+            headers: [{ name: 'Content-Type', value: 'text/html; charset=UTF-8' }],
+            body: { size: 14, data: encode('<p>Hällo!</p>') },
+          },
+        ],
+      },
+      {
+        partId: '1',
+        mimeType: 'application/pdf',
+        filename: 'invoice.pdf',
+        body: { size: 100, attachmentId: 'att1' },
+      },
+    ],
+  },
+};
+
+describe('getHeader', () => {
+  it('should look up headers case-insensitively', () => {
+    expect(getHeader(message.payload, 'message-id')).toBe('<msg1@example.de>');
+    expect(getHeader(message.payload, 'X-Missing')).toBeUndefined();
+    expect(getHeader(undefined, 'From')).toBeUndefined();
+  });
+});
+
+describe('extractBodies', () => {
+  it('should decode bodies using their declared charset', () => {
+    expect(extractBodies(message.payload)).toEqual({ text: 'Hällo!', html: '<p>Hällo!</p>' });
+  });
+
+  it('should default to UTF-8 and skip attachments', () => {
+    expect(extractBodies({
+      mimeType: 'multipart/mixed',
+      parts: [
+        { mimeType: 'text/plain', filename: 'notes.txt', body: { size: 1, data: encode('attached') } },
+        { mimeType: 'text/plain', body: { size: 1, data: encode('ünicode') } },
+      ],
+    })).toEqual({ text: 'ünicode' });
+  });
+});
+
+describe('parseMessage', () => {
+  const parsed = parseMessage(message);
+
+  it('should parse addresses and decode encoded-words', () => {
+    expect(parsed.from).toEqual({ name: 'Jürgen', address: 'juergen@example.de' });
+    expect(parsed.to).toEqual([
+      { address: 'a@example.com' },
+      { name: 'Doe, Jane', address: 'jane@example.com' },
+    ]);
+    expect(parsed.cc).toEqual([{ address: 'c@example.com' }]);
+    expect(parsed.bcc).toEqual([]);
+    expect(parsed.subject).toBe('Grüße aus München');
+  });
+
+  it('should parse the date, IDs and references', () => {
+    expect(parsed.date).toEqual(new Date('2024-01-01T10:00:00Z'));
+    expect(parsed.messageId).toBe('<msg1@example.de>');
+    expect(parsed.references).toEqual(['<a@x>', '<b@x>']);
+    expect(parsed.labelIds).toEqual(['INBOX', 'UNREAD']);
+  });
+
+  it('should expose all header values by lower-cased name', () => {
+    expect(parsed.headers.received).toEqual(['from a', 'from b']);
+    expect(parsed.headers.subject).toEqual(['Grüße aus München']);
+  });
+
+  it('should include decoded bodies and attachments', () => {
+    expect(parsed.text).toBe('Hällo!');
+    expect(parsed.html).toBe('<p>Hällo!</p>');
+    expect(parsed.attachments).toEqual([
+      { attachmentId: 'att1', filename: 'invoice.pdf', mimeType: 'application/pdf', size: 100, partId: '1' },
+    ]);
+  });
+
+  it('should fall back to internalDate and drop senders without an address', () => {
+    const result = parseMessage({
+      id: 'm',
+      threadId: 't',
+      internalDate: '1704103200000',
+      payload: { headers: [{ name: 'From', value: 'undisclosed <<' }, { name: 'Date', value: 'garbage' }] },
+    });
+
+    expect(result.date).toEqual(new Date(1704103200000));
+    expect(result.from).toBeUndefined();
+    expect(result.to).toEqual([]);
+    expect(result.references).toEqual([]);
+    expect(result.attachments).toEqual([]);
+  });
+
+  it('should salvage each address the strict parser rejects', () => {
+    const result = parseMessage({
+      id: 'm',
+      threadId: 't',
+      payload: {
+        headers: [
+          { name: 'From', value: 'billing@vendor.com <billing@vendor.com>' },
+          { name: 'To', value: 'Bob <bob@example.com>, "Ops Team" <ops@localhost>, broken <<' },
+        ],
+      },
+    });
+
+    expect(result.from).toEqual({ address: 'billing@vendor.com' });
+    expect(result.to).toEqual([{ name: 'Bob', address: 'bob@example.com' }, { name: 'Ops Team', address: 'ops@localhost' }]);
+  });
+});
+
+describe('parseThread', () => {
+  it('should parse every message in a thread', () => {
+    const thread = parseThread({ id: 'thread1', historyId: '42', messages: [message] });
+
+    expect(thread.id).toBe('thread1');
+    expect(thread.messages).toHaveLength(1);
+    expect(thread.messages[0].subject).toBe('Grüße aus München');
+  });
+
+  it('should handle threads without messages', () => {
+    expect(parseThread({ id: 'thread1' }).messages).toEqual([]);
+  });
+});
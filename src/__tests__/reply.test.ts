@@ -0,0 +1,177 @@
+import { buildForwardOptions, buildReplyOptions } from '../reply';
+import { GmailValidationError } from '../errors';
+import { Message } from '../types';
+
+function encode(text: string): string {
+  return Buffer.from(text).toString('base64url');
+}
+
+function makeMessage(headers: Record<string, string>, text = 'Original body\nSecond line'): Message {
+  return {
+    id: 'msg1',
+    threadId: 'thread1',
+    payload: {
+      mimeType: 'multipart/alternative',
+      headers: Object.entries(headers).map(([name, value]) => ({ name, value })),
+      parts: [
+        { mimeType: 'text/plain', body: { size: text.length, data: encode(text) } },
+        { mimeType: 'text/html', body: { size: 0, data: encode('<p>Original body</p>') } },
+      ],
+    },
+  };
+}
+
+const baseHeaders = {
+  From: 'Alice <alice@example.com>',
+  To: 'me@example.com, Bob <bob@example.com>',
+  Cc: 'carol@example.com, ME <me@example.com>',
+  Subject: 'Project update',
+  Date: 'Mon, 1 Jan 2024 10:00:00 +0000',
+  'Message-ID': '<orig@example.com>',
+  References: '<first@example.com> <second@example.com>',
+};
+
+describe('buildReplyOptions', () => {
+  it('should reply to the sender only by default', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['me@example.com'], { body: 'Thanks' });
+
+    expect(options.to).toEqual(['"Alice" <alice@example.com>']);
+    expect(options.cc).toBeUndefined();
+    expect(options.subject).toBe('Re: Project update');
+    expect(options.body).toBe('Thanks');
+  });
+
+  it('should set threading headers from the original', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['me@example.com']);
+
+    expect(options.threadId).toBe('thread1');
+    expect(options.inReplyTo).toBe('<orig@example.com>');
+    expect(options.references).toEqual(['<first@example.com>', '<second@example.com>', '<orig@example.com>']);
+  });
+
+  it('should include all recipients except ourselves on reply all', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['ME@example.com'], {}, { replyAll: true });
+
+    expect(options.to).toEqual(['"Alice" <alice@example.com>', '"Bob" <bob@example.com>']);
+    expect(options.cc).toEqual(['carol@example.com']);
+  });
+
+  it('should honour Reply-To', () => {
+    const options = buildReplyOptions(
+      makeMessage({ ...baseHeaders, 'Reply-To': 'list@example.com' }),
+      ['me@example.com']
+    );
+
+    expect(options.to).toEqual(['list@example.com']);
+  });
+
+  it('should reply to the original recipients when we sent the original', () => {
+    const options = buildReplyOptions(
+      makeMessage({ ...baseHeaders, From: 'me@example.com' }),
+      ['me@example.com']
+    );
+
+    expect(options.to).toEqual(['"Bob" <bob@example.com>']);
+  });
+
+  it('should keep ourselves when we are the only recipient', () => {
+    const options = buildReplyOptions(
+      makeMessage({ From: 'me@example.com', To: 'me@example.com', Subject: 'Note to self' }),
+      ['me@example.com']
+    );
+
+    expect(options.to).toEqual(['me@example.com']);
+  });
+
+  it('should not add a second Re: prefix', () => {
+    const options = buildReplyOptions(makeMessage({ ...baseHeaders, Subject: 'RE: Project update' }), []);
+    expect(options.subject).toBe('RE: Project update');
+  });
+
+  it('should append extra cc recipients', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['me@example.com'], { cc: 'dave@example.com' });
+    expect(options.cc).toEqual(['dave@example.com']);
+  });
+
+  it('should quote the original text body', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['me@example.com'], {
+      body: 'Sounds good',
+      quoteOriginal: true,
+    });
+
+    expect(options.text).toBe(
+      'Sounds good\n\nOn Mon, 1 Jan 2024 10:00:00 +0000, Alice <alice@example.com> wrote:\n> Original body\n> Second line'
+    );
+    expect(options.html).toBeUndefined();
+  });
+
+  it('should quote the original HTML body when replying with HTML', () => {
+    const options = buildReplyOptions(makeMessage(baseHeaders), ['me@example.com'], {
+      html: '<p>Sounds good</p>',
+      quoteOriginal: true,
+    });
+
+    expect(options.html).toContain('<p>Sounds good</p>');
+    expect(options.html).toContain('<blockquote');
+    expect(options.html).toContain('<p>Original body</p>');
+    expect(options.text).toContain('Sounds good\n\nOn ');
+  });
+
+  it('should read the address out of senders the strict parser rejects', () => {
+    const reply = (from: string) => buildReplyOptions(makeMessage({ From: from, To: 'me@example.com' }), ['me@example.com']).to;
+
+    expect(reply('john@example.com <john@example.com>')).toEqual(['john@example.com']);
+    expect(reply('root@localhost')).toEqual(['root@localhost']);
+    expect(reply('Cron Daemon <root@localhost>')).toEqual(['"Cron Daemon" <root@localhost>']);
+  });
+
+  it('should keep the readable recipients when one entry is malformed', () => {
+    const options = buildReplyOptions(makeMessage({
+      ...baseHeaders,
+      To: 'me@example.com, Bob <bob@example.com>, broken <<',
+      Cc: 'dave@example.com <dave@example.com>, carol@example.com',
+    }), ['me@example.com'], {}, { replyAll: true });
+
+    expect(options.to).toEqual(['"Alice" <alice@example.com>', '"Bob" <bob@example.com>']);
+    expect(options.cc).toEqual(['dave@example.com', 'carol@example.com']);
+  });
+
+  it('should refuse to reply when no address can be read', () => {
+    expect(() => buildReplyOptions(makeMessage({ From: 'broken <<', To: 'me@example.com' }), ['me@example.com']))
+      .toThrow(new GmailValidationError('to', 'the original message has no address to reply to'));
+  });
+});
+
+describe('buildForwardOptions', () => {
+  it('should build a forward with the original message below a separator', () => {
+    const options = buildForwardOptions(makeMessage(baseHeaders), 'dave@example.com', { body: 'FYI' });
+
+    expect(options.to).toBe('dave@example.com');
+    expect(options.subject).toBe('Fwd: Project update');
+    expect(options.text).toContain('FYI\n\n---------- Forwarded message ---------\nFrom: Alice <alice@example.com>');
+    expect(options.text).toContain('Subject: Project update');
+    expect(options.text).toContain('Original body\nSecond line');
+    expect(options.threadId).toBe('thread1');
+  });
+
+  it('should not add a second Fwd: prefix', () => {
+    const options = buildForwardOptions(makeMessage({ ...baseHeaders, Subject: 'Fw: Project update' }), 'd@example.com');
+    expect(options.subject).toBe('Fw: Project update');
+  });
+
+  it('should combine caller and original attachments', () => {
+    const options = buildForwardOptions(
+      makeMessage(baseHeaders),
+      'dave@example.com',
+      { attachments: [{ filename: 'note.txt', content: Buffer.from('n') }] },
+      [{ filename: 'invoice.pdf', contentType: 'application/pdf', content: Buffer.from('pdf') }]
+    );
+
+    expect(options.attachments?.map((a) => a.filename)).toEqual(['note.txt', 'invoice.pdf']);
+  });
+
+  it('should leave attachments undefined when there are none', () => {
+    const options = buildForwardOptions(makeMessage(baseHeaders), 'dave@example.com');
+    expect(options.attachments).toBeUndefined();
+  });
+});
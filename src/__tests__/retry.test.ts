@@ -0,0 +1,139 @@
+import { isRetryableError, resolveRetryPolicy, retryAfterMs, retryDelay, retryPolicyFromEnv, withRetry } from '../retry';
+
+function apiError(status: number, reason?: string, headers: Record<string, string> = {}) {
+  return Object.assign(new Error(`HTTP ${status}`), {
+    code: String(status),
+    errors: reason ? [{ reason, message: 'error' }] : undefined,
+    response: { status, headers, data: { error: { code: status, errors: reason ? [{ reason }] : [] } } },
+  });
+}
+
+function networkError(code: string) {
+  return Object.assign(new Error(code), { code });
+}
+
+const noDelay = { baseDelayMs: 0, jitter: false };
+
+describe('isRetryableError', () => {
+  it('should retry rate limits for any call', () => {
+    expect(isRetryableError(apiError(429))).toBe(true);
+    expect(isRetryableError(apiError(429), false)).toBe(true);
+    expect(isRetryableError(apiError(403, 'userRateLimitExceeded'), false)).toBe(true);
+    expect(isRetryableError({ response: { status: 403, data: { error: { errors: [{ reason: 'rateLimitExceeded' }] } } } })).toBe(true);
+    expect(isRetryableError(networkError('ECONNREFUSED'), false)).toBe(true);
+  });
+
+  it('should retry server errors and dropped connections only for idempotent calls', () => {
+    for (const error of [apiError(500), apiError(503), networkError('ECONNRESET'), networkError('ETIMEDOUT')]) {
+      expect(isRetryableError(error)).toBe(true);
+      expect(isRetryableError(error, false)).toBe(false);
+    }
+  });
+
+  it('should not retry client errors or unknown failures', () => {
+    expect(isRetryableError(apiError(403, 'insufficientPermissions'))).toBe(false);
+    expect(isRetryableError(apiError(403, 'dailyLimitExceeded'))).toBe(false);
+    expect(isRetryableError(apiError(400))).toBe(false);
+    expect(isRetryableError(apiError(404))).toBe(false);
+    expect(isRetryableError(new Error('boom'))).toBe(false);
+    expect(isRetryableError('string error')).toBe(false);
+  });
+});
+
+describe('retryAfterMs', () => {
+  it('should read seconds and HTTP dates', () => {
+    expect(retryAfterMs(apiError(429, undefined, { 'retry-after': '2' }))).toBe(2000);
+    const inTenSeconds = new Date(Date.now() + 10000).toUTCString();
+    expect(retryAfterMs(apiError(503, undefined, { 'retry-after': inTenSeconds }))).toBeGreaterThan(8000);
+    expect(retryAfterMs(apiError(429, undefined, { 'retry-after': 'soon' }))).toBeUndefined();
+    expect(retryAfterMs(apiError(429))).toBeUndefined();
+  });
+});
+
+describe('retryDelay', () => {
+  it('should double the delay up to the cap', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 300, jitter: false });
+    expect([1, 2, 3, 4].map((attempt) => retryDelay(policy, attempt))).toEqual([100, 200, 300, 300]);
+  });
+
+  it('should stay within the backoff with jitter', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100 });
+    for (let i = 0; i < 20; i++) {
+      const delay = retryDelay(policy, 3)!;
+      expect(delay).toBeGreaterThanOrEqual(0);
+      expect(delay).toBeLessThanOrEqual(400);
+    }
+  });
+
+  it('should wait out Retry-After unless it exceeds the cap', () => {
+    const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 5000, jitter: false });
+    expect(retryDelay(policy, 1, 2000)).toBe(2000);
+    expect(retryDelay(policy, 1, 60000)).toBeUndefined();
+  });
+});
+
+describe('withRetry', () => {
+  it('should retry until the call succeeds and report each retry', async () => {
+    const call = jest.fn()
+      .mockRejectedValueOnce(apiError(429))
+      .mockRejectedValueOnce(apiError(503))
+      .mockResolvedValue('ok');
+    const onRetry = jest.fn();
+
+    await expect(withRetry(call, { ...noDelay, onRetry })).resolves.toBe('ok');
+
+    expect(call).toHaveBeenCalledTimes(3);
+    expect(onRetry.mock.calls.map(([info]) => info.attempt)).toEqual([1, 2]);
+  });
+
+  it('should give up after maxAttempts with the last error', async () => {
+    const call = jest.fn().mockRejectedValue(apiError(500));
+
+    await expect(withRetry(call, { ...noDelay, maxAttempts: 3 })).rejects.toThrow('HTTP 500');
+    expect(call).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not repeat a non-idempotent call after an ambiguous failure', async () => {
+    const call = jest.fn().mockRejectedValue(apiError(500));
+
+    await expect(withRetry(call, noDelay, { idempotent: false })).rejects.toThrow('HTTP 500');
+    expect(call).toHaveBeenCalledTimes(1);
+
+    call.mockClear();
+    await expect(withRetry(call, { ...noDelay, retryNonIdempotent: true, maxAttempts: 2 }, { idempotent: false })).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not retry when turned off or the error is permanent', async () => {
+    const call = jest.fn().mockRejectedValue(apiError(429));
+    await expect(withRetry(call, false)).rejects.toThrow();
+    expect(call).toHaveBeenCalledTimes(1);
+
+    const notFound = jest.fn().mockRejectedValue(apiError(404));
+    await expect(withRetry(notFound, noDelay)).rejects.toThrow('HTTP 404');
+    expect(notFound).toHaveBeenCalledTimes(1);
+  });
+
+  it('should fail at once when Retry-After is longer than maxDelayMs', async () => {
+    const call = jest.fn().mockRejectedValue(apiError(429, undefined, { 'retry-after': '3600' }));
+
+    await expect(withRetry(call, noDelay)).rejects.toThrow('HTTP 429');
+    expect(call).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('retryPolicyFromEnv', () => {
+  const names = ['GMAIL_RETRY_MAX_ATTEMPTS', 'GMAIL_RETRY_BASE_DELAY_MS', 'GMAIL_RETRY_MAX_DELAY_MS'];
+  afterEach(() => names.forEach((name) => delete process.env[name]));
+
+  it('should read the GMAIL_RETRY_* variables', () => {
+    expect(retryPolicyFromEnv()).toBeUndefined();
+
+    process.env.GMAIL_RETRY_MAX_ATTEMPTS = '6';
+    process.env.GMAIL_RETRY_BASE_DELAY_MS = '250';
+    expect(retryPolicyFromEnv()).toEqual({ maxAttempts: 6, baseDelayMs: 250, maxDelayMs: undefined });
+
+    process.env.GMAIL_RETRY_MAX_DELAY_MS = 'never';
+    expect(() => retryPolicyFromEnv()).toThrow('GMAIL_RETRY_MAX_DELAY_MS must be a non-negative number');
+  });
+});
@@ -0,0 +1,256 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { createGmailClient, EnvTokenStore } from '../index';
+import { runServer } from '../server';
+
+jest.mock('@modelcontextprotocol/sdk/server/index.js', () => ({
+  Server: jest.fn(() => ({ setRequestHandler: jest.fn(), connect: jest.fn() })),
+}));
+jest.mock('@modelcontextprotocol/sdk/server/stdio.js', () => ({ StdioServerTransport: jest.fn() }));
+jest.mock('@modelcontextprotocol/sdk/types.js', () => ({
+  ListToolsRequestSchema: 'tools/list',
+  CallToolRequestSchema: 'tools/call',
+}));
+jest.mock('../index', () => ({ ...jest.requireActual('../index'), createGmailClient: jest.fn() }));
+
+// The tools/call handler server.ts registered on import
+const [, callHandler] = (Server as unknown as jest.Mock).mock.results[0].value.setRequestHandler.mock.calls
+  .find(([schema]: [string]) => schema === 'tools/call');
+
+async function callTool(name: string, args: Record<string, unknown> = {}) {
+  const response = await callHandler({ params: { name, arguments: args } });
+  const text = response.content[0].text as string;
+  return { isError: Boolean(response.isError), body: /^[[{]/.test(text) ? JSON.parse(text) : text };
+}
+
+let dir: string;
+let client: Record<string, jest.Mock>;
+
+beforeEach(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-server-'));
+  client = { sendMessage: jest.fn().mockResolvedValue({ id: 'sent1' }) };
+  (createGmailClient as jest.Mock).mockReset().mockReturnValue(client);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  // Starts from a fresh client cache
+  await runServer({ retry: false });
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  delete process.env.GMAIL_ATTACHMENT_DIR;
+  jest.restoreAllMocks();
+});
+
+describe('client selection', () => {
+  const send = (args: Record<string, unknown> = {}) => callTool('gmailSendMessage', { to: 'bob@example.com', ...args });
+
+  it('should build the default client once and reuse it', async () => {
+    await send();
+    await send();
+
+    expect(createGmailClient).toHaveBeenCalledTimes(1);
+    expect(createGmailClient).toHaveBeenCalledWith({ store: undefined, retry: false });
+    expect(client.sendMessage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should use per-call tokens and refuse them alongside an account', async () => {
+    const tokens = { access_token: 'a', refresh_token: 'r' };
+    await send({ tokens });
+    expect(createGmailClient).toHaveBeenCalledWith({ tokens, retry: false });
+
+    for (const [field, extra] of [['account', { account: 'work' }], ['impersonate', { impersonate: 'a@example.com' }]] as const) {
+      const result = await send({ tokens, ...extra });
+      expect(result.isError).toBe(true);
+      expect(result.body).toEqual(expect.objectContaining({ error: 'validation_error', field }));
+    }
+    expect(client.sendMessage).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject an account when none are configured', async () => {
+    const result = await send({ account: 'work' });
+
+    expect(result.body).toEqual(expect.objectContaining({ error: 'validation_error', field: 'account' }));
+    expect(createGmailClient).not.toHaveBeenCalled();
+  });
+
+  describe('with accounts', () => {
+    beforeEach(async () => {
+      await runServer({
+        retry: false,
+        accounts: {
+          defaultAccount: 'work',
+          accounts: [
+            { name: 'work', tokenEnv: 'GMAIL_WORK_TOKEN' },
+            { name: 'ops', serviceAccount: { keyFile: '/keys/ops.json', subject: 'ops@example.com' } },
+          ],
+        },
+      });
+    });
+
+    it('should route to the default account and cache its client', async () => {
+      await send();
+      await send({ account: 'work' });
+
+      expect(createGmailClient).toHaveBeenCalledTimes(1);
+      expect(createGmailClient).toHaveBeenCalledWith({ store: expect.any(EnvTokenStore), retry: false });
+    });
+
+    it('should impersonate users of a service account with one client each', async () => {
+      await send({ account: 'ops' });
+      await send({ account: 'ops', impersonate: 'alice@example.com' });
+      await send({ account: 'ops', impersonate: 'alice@example.com' });
+
+      expect((createGmailClient as jest.Mock).mock.calls).toEqual([
+        [{ serviceAccount: { keyFile: '/keys/ops.json', subject: 'ops@example.com' }, retry: false }],
+        [{ serviceAccount: { keyFile: '/keys/ops.json', subject: 'alice@example.com' }, retry: false }],
+      ]);
+    });
+
+    it('should reject unknown accounts and impersonation without a service account', async () => {
+      const unknown = await send({ account: 'personal' });
+      expect(unknown.body).toEqual(expect.objectContaining({ error: 'validation_error', field: 'account' }));
+      expect(unknown.body.message).toContain('unknown account "personal"');
+
+      const impersonate = await send({ account: 'work', impersonate: 'alice@example.com' });
+      expect(impersonate.body).toEqual(expect.objectContaining({ error: 'validation_error', field: 'impersonate' }));
+
+      expect(createGmailClient).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('attachment paths', () => {
+  const send = (attachmentPath: string) =>
+    callTool('gmailSendMessage', {
+      to: 'bob@example.com',
+      subject: 'Report',
+      body: 'Attached',
+      attachments: [{ filename: 'report.pdf', path: attachmentPath }],
+    });
+
+  beforeEach(() => {
+    process.env.GMAIL_ATTACHMENT_DIR = path.join(dir, 'attachments');
+    fs.mkdirSync(process.env.GMAIL_ATTACHMENT_DIR);
+    fs.writeFileSync(path.join(process.env.GMAIL_ATTACHMENT_DIR, 'report.pdf'), 'pdf');
+    fs.writeFileSync(path.join(dir, 'token.json'), '{"refresh_token":"secret"}');
+  });
+
+  it('should attach a file from the attachment directory', async () => {
+    const result = await send('report.pdf');
+
+    expect(result.isError).toBe(false);
+    expect(client.sendMessage).toHaveBeenCalledWith('me', expect.objectContaining({
+      attachments: [{ filename: 'report.pdf', path: fs.realpathSync(path.join(dir, 'attachments', 'report.pdf')) }],
+    }));
+  });
+
+  it('should reject paths outside the attachment directory', async () => {
+    fs.symlinkSync(path.join(dir, 'token.json'), path.join(dir, 'attachments', 'link.json'));
+
+    for (const outside of ['../token.json', path.join(dir, 'token.json'), 'link.json', '/etc/passwd']) {
+      const result = await send(outside);
+      expect(result.isError).toBe(true);
+      expect(result.body).toEqual(expect.objectContaining({ error: 'validation_error', field: 'attachments' }));
+    }
+    expect(client.sendMessage).not.toHaveBeenCalled();
+  });
+
+  it('should ignore a path when the content is given inline', async () => {
+    await callTool('gmailSendMessage', {
+      to: 'bob@example.com',
+      attachments: [{ filename: 'a.txt', content: 'aGk=', path: '/etc/passwd' }],
+    });
+
+    expect(client.sendMessage).toHaveBeenCalledWith('me', expect.objectContaining({
+      attachments: [{ filename: 'a.txt', content: 'aGk=' }],
+    }));
+  });
+
+  it('should save attachments next to existing files instead of replacing them', async () => {
+    client.getAttachment = jest.fn().mockResolvedValue({ size: 3, data: Buffer.from('new').toString('base64url') });
+    const save = () => callTool('gmailGetAttachment', { messageId: 'msg1', attachmentId: 'att1', filename: '../report.pdf', save: true });
+
+    const first = await save();
+    const second = await save();
+
+    const attachments = path.join(dir, 'attachments');
+    expect(first.body.path).toBe(path.join(attachments, 'report (1).pdf'));
+    expect(second.body.path).toBe(path.join(attachments, 'report (2).pdf'));
+    expect(fs.readFileSync(path.join(attachments, 'report.pdf'), 'utf-8')).toBe('pdf');
+    expect(fs.readFileSync(second.body.path, 'utf-8')).toBe('new');
+  });
+});
+
+describe('compact responses', () => {
+  const fullMessage = (id: string, text: string) => ({
+    id,
+    threadId: 't1',
+    labelIds: ['INBOX'],
+    payload: {
+      mimeType: 'text/plain',
+      headers: [{ name: 'Subject', value: `Subject ${id}` }, { name: 'From', value: 'Alice <alice@example.com>' }],
+      body: { size: text.length, data: Buffer.from(text).toString('base64url') },
+    },
+  });
+
+  it('should compact hydrated messages in list and search results', async () => {
+    client.listMessagesPage = jest.fn().mockResolvedValue({
+      messages: [fullMessage('msg1', 'x'.repeat(100)), { id: 'msg2', threadId: 't2' }],
+      nextPageToken: 'next',
+    });
+    client.searchMessagesPage = client.listMessagesPage;
+
+    for (const tool of ['gmailListMessages', 'gmailSearchMessages']) {
+      const { body } = await callTool(tool, { query: 'q', format: 'full', responseFormat: 'compact', maxBodyChars: 10 });
+
+      expect(body.nextPageToken).toBe('next');
+      expect(body.messages[0]).toEqual(expect.objectContaining({
+        id: 'msg1',
+        subject: 'Subject msg1',
+        from: 'Alice <alice@example.com>',
+        body: `${'x'.repeat(10)}…`,
+        totalBodyChars: 100,
+      }));
+      expect(body.messages[0].payload).toBeUndefined();
+      expect(body.messages[1]).toEqual({ id: 'msg2', threadId: 't2' });
+    }
+  });
+
+  it('should compact batch results and keep per-message errors', async () => {
+    client.getMessages = jest.fn().mockResolvedValue([
+      { id: 'msg1', message: fullMessage('msg1', 'Hello') },
+      { id: 'missing', error: { code: 404, message: 'Not Found' } },
+    ]);
+
+    const { body } = await callTool('gmailGetMessages', { messageIds: ['msg1', 'missing'], responseFormat: 'compact' });
+
+    expect(body[0].message).toEqual(expect.objectContaining({ id: 'msg1', body: 'Hello' }));
+    expect(body[1]).toEqual({ id: 'missing', error: { code: 404, message: 'Not Found' } });
+  });
+
+  it('should reject a negative maxBodyChars instead of returning a backwards cursor', async () => {
+    const { parseMessage } = jest.requireActual('../index');
+    client.getMessage = jest.fn().mockResolvedValue(parseMessage(fullMessage('msg1', 'x'.repeat(100))));
+
+    const result = await callTool('gmailGetMessage', { messageId: 'msg1', responseFormat: 'compact', maxBodyChars: -10 });
+
+    expect(result.isError).toBe(true);
+    expect(result.body).toEqual({ error: 'validation_error', field: 'maxBodyChars', message: 'Invalid maxBodyChars: must be a positive integer' });
+  });
+
+  it('should page a compact thread through its cursor', async () => {
+    const { parseThread } = jest.requireActual('../index');
+    const thread = { id: 't1', messages: [fullMessage('msg1', 'a'.repeat(30)), fullMessage('msg2', 'b'.repeat(30))] };
+    client.getThread = jest.fn().mockResolvedValue(parseThread(thread));
+
+    const first = await callTool('gmailGetThread', { threadId: 't1', responseFormat: 'compact', maxBodyChars: 40 });
+    expect(first.body.nextCursor).toBe(40);
+    expect(first.body.messages).toHaveLength(2);
+
+    const second = await callTool('gmailGetThread', { threadId: 't1', responseFormat: 'compact', maxBodyChars: 40, cursor: 40 });
+    expect(second.body.messages.map((m: { body: string }) => m.body)).toEqual(['b'.repeat(20)]);
+    expect(second.body.nextCursor).toBeUndefined();
+  });
+});
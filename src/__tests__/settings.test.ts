@@ -0,0 +1,59 @@
+import { toEpochMillis, appendSignature, mergeSettings } from '../settings';
+import { GmailValidationError } from '../errors';
+
+describe('toEpochMillis', () => {
+  it('should accept dates, numbers, numeric strings and ISO strings', () => {
+    expect(toEpochMillis(new Date('2026-05-01T00:00:00Z'), 'endTime')).toBe('1777593600000');
+    expect(toEpochMillis(1777593600000.7, 'endTime')).toBe('1777593600000');
+    expect(toEpochMillis('1777593600000', 'endTime')).toBe('1777593600000');
+    expect(toEpochMillis('2026-05-01T00:00:00Z', 'endTime')).toBe('1777593600000');
+  });
+
+  it('should reject values that are not dates', () => {
+    expect(() => toEpochMillis('next friday', 'endTime')).toThrow(GmailValidationError);
+    expect(() => toEpochMillis('next friday', 'endTime')).toThrow('Invalid endTime');
+  });
+});
+
+describe('appendSignature', () => {
+  const signature = '<b>Jane Doe</b><br>Acme Corp';
+
+  it('should append a text signature below the separator for plain bodies', () => {
+    const result = appendSignature({ to: 'a@example.com', body: 'Hello' }, signature);
+    expect(result.body).toBe('Hello\r\n\r\n-- \r\nJane Doe\nAcme Corp');
+  });
+
+  it('should append to an explicit text body', () => {
+    const result = appendSignature({ to: 'a@example.com', body: 'ignored', text: 'Hello' }, signature);
+    expect(result.text).toBe('Hello\r\n\r\n-- \r\nJane Doe\nAcme Corp');
+    expect(result.body).toBe('ignored');
+  });
+
+  it('should append an HTML signature to HTML bodies', () => {
+    const result = appendSignature({ to: 'a@example.com', body: '<p>Hello</p>', html: true }, signature);
+    expect(result.html).toBe('<p>Hello</p><br><br><div class="gmail_signature"><b>Jane Doe</b><br>Acme Corp</div>');
+    expect(result.text).toBeUndefined();
+  });
+
+  it('should extend both alternatives when text and HTML are given', () => {
+    const result = appendSignature({ to: 'a@example.com', html: '<p>Hi</p>', text: 'Hi' }, signature);
+    expect(result.html).toContain('gmail_signature');
+    expect(result.text).toBe('Hi\r\n\r\n-- \r\nJane Doe\nAcme Corp');
+  });
+
+  it('should leave the message alone for an empty signature', () => {
+    const options = { to: 'a@example.com', body: 'Hello' };
+    expect(appendSignature(options, '  ')).toBe(options);
+  });
+});
+
+describe('mergeSettings', () => {
+  it('should overlay only the defined changes', () => {
+    expect(
+      mergeSettings({ enabled: true, emailAddress: 'a@example.com', disposition: 'archive' }, {
+        enabled: false,
+        emailAddress: undefined,
+      })
+    ).toEqual({ enabled: false, emailAddress: 'a@example.com', disposition: 'archive' });
+  });
+});
@@ -0,0 +1,172 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EncryptedFileTokenStore, EnvTokenStore, FileTokenStore, tokenStoreFromEnv } from '../stores';
+import { Tokens } from '../types';
+
+const tokens: Tokens = {
+  access_token: 'access',
+  refresh_token: 'refresh',
+  expiry_date: 2000000000,
+  token_type: 'Bearer',
+};
+
+const ENV_VARS = ['GMAIL_TOKEN', 'GMAIL_TOKEN_KEY', 'GMAIL_TOKEN_PASSPHRASE', 'GMAIL_TOKEN_FILE', 'GMAIL_TEST_TOKEN'];
+let dir: string;
+let savedEnv: Record<string, string | undefined>;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-stores-'));
+  savedEnv = Object.fromEntries(ENV_VARS.map((name) => [name, process.env[name]]));
+  ENV_VARS.forEach((name) => delete process.env[name]);
+});
+
+afterEach(() => {
+  fs.rmSync(dir, { recursive: true, force: true });
+  for (const [name, value] of Object.entries(savedEnv)) {
+    if (value === undefined) {
+      delete process.env[name];
+    } else {
+      process.env[name] = value;
+    }
+  }
+});
+
+describe('EnvTokenStore', () => {
+  it('should load, save and delete tokens in an environment variable', async () => {
+    const store = new EnvTokenStore('GMAIL_TEST_TOKEN');
+
+    expect(await store.load()).toBeUndefined();
+    await store.save(tokens);
+    expect(JSON.parse(process.env.GMAIL_TEST_TOKEN!)).toEqual(tokens);
+    expect(await store.load()).toEqual(tokens);
+    await store.delete();
+    expect(process.env.GMAIL_TEST_TOKEN).toBeUndefined();
+  });
+
+  it('should reject invalid JSON', async () => {
+    process.env.GMAIL_TEST_TOKEN = 'not-json{';
+    await expect(new EnvTokenStore('GMAIL_TEST_TOKEN').load()).rejects.toThrow('not valid JSON');
+  });
+});
+
+describe('FileTokenStore', () => {
+  it('should return undefined before anything is saved and after delete', async () => {
+    const store = new FileTokenStore(path.join(dir, 'token.json'));
+
+    expect(await store.load()).toBeUndefined();
+    await store.save(tokens);
+    expect(await store.load()).toEqual(tokens);
+    await store.delete();
+    await store.delete();
+    expect(await store.load()).toBeUndefined();
+  });
+
+  it('should keep the existing camelCase shape and extra fields when saving', async () => {
+    const file = path.join(dir, 'nested', 'token.json');
+    fs.mkdirSync(path.dirname(file));
+    fs.writeFileSync(file, JSON.stringify({ accessToken: 'old', refreshToken: 'old-refresh', label: 'work' }));
+
+    await new FileTokenStore(file).save({ access_token: 'new', expiry_date: 5 });
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8'))).toEqual({
+      accessToken: 'new',
+      refreshToken: 'old-refresh',
+      expiryDate: 5,
+      label: 'work',
+    });
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+  });
+
+  it('should reject files that do not hold tokens', async () => {
+    const file = path.join(dir, 'token.json');
+    for (const content of ['["access"]', '{"access_token": 42}', '"token"']) {
+      fs.writeFileSync(file, content);
+      await expect(new FileTokenStore(file).load()).rejects.toThrow(`Token file at ${file} does not hold Gmail tokens`);
+    }
+  });
+
+  it('should default to GMAIL_TOKEN_FILE', async () => {
+    process.env.GMAIL_TOKEN_FILE = path.join(dir, 'env-token.json');
+    await new FileTokenStore().save(tokens);
+    expect(fs.existsSync(path.join(dir, 'env-token.json'))).toBe(true);
+  });
+});
+
+describe('EncryptedFileTokenStore', () => {
+  const key = crypto.randomBytes(32);
+
+  it('should round-trip tokens without writing them in plaintext', async () => {
+    const file = path.join(dir, 'token.json');
+    const store = new EncryptedFileTokenStore(file, { key });
+
+    expect(await store.load()).toBeUndefined();
+    await store.save(tokens);
+
+    const content = fs.readFileSync(file, 'utf-8');
+    expect(content).not.toContain('refresh');
+    expect(JSON.parse(content)).toEqual(expect.objectContaining({ version: 1, cipher: 'aes-256-gcm' }));
+    expect(fs.statSync(file).mode & 0o777).toBe(0o600);
+    expect(await new EncryptedFileTokenStore(file, { key: key.toString('hex') }).load()).toEqual(tokens);
+    expect(await new EncryptedFileTokenStore(file, { key: key.toString('base64') }).load()).toEqual(tokens);
+  });
+
+  it('should derive the key from a passphrase', async () => {
+    const file = path.join(dir, 'token.json');
+    process.env.GMAIL_TOKEN_PASSPHRASE = 'correct horse battery staple';
+
+    await new EncryptedFileTokenStore(file).save(tokens);
+
+    expect(JSON.parse(fs.readFileSync(file, 'utf-8')).kdf).toEqual(expect.objectContaining({ name: 'scrypt' }));
+    expect(await new EncryptedFileTokenStore(file).load()).toEqual(tokens);
+    await expect(new EncryptedFileTokenStore(file, { passphrase: 'wrong' }).load()).rejects.toThrow('Failed to decrypt');
+    delete process.env.GMAIL_TOKEN_PASSPHRASE;
+    await expect(new EncryptedFileTokenStore(file, { key }).load()).rejects.toThrow('encrypted with a passphrase');
+  });
+
+  it('should reject a wrong key and a tampered file', async () => {
+    const file = path.join(dir, 'token.json');
+    await new EncryptedFileTokenStore(file, { key }).save(tokens);
+
+    await expect(new EncryptedFileTokenStore(file, { key: crypto.randomBytes(32) }).load()).rejects.toThrow('Failed to decrypt');
+
+    const encrypted = JSON.parse(fs.readFileSync(file, 'utf-8'));
+    const ciphertext = Buffer.from(encrypted.ciphertext, 'base64');
+    ciphertext[0] ^= 1;
+    fs.writeFileSync(file, JSON.stringify({ ...encrypted, ciphertext: ciphertext.toString('base64') }));
+    await expect(new EncryptedFileTokenStore(file, { key }).load()).rejects.toThrow('Failed to decrypt');
+  });
+
+  it('should encrypt an existing plaintext token file in place on load', async () => {
+    const file = path.join(dir, 'token.json');
+    fs.writeFileSync(file, JSON.stringify(tokens));
+
+    expect(await new EncryptedFileTokenStore(file, { key }).load()).toEqual(tokens);
+
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('refresh');
+    expect(await new EncryptedFileTokenStore(file, { key }).load()).toEqual(tokens);
+  });
+
+  it('should require a valid key or a passphrase', () => {
+    expect(() => new EncryptedFileTokenStore(path.join(dir, 'token.json'))).toThrow('needs a key or passphrase');
+    expect(() => new EncryptedFileTokenStore(path.join(dir, 'token.json'), { key: 'c2hvcnQ=' })).toThrow('must be 32 bytes');
+  });
+});
+
+describe('tokenStoreFromEnv', () => {
+  it('should return an encrypted store only when a key or passphrase is configured', () => {
+    expect(tokenStoreFromEnv()).toBeUndefined();
+
+    process.env.GMAIL_TOKEN_KEY = crypto.randomBytes(32).toString('base64');
+    expect(tokenStoreFromEnv()).toBeInstanceOf(EncryptedFileTokenStore);
+  });
+
+  it('should refuse GMAIL_TOKEN alongside a key or passphrase', () => {
+    process.env.GMAIL_TOKEN = JSON.stringify(tokens);
+    expect(tokenStoreFromEnv()).toBeUndefined();
+
+    process.env.GMAIL_TOKEN_PASSPHRASE = 'correct horse battery staple';
+    expect(() => tokenStoreFromEnv()).toThrow('GMAIL_TOKEN cannot be combined with GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE');
+  });
+});
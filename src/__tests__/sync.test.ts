@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { historyToEvents, MemoryCheckpointStore, FileCheckpointStore } from '../sync';
+
+describe('historyToEvents', () => {
+  it('should flatten history records into typed events in order', () => {
+    const message = { id: 'msg1', threadId: 't1' };
+
+    const events = historyToEvents([
+      {
+        id: '100',
+        messagesAdded: [{ message: { ...message, labelIds: ['INBOX', 'UNREAD'] } }],
+        labelsRemoved: [{ message, labelIds: ['UNREAD'] }],
+      },
+      {
+        id: '101',
+        labelsAdded: [{ message, labelIds: ['STARRED'] }],
+        messagesDeleted: [{ message: { id: 'msg2', threadId: 't2' } }],
+      },
+    ]);
+
+    expect(events).toEqual([
+      { type: 'messageAdded', historyId: '100', message: { ...message, labelIds: ['INBOX', 'UNREAD'] } },
+      { type: 'labelsRemoved', historyId: '100', message, labelIds: ['UNREAD'] },
+      { type: 'labelsAdded', historyId: '101', message, labelIds: ['STARRED'] },
+      { type: 'messageDeleted', historyId: '101', message: { id: 'msg2', threadId: 't2' } },
+    ]);
+  });
+
+  it('should skip records that only list touched messages', () => {
+    expect(historyToEvents([{ id: '5' }, { id: '6', messagesAdded: [{}] }])).toEqual([]);
+  });
+});
+
+describe('MemoryCheckpointStore', () => {
+  it('should save and load checkpoints by key', async () => {
+    const store = new MemoryCheckpointStore();
+
+    await store.save('me', '42');
+
+    expect(await store.load('me')).toBe('42');
+    expect(await store.load('other')).toBeUndefined();
+  });
+});
+
+describe('FileCheckpointStore', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gmail-sync-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should return undefined before anything is saved', async () => {
+    const store = new FileCheckpointStore(path.join(dir, 'checkpoints.json'));
+    expect(await store.load('me')).toBeUndefined();
+  });
+
+  it('should persist checkpoints across instances and keep other keys', async () => {
+    const file = path.join(dir, 'nested', 'checkpoints.json');
+
+    await new FileCheckpointStore(file).save('me', '100');
+    await new FileCheckpointStore(file).save('inbox', '200');
+
+    const store = new FileCheckpointStore(file);
+    expect(await store.load('me')).toBe('100');
+    expect(await store.load('inbox')).toBe('200');
+    expect(fs.readdirSync(path.dirname(file))).toEqual(['checkpoints.json']);
+  });
+});
@@ -1,6 +1,6 @@
 import * as fs from 'fs';
 import * as path from 'path';
-import { resolveTokens } from '../tokens';
+import { resolveTokens, resolveTokenFile, mergeRefreshedTokens, persistTokens } from '../tokens';
 import { Tokens } from '../types';
 
 jest.mock('fs');
@@ -122,3 +122,107 @@ describe('resolveTokens', () => {
     expect(result.accessToken).toBe('file-access-token');
   });
 });
+
+describe('resolveTokenFile', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    delete process.env.GMAIL_TOKEN;
+    delete process.env.GMAIL_TOKEN_FILE;
+  });
+
+  it('should return the resolved token file path when it exists', () => {
+    process.env.GMAIL_TOKEN_FILE = '/custom/token.json';
+    (path.resolve as jest.Mock).mockReturnValue('/custom/token.json');
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+    expect(resolveTokenFile()).toBe('/custom/token.json');
+  });
+
+  it('should return undefined when tokens come from GMAIL_TOKEN', () => {
+    process.env.GMAIL_TOKEN = JSON.stringify(mockTokens);
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+
+    expect(resolveTokenFile()).toBeUndefined();
+  });
+
+  it('should return undefined when the file does not exist', () => {
+    (path.resolve as jest.Mock).mockReturnValue('/app/token.json');
+    (fs.existsSync as jest.Mock).mockReturnValue(false);
+
+    expect(resolveTokenFile()).toBeUndefined();
+  });
+});
+
+describe('mergeRefreshedTokens', () => {
+  const refreshed: Tokens = {
+    access_token: 'new-access-token',
+    expiry_date: 2000000000,
+    token_type: 'Bearer',
+  };
+
+  it('should keep the snake_case shape and the existing refresh token', () => {
+    const merged = mergeRefreshedTokens({ ...mockTokens, scope: 'mail' } as Tokens, refreshed);
+
+    expect(merged).toEqual({
+      access_token: 'new-access-token',
+      refresh_token: 'test-refresh-token',
+      expiry_date: 2000000000,
+      token_type: 'Bearer',
+      scope: 'mail',
+    });
+  });
+
+  it('should accept refreshed values in camelCase and drop the other shape', () => {
+    const merged = mergeRefreshedTokens(
+      { access_token: 'old', refreshToken: 'camel-refresh' },
+      { accessToken: 'new', refreshToken: 'rotated' }
+    );
+
+    expect(merged).toEqual({ access_token: 'new', refresh_token: 'rotated' });
+  });
+
+  it('should keep the camelCase shape', () => {
+    const merged = mergeRefreshedTokens(
+      { accessToken: 'old', refreshToken: 'camel-refresh', expiryDate: 1 },
+      { ...refreshed, refresh_token: 'rotated-refresh' }
+    );
+
+    expect(merged).toEqual({
+      accessToken: 'new-access-token',
+      refreshToken: 'rotated-refresh',
+      expiryDate: 2000000000,
+      tokenType: 'Bearer',
+    });
+  });
+});
+
+describe('persistTokens', () => {
+  const refreshed: Tokens = { access_token: 'new-access-token', expiry_date: 2000000000 };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should merge into the current file contents and replace the file atomically', () => {
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockReturnValue(JSON.stringify({ accessToken: 'old', refreshToken: 'file-refresh' }));
+
+    const merged = persistTokens('/app/token.json', refreshed);
+
+    const tmpPath = (fs.writeFileSync as jest.Mock).mock.calls[0][0];
+    expect(tmpPath).toMatch(new RegExp(`^/app/token\\.json\\.${process.pid}\\.\\d+\\.tmp$`));
+    expect(merged).toEqual({ accessToken: 'new-access-token', refreshToken: 'file-refresh', expiryDate: 2000000000 });
+    expect(fs.writeFileSync).toHaveBeenCalledWith(tmpPath, JSON.stringify(merged, null, 2), { mode: 0o600 });
+    expect(fs.renameSync).toHaveBeenCalledWith(tmpPath, '/app/token.json');
+  });
+
+  it('should fall back to the given tokens when the file is missing or unreadable', () => {
+    (fs.existsSync as jest.Mock).mockReturnValue(true);
+    (fs.readFileSync as jest.Mock).mockReturnValue('invalid-json{');
+
+    const merged = persistTokens('/app/token.json', refreshed, mockTokens);
+
+    expect(merged).toEqual({ ...mockTokens, ...refreshed });
+    expect(fs.renameSync).toHaveBeenCalled();
+  });
+});
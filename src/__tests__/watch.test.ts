@@ -0,0 +1,255 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { scheduleWatchRenewal, decodePushMessage, createPushHandler } from '../watch';
+import { MemoryCheckpointStore } from '../sync';
+import { PushHandlerOptions, SyncResult } from '../types';
+
+function pushBody(payload: unknown, extra: Record<string, unknown> = {}) {
+  return JSON.stringify({
+    message: {
+      data: Buffer.from(JSON.stringify(payload)).toString('base64'),
+      messageId: 'pubsub-1',
+      publishTime: '2026-01-01T00:00:00Z',
+    },
+    subscription: 'projects/p/subscriptions/gmail-push',
+    ...extra,
+  });
+}
+
+describe('decodePushMessage', () => {
+  it('should decode the Gmail notification from message.data', () => {
+    expect(decodePushMessage(pushBody({ emailAddress: 'me@example.com', historyId: 9876 }))).toEqual({
+      emailAddress: 'me@example.com',
+      historyId: '9876',
+      messageId: 'pubsub-1',
+      publishTime: '2026-01-01T00:00:00Z',
+      subscription: 'projects/p/subscriptions/gmail-push',
+    });
+  });
+
+  it('should reject malformed bodies', () => {
+    expect(() => decodePushMessage('not json')).toThrow('not valid JSON');
+    expect(() => decodePushMessage('{"message":{}}')).toThrow('no message.data');
+    expect(() => decodePushMessage(pushBody({ historyId: 1 }))).toThrow('missing emailAddress or historyId');
+  });
+});
+
+describe('scheduleWatchRenewal', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should renew daily while the watch is far from expiry', async () => {
+    const register = jest.fn(async () => ({ historyId: '1', expiration: String(Date.now() + 7 * 86400000) }));
+
+    const renewal = scheduleWatchRenewal(register);
+    await renewal.ready;
+    expect(register).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(86400000);
+    expect(register).toHaveBeenCalledTimes(2);
+    renewal.stop();
+
+    await jest.advanceTimersByTimeAsync(86400000 * 2);
+    expect(register).toHaveBeenCalledTimes(2);
+  });
+
+  it('should renew before an earlier expiry', async () => {
+    const register = jest.fn(async () => ({ historyId: '1', expiration: String(Date.now() + 2 * 3600000) }));
+
+    const renewal = scheduleWatchRenewal(register, { renewBeforeMs: 3600000 });
+    await renewal.ready;
+
+    await jest.advanceTimersByTimeAsync(3600000);
+    expect(register).toHaveBeenCalledTimes(2);
+    renewal.stop();
+  });
+
+  it('should retry failed renewals and report errors', async () => {
+    const onError = jest.fn();
+    const onRenewed = jest.fn();
+    const register = jest
+      .fn()
+      .mockResolvedValueOnce({ historyId: '1', expiration: String(Date.now() + 7 * 86400000) })
+      .mockRejectedValueOnce(new Error('Backend Error'))
+      .mockResolvedValue({ historyId: '2', expiration: String(Date.now() + 7 * 86400000) });
+
+    const renewal = scheduleWatchRenewal(register, { retryDelayMs: 1000, onError, onRenewed });
+    await expect(renewal.ready).resolves.toEqual(expect.objectContaining({ historyId: '1' }));
+    await jest.advanceTimersByTimeAsync(86400000 + 1000);
+
+    expect(onError).toHaveBeenCalledWith(expect.objectContaining({ message: 'Backend Error' }));
+    expect(onRenewed).toHaveBeenCalledTimes(2);
+    expect(renewal.current()?.historyId).toBe('2');
+    renewal.stop();
+  });
+
+  it('should reject ready and stop when the first registration fails', async () => {
+    const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+    const register = jest.fn().mockRejectedValue(new Error('Topic not found'));
+
+    const renewal = scheduleWatchRenewal(register, { retryDelayMs: 1000 });
+
+    await expect(renewal.ready).rejects.toThrow('Topic not found');
+    expect(consoleSpy).toHaveBeenCalledWith('Gmail watch renewal failed:', expect.objectContaining({ message: 'Topic not found' }));
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(register).toHaveBeenCalledTimes(1);
+    consoleSpy.mockRestore();
+  });
+});
+
+describe('createPushHandler', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  const start = async (options: PushHandlerOptions) => {
+    server = http.createServer(createPushHandler(options));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  };
+
+  afterEach(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const incremental: SyncResult = {
+    mode: 'incremental',
+    historyId: '200',
+    events: [{ type: 'messageAdded', historyId: '150', message: { id: 'msg1', threadId: 't1' } }],
+  };
+
+  it('should sync from the stored checkpoint and hand over the changes', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('me@example.com', '100');
+    const client = { syncMailbox: jest.fn().mockResolvedValue(incremental) };
+    const onChanges = jest.fn();
+    await start({ client, store, labelId: 'INBOX', onChanges });
+
+    const response = await fetch(`${baseUrl}/push`, {
+      method: 'POST',
+      body: pushBody({ emailAddress: 'me@example.com', historyId: 200 }),
+    });
+
+    expect(response.status).toBe(204);
+    expect(client.syncMailbox).toHaveBeenCalledWith('me', { store, key: 'me@example.com', labelId: 'INBOX' });
+    expect(onChanges).toHaveBeenCalledWith(incremental, expect.objectContaining({ historyId: '200' }));
+  });
+
+  it('should record the first notification for a mailbox without syncing', async () => {
+    const store = new MemoryCheckpointStore();
+    const client = { syncMailbox: jest.fn() };
+    const onChanges = jest.fn();
+    await start({ client, store, onChanges });
+
+    const response = await fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'me@example.com', historyId: 50 }) });
+
+    expect(response.status).toBe(204);
+    expect(await store.load('me@example.com')).toBe('50');
+    expect(client.syncMailbox).not.toHaveBeenCalled();
+    expect(onChanges).not.toHaveBeenCalled();
+  });
+
+  it('should answer 500 when the sync fails so Pub/Sub redelivers', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('me@example.com', '100');
+    const onError = jest.fn();
+    await start({
+      client: { syncMailbox: jest.fn().mockRejectedValue(new Error('Backend Error')) },
+      store,
+      onChanges: jest.fn(),
+      onError,
+    });
+
+    const response = await fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'me@example.com', historyId: 2 }) });
+
+    expect(response.status).toBe(500);
+    expect(onError).toHaveBeenCalledWith(expect.any(Error), expect.objectContaining({ emailAddress: 'me@example.com' }));
+  });
+
+  it('should reject bad requests', async () => {
+    const onError = jest.fn();
+    await start({ client: { syncMailbox: jest.fn() }, verificationToken: 's3cret', onChanges: jest.fn(), onError });
+    const body = pushBody({ emailAddress: 'me@example.com', historyId: 1 });
+
+    expect((await fetch(`${baseUrl}/?token=s3cret`)).status).toBe(405);
+    expect((await fetch(`${baseUrl}/?token=wrong`, { method: 'POST', body })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/?token=s3creT`, { method: 'POST', body })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/?token=s3cret2`, { method: 'POST', body })).status).toBe(403);
+    expect((await fetch(baseUrl, { method: 'POST', body })).status).toBe(403);
+    expect((await fetch(`${baseUrl}/?token=s3cret`, { method: 'POST', body: '{}' })).status).toBe(400);
+    expect((await fetch(`${baseUrl}/?token=s3cret`, { method: 'POST', body })).status).toBe(204);
+    expect(onError).toHaveBeenCalledTimes(1);
+  });
+
+  it('should ignore notifications for a mailbox other than the client\'s own', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('other@example.com', '100');
+    const client = {
+      syncMailbox: jest.fn(),
+      getProfile: jest.fn().mockResolvedValue({ emailAddress: 'Me@example.com' }),
+    };
+    const onError = jest.fn();
+    await start({ client, store, onChanges: jest.fn(), onError });
+
+    const ignored = await fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'other@example.com', historyId: 200 }) });
+    const own = await fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'me@example.com', historyId: 300 }) });
+
+    expect(ignored.status).toBe(204);
+    expect(own.status).toBe(204);
+    expect(client.syncMailbox).not.toHaveBeenCalled();
+    expect(await store.load('other@example.com')).toBe('100');
+    expect(await store.load('me@example.com')).toBe('300');
+    expect(client.getProfile).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: expect.stringContaining('No client for mailbox other@example.com') }),
+      expect.objectContaining({ emailAddress: 'other@example.com' })
+    );
+  });
+
+  it('should sync each mailbox with the client the resolver picks', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('alice@example.com', '100');
+    await store.save('bob@example.com', '100');
+    const clients: Record<string, { syncMailbox: jest.Mock }> = {
+      'alice@example.com': { syncMailbox: jest.fn().mockResolvedValue(incremental) },
+      'bob@example.com': { syncMailbox: jest.fn().mockResolvedValue(incremental) },
+    };
+    await start({ client: (emailAddress) => clients[emailAddress], store, onChanges: jest.fn() });
+
+    await fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'bob@example.com', historyId: 200 }) });
+
+    expect(clients['bob@example.com'].syncMailbox).toHaveBeenCalledWith('me', expect.objectContaining({ key: 'bob@example.com' }));
+    expect(clients['alice@example.com'].syncMailbox).not.toHaveBeenCalled();
+  });
+
+  it('should process concurrent notifications for one mailbox in order', async () => {
+    const store = new MemoryCheckpointStore();
+    await store.save('me@example.com', '100');
+    let active = 0;
+    let maxActive = 0;
+    const client = {
+      syncMailbox: jest.fn(async () => {
+        active++;
+        maxActive = Math.max(maxActive, active);
+        await new Promise((resolve) => setTimeout(resolve, 20));
+        active--;
+        return incremental;
+      }),
+    };
+    await start({ client, store, onChanges: jest.fn() });
+
+    const statuses = await Promise.all(
+      [1, 2, 3].map((historyId) =>
+        fetch(baseUrl, { method: 'POST', body: pushBody({ emailAddress: 'me@example.com', historyId }) }).then((r) => r.status)
+      )
+    );
+
+    expect(statuses).toEqual([204, 204, 204]);
+    expect(client.syncMailbox).toHaveBeenCalledTimes(3);
+    expect(maxActive).toBe(1);
+  });
+});
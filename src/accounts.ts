@@ -0,0 +1,142 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountConfig, AccountCredentials, AccountProfile, AccountSummary } from './types';
+import { GmailValidationError } from './errors';
+import { EncryptedFileTokenStore, EnvTokenStore, FileTokenStore } from './stores';
+
+const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9][A-Za-z0-9_.-]*$/;
+
+function expandPath(value: string, baseDir: string): string {
+  if (value === '~' || value.startsWith('~/')) {
+    return path.join(os.homedir(), value.slice(1));
+  }
+  return path.resolve(baseDir, value);
+}
+
+function configError(source: string, message: string): Error {
+  return new Error(`Invalid account config at ${source}: ${message}`);
+}
+
+function validateProfile(profile: AccountProfile, source: string, baseDir: string): AccountProfile {
+  if (!ACCOUNT_NAME_PATTERN.test(profile.name)) {
+    throw configError(source, `account name "${profile.name}" may only contain letters, digits, ".", "_" and "-"`);
+  }
+  const sources = [profile.tokenFile, profile.tokenEnv, profile.serviceAccount].filter((value) => value !== undefined);
+  if (sources.length !== 1) {
+    throw configError(source, `account "${profile.name}" needs exactly one of tokenFile, tokenEnv or serviceAccount`);
+  }
+
+  const resolved: AccountProfile = { ...profile };
+  if (profile.tokenFile) {
+    resolved.tokenFile = expandPath(profile.tokenFile, baseDir);
+  }
+  if (profile.serviceAccount?.keyFile) {
+    resolved.serviceAccount = { ...profile.serviceAccount, keyFile: expandPath(profile.serviceAccount.keyFile, baseDir) };
+  }
+  return resolved;
+}
+
+/**
+ * Loads named account profiles. `source` is either a JSON file of the form
+ * `{ "default": "personal", "accounts": { "personal": { "tokenFile": ... } } }`
+ * or a directory where each `<name>.json` is the token file of account
+ * `<name>`. Relative paths resolve against the config file's directory.
+ */
+export function loadAccountConfig(source: string): AccountConfig {
+  const sourcePath = expandPath(source, process.cwd());
+  let stat: fs.Stats;
+  try {
+    stat = fs.statSync(sourcePath);
+  } catch (error) {
+    throw configError(sourcePath, 'file or directory not found');
+  }
+
+  let config: AccountConfig;
+  if (stat.isDirectory()) {
+    const accounts = fs.readdirSync(sourcePath)
+      .filter((file) => file.endsWith('.json'))
+      .sort()
+      .map((file) => validateProfile({ name: file.slice(0, -'.json'.length), tokenFile: file }, sourcePath, sourcePath));
+    config = { accounts };
+  } else {
+    let raw: { default?: unknown; accounts?: unknown };
+    try {
+      raw = JSON.parse(fs.readFileSync(sourcePath, 'utf-8'));
+    } catch (error) {
+      throw configError(sourcePath, 'not valid JSON');
+    }
+    if (!raw.accounts || typeof raw.accounts !== 'object' || Array.isArray(raw.accounts)) {
+      throw configError(sourcePath, '"accounts" must be an object keyed by account name');
+    }
+    const baseDir = path.dirname(sourcePath);
+    const accounts = Object.entries(raw.accounts as Record<string, Omit<AccountProfile, 'name'>>)
+      .map(([name, profile]) => validateProfile({ ...profile, name }, sourcePath, baseDir));
+    config = { accounts, defaultAccount: typeof raw.default === 'string' ? raw.default : undefined };
+  }
+
+  config.defaultAccount = process.env.GMAIL_DEFAULT_ACCOUNT || config.defaultAccount
+    || (config.accounts.length === 1 ? config.accounts[0].name : undefined);
+  if (config.defaultAccount && !config.accounts.some((account) => account.name === config.defaultAccount)) {
+    throw configError(sourcePath, `default account "${config.defaultAccount}" is not defined`);
+  }
+  return config;
+}
+
+// Picks the named account, or the default one when no name is given
+export function findAccount(config: AccountConfig, name?: string): AccountProfile {
+  const wanted = name || config.defaultAccount;
+  const available = config.accounts.map((account) => account.name).join(', ') || 'none';
+  if (!wanted) {
+    throw new GmailValidationError('account', `no account given and no default account is configured; available: ${available}`);
+  }
+
+  const account = config.accounts.find((candidate) => candidate.name === wanted);
+  if (!account) {
+    throw new GmailValidationError('account', `unknown account "${wanted}"; available: ${available}`);
+  }
+  return account;
+}
+
+// Where `createGmailClient` should get credentials for a profile
+export function accountCredentials(profile: AccountProfile): AccountCredentials {
+  if (profile.serviceAccount) {
+    return { serviceAccount: profile.serviceAccount };
+  }
+  if (profile.tokenEnv) {
+    return { store: new EnvTokenStore(profile.tokenEnv) };
+  }
+
+  const encrypted = profile.encrypted ?? Boolean(process.env.GMAIL_TOKEN_KEY || process.env.GMAIL_TOKEN_PASSPHRASE);
+  return { store: encrypted ? new EncryptedFileTokenStore(profile.tokenFile) : new FileTokenStore(profile.tokenFile) };
+}
+
+// Account list without any credential details, safe to show to a model
+export function summarizeAccounts(config: AccountConfig): AccountSummary[] {
+  return config.accounts.map((account) => ({
+    name: account.name,
+    ...(account.description ? { description: account.description } : {}),
+    type: account.serviceAccount ? 'service_account' : 'oauth',
+    default: account.name === config.defaultAccount,
+  }));
+}
+
+/**
+ * Token file that `gmail-mcp auth --account <name>` writes to. In a
+ * directory config an unknown name adds a new account.
+ */
+export function accountTokenFile(source: string, name: string): { tokenFile: string; encrypted?: boolean } {
+  const sourcePath = expandPath(source, process.cwd());
+  if (fs.existsSync(sourcePath) && fs.statSync(sourcePath).isDirectory()) {
+    if (!ACCOUNT_NAME_PATTERN.test(name)) {
+      throw new GmailValidationError('account', `"${name}" may only contain letters, digits, ".", "_" and "-"`);
+    }
+    return { tokenFile: path.join(sourcePath, `${name}.json`) };
+  }
+
+  const account = findAccount(loadAccountConfig(source), name);
+  if (!account.tokenFile) {
+    throw new GmailValidationError('account', `account "${name}" does not use a token file`);
+  }
+  return { tokenFile: account.tokenFile, encrypted: account.encrypted };
+}
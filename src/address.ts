@@ -0,0 +1,292 @@
+import { GmailValidationError } from './errors';
+import { encodeHeaderValue, isPrintableAscii } from './encoding';
+import { AddressGroup, AddressListItem, EmailAddress } from './types';
+
+const ATEXT = "[A-Za-z0-9!#$%&'*+/=?^_`{|}~-]";
+const DOT_ATOM = `${ATEXT}+(?:\\.${ATEXT}+)*`;
+const QUOTED_LOCAL_PART = '"(?:[\\x20\\x21\\x23-\\x5b\\x5d-\\x7e]|\\\\[\\x20-\\x7e])*"';
+const DOMAIN_LABEL = '[A-Za-z0-9](?:[A-Za-z0-9-]{0,61}[A-Za-z0-9])?';
+const DOMAIN = `${DOMAIN_LABEL}(?:\\.${DOMAIN_LABEL})+`;
+const DOMAIN_LITERAL = '\\[[\\x21-\\x5a\\x5e-\\x7e]+\\]';
+const ADDR_SPEC = new RegExp(`^(?:${DOT_ATOM}|${QUOTED_LOCAL_PART})@(?:${DOMAIN}|${DOMAIN_LITERAL})$`);
+
+const PHRASE_SPECIALS = /[()<>[\]:;@\\,."]/;
+
+export function isAddressGroup(item: AddressListItem): item is AddressGroup {
+  return 'group' in item;
+}
+
+export function flattenAddresses(items: AddressListItem[]): EmailAddress[] {
+  return items.flatMap((item) => (isAddressGroup(item) ? item.members : [item]));
+}
+
+// Parse an RFC 5322 address list: bare addresses, "Name <addr>" mailboxes with
+// quoted or unquoted display names, and groups ("Team: a@x.com, b@x.com;").
+// Comments are dropped. Anything malformed raises a GmailValidationError
+// naming the field it came from.
+export function parseAddressList(input: string, field: string = 'address'): AddressListItem[] {
+  if (/[\r\n]/.test(input)) {
+    throw new GmailValidationError(field, 'line breaks are not allowed in addresses');
+  }
+
+  const items: AddressListItem[] = [];
+  let group: { name: string; members: EmailAddress[] } | null = null;
+  let current = '';
+  let inQuote = false;
+  let inAngle = false;
+  let commentDepth = 0;
+
+  const flush = () => {
+    const text = current.trim();
+    current = '';
+    if (!text) {
+      return;
+    }
+    const mailbox = parseMailbox(text, field);
+    if (group) {
+      group.members.push(mailbox);
+    } else {
+      items.push(mailbox);
+    }
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuote) {
+      current += char;
+      if (char === '\\' && i + 1 < input.length) {
+        current += input[++i];
+      } else if (char === '"') {
+        inQuote = false;
+      }
+      continue;
+    }
+
+    if (commentDepth > 0) {
+      if (char === '\\') {
+        i++;
+      } else if (char === '(') {
+        commentDepth++;
+      } else if (char === ')') {
+        commentDepth--;
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inQuote = true;
+        current += char;
+        break;
+      case '(':
+        commentDepth = 1;
+        current += ' ';
+        break;
+      case '<':
+        if (inAngle) {
+          throw new GmailValidationError(field, `unexpected "<" in "${input}"`);
+        }
+        inAngle = true;
+        current += char;
+        break;
+      case '>':
+        if (!inAngle) {
+          throw new GmailValidationError(field, `unexpected ">" in "${input}"`);
+        }
+        inAngle = false;
+        current += char;
+        break;
+      case ':':
+        if (inAngle) {
+          current += char;
+          break;
+        }
+        if (group) {
+          throw new GmailValidationError(field, `groups cannot be nested in "${input}"`);
+        }
+        group = { name: parsePhrase(current, field) || '', members: [] };
+        current = '';
+        break;
+      case ';':
+        if (inAngle || !group) {
+          throw new GmailValidationError(field, `unexpected ";" in "${input}"`);
+        }
+        flush();
+        items.push({ group: group.name, members: group.members });
+        group = null;
+        break;
+      case ',':
+        if (inAngle) {
+          current += char;
+          break;
+        }
+        flush();
+        break;
+      default:
+        current += char;
+    }
+  }
+
+  if (inQuote) {
+    throw new GmailValidationError(field, `unterminated quoted string in "${input}"`);
+  }
+  if (commentDepth > 0) {
+    throw new GmailValidationError(field, `unterminated comment in "${input}"`);
+  }
+  if (inAngle) {
+    throw new GmailValidationError(field, `missing ">" in "${input}"`);
+  }
+  if (group) {
+    throw new GmailValidationError(field, `group "${group.name}" is missing its closing ";"`);
+  }
+  flush();
+
+  return items;
+}
+
+/**
+ * Reads the addresses out of a header of received mail, which is not held to
+ * the rules outgoing headers are. Each entry is parsed on its own; one the
+ * strict parser rejects keeps its display name and the <addr> or bare address
+ * in it, and is dropped when it holds no address at all.
+ */
+export function parseReceivedAddresses(input: string): EmailAddress[] {
+  const value = input.replace(/\r?\n[ \t]*/g, ' ');
+  try {
+    return flattenAddresses(parseAddressList(value));
+  } catch {
+    return splitEntries(value).flatMap((entry) => {
+      try {
+        return flattenAddresses(parseAddressList(entry));
+      } catch {
+        return salvageMailbox(entry);
+      }
+    });
+  }
+}
+
+// Split an address list at commas outside quoted strings, dropping group
+// names and ";". Angle brackets are not tracked, so a stray "<" cannot swallow
+// the entries after it.
+function splitEntries(input: string): string[] {
+  const entries: string[] = [];
+  let current = '';
+  let inQuote = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuote) {
+      current += char;
+      if (char === '\\' && i + 1 < input.length) {
+        current += input[++i];
+      } else if (char === '"') {
+        inQuote = false;
+      }
+      continue;
+    }
+    if (char === '"') {
+      inQuote = true;
+    } else if (char === ',' || char === ';') {
+      entries.push(current);
+      current = '';
+      continue;
+    } else if (char === ':') {
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  entries.push(current);
+
+  return entries.map((entry) => entry.trim()).filter(Boolean);
+}
+
+function salvageMailbox(entry: string): EmailAddress[] {
+  const angle = entry.match(/<([^<>]*@[^<>]*)>[^<>]*$/);
+  if (angle) {
+    const address = angle[1].trim();
+    const name = entry
+      .slice(0, angle.index)
+      .replace(/"((?:[^"\\]|\\.)*)"/g, (_match, quoted: string) => quoted.replace(/\\(.)/g, '$1'))
+      .replace(/\s+/g, ' ')
+      .trim();
+    return name && name !== address ? [{ name, address }] : [{ address }];
+  }
+
+  const bare = entry.match(/[^\s<>"(),;:]+@[^\s<>"(),;:]+/);
+  return bare ? [{ address: bare[0] }] : [];
+}
+
+function parseMailbox(text: string, field: string): EmailAddress {
+  if (!text.endsWith('>')) {
+    return { address: validateAddrSpec(text, field) };
+  }
+
+  const start = text.lastIndexOf('<');
+  const name = parsePhrase(text.slice(0, start), field);
+  const address = validateAddrSpec(text.slice(start + 1, -1).trim(), field);
+
+  return name ? { name, address } : { address };
+}
+
+function parsePhrase(raw: string, field: string): string | undefined {
+  const words: string[] = [];
+  const pattern = /"((?:[^"\\]|\\.)*)"|([^\s"]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(raw)) !== null) {
+    if (match[1] !== undefined) {
+      words.push(match[1].replace(/\\(.)/g, '$1'));
+    } else if (/[<>@,;:\\[\]]/.test(match[2])) {
+      throw new GmailValidationError(field, `unexpected character in display name "${raw.trim()}"`);
+    } else {
+      words.push(match[2]);
+    }
+  }
+
+  return words.length > 0 ? words.join(' ') : undefined;
+}
+
+// Whether `spec` is a bare addr-spec such as "a@example.com"
+export function isValidAddress(spec: string): boolean {
+  return ADDR_SPEC.test(spec);
+}
+
+function validateAddrSpec(spec: string, field: string): string {
+  if (!isValidAddress(spec)) {
+    throw new GmailValidationError(field, `"${spec}" is not a valid email address`);
+  }
+  return spec;
+}
+
+// Render a display name for a header: encoded-words for non-ASCII, quoted when
+// it contains RFC 5322 specials, otherwise as-is. `offset` is where the name
+// starts on its line, as for encodeHeaderValue.
+function formatDisplayName(name: string, offset = 0): string {
+  if (!isPrintableAscii(name)) {
+    return encodeHeaderValue(name, offset);
+  }
+  if (PHRASE_SPECIALS.test(name)) {
+    return `"${name.replace(/(["\\])/g, '\\$1')}"`;
+  }
+  return name;
+}
+
+export function formatAddress(address: EmailAddress, offset = 0): string {
+  return address.name ? `${formatDisplayName(address.name, offset)} <${address.address}>` : address.address;
+}
+
+// Entries are separated by ", " because headers are only folded at spaces;
+// without them a long recipient list could not be kept under 998 characters.
+// `offset` is the length of the header name before the list.
+export function formatAddressList(items: AddressListItem[], offset = 0): string {
+  return items
+    .map((item, index) => {
+      const start = index === 0 ? offset : 0;
+      return isAddressGroup(item)
+        ? `${formatDisplayName(item.group, start)}: ${item.members.map((member) => formatAddress(member)).join(', ')};`
+        : formatAddress(item, start);
+    })
+    .join(', ');
+}
@@ -0,0 +1,28 @@
+import { AttachmentInfo, MessagePayload } from './types';
+
+// Walk a message payload (including nested multipart parts) and collect every
+// part that carries an attachment ID.
+export function findAttachments(payload?: MessagePayload): AttachmentInfo[] {
+  const attachments: AttachmentInfo[] = [];
+
+  const walk = (part: MessagePayload) => {
+    if (part.body?.attachmentId) {
+      attachments.push({
+        attachmentId: part.body.attachmentId,
+        filename: part.filename || '',
+        mimeType: part.mimeType || 'application/octet-stream',
+        size: part.body.size || 0,
+        partId: part.partId,
+      });
+    }
+    for (const child of part.parts || []) {
+      walk(child);
+    }
+  };
+
+  if (payload) {
+    walk(payload);
+  }
+
+  return attachments;
+}
@@ -0,0 +1,197 @@
+import * as crypto from 'crypto';
+import * as http from 'http';
+import * as path from 'path';
+import { AddressInfo } from 'net';
+import { CodeChallengeMethod, OAuth2Client } from 'google-auth-library';
+import { AuthCommandArgs, AuthorizeOptions, AuthorizeResult, Tokens } from './types';
+import { persistTokens } from './tokens';
+
+// Full mailbox access (needed for permanent deletes) plus the settings scopes
+// used by filters, vacation, send-as and forwarding
+export const DEFAULT_AUTH_SCOPES = [
+  'https://mail.google.com/',
+  'https://www.googleapis.com/auth/gmail.settings.basic',
+  'https://www.googleapis.com/auth/gmail.settings.sharing',
+];
+
+const DEFAULT_TIMEOUT_MS = 5 * 60 * 1000;
+// Redirect target for paste-the-code mode; nothing listens here, the user
+// copies the URL the browser fails to load
+const MANUAL_REDIRECT_URI = 'http://127.0.0.1';
+
+function base64url(buffer: Buffer): string {
+  return buffer.toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+// RFC 7636 code verifier and its S256 challenge
+export function createPkcePair(): { codeVerifier: string; codeChallenge: string } {
+  const codeVerifier = base64url(crypto.randomBytes(32));
+  const codeChallenge = base64url(crypto.createHash('sha256').update(codeVerifier).digest());
+  return { codeVerifier, codeChallenge };
+}
+
+// Accepts either a bare authorization code or the full redirect URL the
+// browser ended up on. A URL must carry the expected state.
+export function parseAuthorizationCode(input: string, expectedState: string): string {
+  const value = input.trim();
+  if (!/^https?:\/\//i.test(value) && !value.startsWith('/') && !value.startsWith('?')) {
+    if (!value) {
+      throw new Error('No authorization code provided');
+    }
+    return value;
+  }
+
+  const params = new URL(value, MANUAL_REDIRECT_URI).searchParams;
+  const error = params.get('error');
+  if (error) {
+    throw new Error(`Authorization denied: ${error}`);
+  }
+  if (params.get('state') !== expectedState) {
+    throw new Error('Authorization response state does not match; start the flow again');
+  }
+  const code = params.get('code');
+  if (!code) {
+    throw new Error('Authorization response is missing the code parameter');
+  }
+  return code;
+}
+
+export function parseAuthArgs(argv: string[]): AuthCommandArgs {
+  const args: AuthCommandArgs = { noBrowser: false, help: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    const [flag, inline] = arg.split(/=(.*)/s, 2);
+    const value = () => {
+      const next = inline ?? argv[++i];
+      if (next === undefined || next === '') {
+        throw new Error(`${flag} requires a value`);
+      }
+      return next;
+    };
+
+    switch (flag) {
+      case '--no-browser':
+        args.noBrowser = true;
+        break;
+      case '--scopes':
+        args.scopes = value().split(/[\s,]+/).filter(Boolean);
+        break;
+      case '--token-file':
+        args.tokenFile = value();
+        break;
+      case '--account':
+        args.account = value();
+        break;
+      case '-h':
+      case '--help':
+        args.help = true;
+        break;
+      default:
+        throw new Error(`Unknown option: ${arg}`);
+    }
+  }
+
+  return args;
+}
+
+const SUCCESS_PAGE = '<!doctype html><title>Gmail MCP</title><p>Authorization complete. You can close this tab.</p>';
+
+// Serves the loopback redirect on an ephemeral port and resolves with the
+// authorization code. Requests for other paths (favicon) get a 404.
+async function listenForCode(state: string, timeoutMs: number) {
+  let settle!: { resolve: (code: string) => void; reject: (error: Error) => void };
+  const code = new Promise<string>((resolve, reject) => {
+    settle = { resolve, reject };
+  });
+  // The caller may still be busy with onAuthUrl when a failure arrives
+  code.catch(() => undefined);
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://127.0.0.1');
+    if (url.pathname !== '/callback') {
+      res.writeHead(404).end();
+      return;
+    }
+    try {
+      const value = parseAuthorizationCode(url.pathname + url.search, state);
+      res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(SUCCESS_PAGE);
+      settle.resolve(value);
+    } catch (error) {
+      res.writeHead(400, { 'Content-Type': 'text/plain; charset=utf-8' }).end((error as Error).message);
+      settle.reject(error as Error);
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(0, '127.0.0.1', () => resolve());
+  });
+
+  const timer = setTimeout(
+    () => settle.reject(new Error(`Timed out after ${Math.round(timeoutMs / 1000)}s waiting for the authorization redirect`)),
+    timeoutMs
+  );
+  timer.unref?.();
+
+  const { port } = server.address() as AddressInfo;
+  return {
+    redirectUri: `http://127.0.0.1:${port}/callback`,
+    code,
+    close: () => {
+      clearTimeout(timer);
+      server.close();
+    },
+  };
+}
+
+/**
+ * Runs the OAuth installed-app flow with PKCE and writes the resulting
+ * tokens to the token file. Without `promptForCode` the redirect is caught
+ * by a loopback listener; with it, the user pastes the code or redirect URL.
+ */
+export async function authorize(options: AuthorizeOptions): Promise<AuthorizeResult> {
+  const clientId = options.clientId ?? process.env.GOOGLE_CLIENT_ID;
+  const clientSecret = options.clientSecret ?? process.env.GOOGLE_CLIENT_SECRET;
+  if (!clientId) {
+    throw new Error('GOOGLE_CLIENT_ID is not set; create a Desktop OAuth client and export its ID and secret');
+  }
+
+  const tokenFile = path.resolve(options.tokenFile || process.env.GMAIL_TOKEN_FILE || './token.json');
+  const state = base64url(crypto.randomBytes(16));
+  const { codeVerifier, codeChallenge } = createPkcePair();
+  const listener = options.promptForCode ? undefined : await listenForCode(state, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+  const redirectUri = listener ? listener.redirectUri : MANUAL_REDIRECT_URI;
+
+  try {
+    const oauth2Client = new OAuth2Client(clientId, clientSecret, redirectUri);
+    const authUrl = oauth2Client.generateAuthUrl({
+      access_type: 'offline',
+      // Always show consent so Google issues a refresh token
+      prompt: 'consent',
+      scope: options.scopes?.length ? options.scopes : DEFAULT_AUTH_SCOPES,
+      state,
+      code_challenge: codeChallenge,
+      code_challenge_method: CodeChallengeMethod.S256,
+    });
+
+    await options.onAuthUrl(authUrl);
+    const code = listener
+      ? await listener.code
+      : parseAuthorizationCode(await options.promptForCode!(), state);
+
+    const { tokens: credentials } = await oauth2Client.getToken({ code, codeVerifier, redirect_uri: redirectUri });
+    if (!credentials.refresh_token) {
+      console.error('Google did not return a refresh token; the saved tokens stop working when the access token expires');
+    }
+
+    if (options.store) {
+      await options.store.save(credentials as Tokens);
+      return { tokens: credentials as Tokens };
+    }
+    const tokens = persistTokens(tokenFile, credentials as Tokens);
+    return { tokens, tokenFile };
+  } finally {
+    listener?.close();
+  }
+}
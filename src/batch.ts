@@ -0,0 +1,72 @@
+import { randomBytes } from 'crypto';
+
+export const BATCH_ENDPOINT = 'https://gmail.googleapis.com/batch/gmail/v1';
+// The Gmail batch endpoint accepts at most 100 calls per request
+export const MAX_BATCH_SIZE = 100;
+// messages.batchModify and messages.batchDelete accept at most 1000 IDs
+export const MAX_BULK_IDS = 1000;
+
+export interface BatchRequest {
+  id: string;
+  method: string;
+  path: string;
+}
+
+export interface BatchResponse {
+  id: string;
+  status: number;
+  body: unknown;
+}
+
+export function createBatchBoundary(): string {
+  return `batch_${randomBytes(12).toString('hex')}`;
+}
+
+// Serialize requests as the multipart/mixed body the batch endpoint expects;
+// each part is an HTTP request line tagged with a Content-ID.
+export function buildBatchBody(requests: BatchRequest[], boundary: string): string {
+  const parts = requests.map((request) => [
+    `--${boundary}`,
+    'Content-Type: application/http',
+    `Content-ID: <${request.id}>`,
+    '',
+    `${request.method} ${request.path}`,
+    '',
+  ].join('\r\n'));
+
+  return `${parts.join('\r\n')}\r\n--${boundary}--\r\n`;
+}
+
+// Split a multipart/mixed batch response into per-call status and JSON bodies.
+// Content-IDs come back prefixed with "response-".
+export function parseBatchResponse(body: string, contentType: string): BatchResponse[] {
+  const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+  if (!boundary) {
+    throw new Error('Batch response is missing a multipart boundary');
+  }
+
+  const responses: BatchResponse[] = [];
+  for (const part of body.split(`--${boundary}`)) {
+    const trimmed = part.replace(/^\r?\n/, '');
+    if (!trimmed.trim() || trimmed.startsWith('--')) {
+      continue;
+    }
+
+    const [outerHeaders, ...rest] = trimmed.split(/\r?\n\r?\n/);
+    const inner = rest.join('\r\n\r\n');
+    const id = outerHeaders.match(/Content-ID:\s*<(?:response-)?([^>]*)>/i)?.[1] || '';
+    const status = Number(inner.match(/^HTTP\/[\d.]+\s+(\d{3})/)?.[1] || 0);
+    const payload = inner.split(/\r?\n\r?\n/).slice(1).join('\r\n\r\n').trim();
+
+    let parsed: unknown = payload;
+    try {
+      parsed = payload ? JSON.parse(payload) : undefined;
+    } catch {
+      // Leave non-JSON bodies as text
+    }
+
+    responses.push({ id, status, body: parsed });
+  }
+
+  return responses;
+}
@@ -0,0 +1,173 @@
+import { GmailValidationError } from './errors';
+import { htmlToText } from './html';
+import {
+  CompactMessage,
+  CompactOptions,
+  CompactThread,
+  EmailAddress,
+  ParsedMessage,
+  ParsedThread,
+} from './types';
+
+export const DEFAULT_MAX_BODY_CHARS = 4000;
+
+const QUOTED_MARKER = '[quoted text hidden]';
+const SIGNATURE_MARKER = '[signature hidden]';
+
+// Lines that introduce a quoted earlier message in a reply
+const REPLY_HEADERS = [
+  /^On .+wrote:$/,
+  /^-{2,}\s*Original Message\s*-{2,}$/i,
+  /^_{10,}$/,
+];
+
+function display(address: EmailAddress): string {
+  return address.name ? `${address.name} <${address.address}>` : address.address;
+}
+
+// Hide what an LLM rarely needs from a reply: the quoted earlier message,
+// inline "> " quote blocks, and the sender's signature. Forwarded content is
+// left alone since it usually is the point of the message.
+export function collapseQuotedText(text: string): string {
+  let lines = text.split(/\r?\n/);
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    // Gmail wraps long attributions, so also try the line joined with the next
+    const joined = `${line} ${(lines[i + 1] || '').trim()}`;
+    if (line && REPLY_HEADERS.some((pattern) => pattern.test(line) || pattern.test(joined))) {
+      lines = [...lines.slice(0, i), QUOTED_MARKER];
+      break;
+    }
+  }
+
+  const signatureIndex = lines.findIndex((line) => line === '-- ' || line === '--');
+  if (signatureIndex !== -1) {
+    const rest = lines.slice(signatureIndex + 1);
+    lines = [...lines.slice(0, signatureIndex), SIGNATURE_MARKER, ...(rest.includes(QUOTED_MARKER) ? [QUOTED_MARKER] : [])];
+  }
+
+  const collapsed: string[] = [];
+  for (const line of lines) {
+    if (/^\s*>/.test(line)) {
+      if (collapsed[collapsed.length - 1] !== QUOTED_MARKER) {
+        collapsed.push(QUOTED_MARKER);
+      }
+    } else {
+      collapsed.push(line);
+    }
+  }
+
+  return collapsed
+    .map((line) => line.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Cut `text` to at most `max` characters from `cursor`, preferring to break
+// at whitespace near the end of the window.
+function sliceBody(text: string, cursor: number, max: number): { body: string; nextCursor?: number } {
+  if (cursor + max >= text.length) {
+    return { body: text.slice(cursor) };
+  }
+
+  let end = cursor + max;
+  const lastSpace = text.slice(cursor, end).search(/\s\S*$/);
+  if (lastSpace > max - 200 && lastSpace > 0) {
+    end = cursor + lastSpace;
+  }
+
+  return { body: `${text.slice(cursor, end).trimEnd()}…`, nextCursor: end };
+}
+
+// The budget must move the cursor forward, or paging through nextCursor never ends
+function bodyBudget(options: CompactOptions): number {
+  const maxBodyChars = options.maxBodyChars ?? DEFAULT_MAX_BODY_CHARS;
+  if (!Number.isInteger(maxBodyChars) || maxBodyChars <= 0) {
+    throw new GmailValidationError('maxBodyChars', 'must be a positive integer');
+  }
+  return maxBodyChars;
+}
+
+function bodyText(message: ParsedMessage, options: CompactOptions): string {
+  const text = message.text ?? (message.html !== undefined ? htmlToText(message.html) : message.snippet || '');
+  return options.collapseQuotes === false ? text : collapseQuotedText(text);
+}
+
+function toCompact(message: ParsedMessage, body: string, totalBodyChars: number, nextCursor?: number): CompactMessage {
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    date: message.date?.toISOString(),
+    from: message.from ? display(message.from) : undefined,
+    to: message.to.map(display),
+    cc: message.cc.map(display),
+    subject: message.subject,
+    labels: message.labelIds,
+    body,
+    totalBodyChars,
+    nextCursor,
+    attachments: message.attachments.map(({ attachmentId, filename, mimeType, size }) => ({
+      attachmentId,
+      filename,
+      mimeType,
+      size,
+    })),
+  };
+}
+
+export function compactMessage(message: ParsedMessage, options: CompactOptions = {}): CompactMessage {
+  const maxBodyChars = bodyBudget(options);
+  const cursor = Math.max(0, options.cursor ?? 0);
+  const text = bodyText(message, options);
+  const { body, nextCursor } = sliceBody(text, cursor, maxBodyChars);
+  return toCompact(message, body, text.length, nextCursor);
+}
+
+/**
+ * Compacts a thread under one budget for all of its bodies. The bodies are
+ * read in order as if they were one text, and `cursor` is an offset into
+ * that text: a page holds the messages overlapping the window from `cursor`,
+ * and `nextCursor` continues where the budget ran out.
+ */
+export function compactThread(thread: ParsedThread, options: CompactOptions = {}): CompactThread {
+  const texts = thread.messages.map((message) => bodyText(message, options));
+  const cursor = Math.max(0, options.cursor ?? 0);
+  let remaining = bodyBudget(options);
+  let nextCursor: number | undefined;
+  let start = 0;
+
+  const messages: CompactMessage[] = [];
+  for (const [index, message] of thread.messages.entries()) {
+    const text = texts[index];
+    const offset = cursor - start;
+    // Already read on an earlier page
+    if (offset > 0 && offset >= text.length) {
+      start += text.length;
+      continue;
+    }
+    if (remaining <= 0) {
+      nextCursor = start + Math.max(0, offset);
+      break;
+    }
+
+    const from = Math.max(0, offset);
+    const slice = sliceBody(text, from, remaining);
+    messages.push(toCompact(message, slice.body, text.length));
+    if (slice.nextCursor !== undefined) {
+      nextCursor = start + slice.nextCursor;
+      break;
+    }
+    remaining -= text.length - from;
+    start += text.length;
+  }
+
+  return {
+    id: thread.id,
+    messageCount: thread.messages.length,
+    messages,
+    totalBodyChars: texts.reduce((total, text) => total + text.length, 0),
+    nextCursor,
+  };
+}
@@ -0,0 +1,51 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { JWT } from 'google-auth-library';
+import { ServiceAccountKey, ServiceAccountOptions } from './types';
+import { DEFAULT_AUTH_SCOPES } from './auth';
+import { GmailValidationError } from './errors';
+
+const SUBJECT_PATTERN = /^[^\s@]+@[^\s@]+$/;
+
+export function loadServiceAccountKey(options: ServiceAccountOptions = {}): ServiceAccountKey {
+  let key = options.key;
+
+  if (!key) {
+    const keyFile = options.keyFile || process.env.GOOGLE_APPLICATION_CREDENTIALS;
+    if (!keyFile) {
+      throw new Error('No service account key found. Provide keyFile, key, or set GOOGLE_APPLICATION_CREDENTIALS');
+    }
+    const keyPath = path.resolve(keyFile);
+    try {
+      key = JSON.parse(fs.readFileSync(keyPath, 'utf-8')) as ServiceAccountKey;
+    } catch (error) {
+      throw new Error(`Failed to read or parse service account key at ${keyPath}`);
+    }
+  }
+
+  // Application default credentials files can also hold user credentials
+  if ((key.type && key.type !== 'service_account') || !key.client_email || !key.private_key) {
+    throw new Error('Service account key must be a service_account JSON key with client_email and private_key');
+  }
+  return key;
+}
+
+/**
+ * Builds a JWT client for a service account. With `subject` set, the client
+ * acts as that user through domain-wide delegation; without it, Gmail calls
+ * fail because a service account has no mailbox of its own.
+ */
+export function createServiceAccountClient(options: ServiceAccountOptions = {}): JWT {
+  if (options.subject !== undefined && !SUBJECT_PATTERN.test(options.subject)) {
+    throw new GmailValidationError('subject', `"${options.subject}" is not an email address`);
+  }
+
+  const key = loadServiceAccountKey(options);
+  return new JWT({
+    email: key.client_email,
+    key: key.private_key,
+    keyId: key.private_key_id,
+    scopes: options.scopes?.length ? options.scopes : DEFAULT_AUTH_SCOPES,
+    subject: options.subject,
+  });
+}
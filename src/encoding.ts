@@ -0,0 +1,232 @@
+const CRLF = '\r\n';
+
+// RFC 2047 limits an encoded-word to 75 characters; "=?UTF-8?B?" and "?="
+// take 12 of them, leaving 63 base64 characters, i.e. 45 bytes of payload.
+const MAX_ENCODED_WORD_BYTES = 45;
+const MAX_LINE_LENGTH = 76;
+
+export function isPrintableAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+// Encode a header value as RFC 2047 encoded-words when it contains anything
+// other than printable ASCII. Words are split on character boundaries so a
+// multi-byte character is never cut in half, and folded onto continuation lines.
+// `offset` is the length of what precedes the value on the first line (e.g.
+// "Subject: "), so the first word is shortened to keep that line within 76.
+export function encodeHeaderValue(value: string, offset = 0): string {
+  if (isPrintableAscii(value)) {
+    return value;
+  }
+
+  const words: string[] = [];
+  let chunk = '';
+  let maxBytes = firstWordBytes(offset);
+  for (const char of value) {
+    if (chunk && Buffer.byteLength(chunk + char) > maxBytes) {
+      words.push(chunk);
+      chunk = '';
+      maxBytes = MAX_ENCODED_WORD_BYTES;
+    }
+    chunk += char;
+  }
+  if (chunk) {
+    words.push(chunk);
+  }
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word).toString('base64')}?=`)
+    .join(`${CRLF} `);
+}
+
+// Payload bytes of an encoded-word that fits after `offset` characters: each
+// 3 bytes take 4 base64 characters. At least one character always goes first.
+function firstWordBytes(offset: number): number {
+  const base64Chars = MAX_LINE_LENGTH - offset - '=?UTF-8?B??='.length;
+  return Math.min(MAX_ENCODED_WORD_BYTES, Math.max(1, Math.floor(base64Chars / 4) * 3));
+}
+
+// Percent-encode a parameter value per RFC 2231 (e.g. filename*=UTF-8''...)
+export function encodeParameterValue(value: string): string {
+  return `UTF-8''${encodeURIComponent(value).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`)}`;
+}
+
+// A `name*=` parameter per RFC 2231. A value too long for one line is split
+// into numbered continuations (name*0*=, name*1*=, ...), each on its own
+// folded line; percent-escapes are never cut.
+export function encodeParameter(name: string, value: string): string {
+  const encoded = encodeParameterValue(value);
+  // Room on a continuation line after the leading space, "name*N*=" and ";"
+  const room = (index: number) => MAX_LINE_LENGTH - ` ${name}*${index}*=;`.length;
+  if (encoded.length <= room(0)) {
+    return `${name}*=${encoded}`;
+  }
+
+  const segments: string[] = [];
+  let rest = encoded;
+  while (rest) {
+    let length = Math.min(rest.length, room(segments.length));
+    const escape = rest.lastIndexOf('%', length - 1);
+    if (escape > length - 3) {
+      length = escape;
+    }
+    segments.push(`${name}*${segments.length}*=${rest.slice(0, length)}`);
+    rest = rest.slice(length);
+  }
+  return segments.join(`;${CRLF} `);
+}
+
+// Fold a header at whitespace so no line is longer than 76 characters, the
+// limit RFC 2047 sets for lines holding encoded-words. A header that is
+// already folded (e.g. by encodeHeaderValue) has each of its lines folded.
+export function foldHeader(header: string): string {
+  return header.split(CRLF).map(foldLine).join(CRLF);
+}
+
+function foldLine(line: string): string {
+  if (line.length <= MAX_LINE_LENGTH) {
+    return line;
+  }
+
+  const lines: string[] = [];
+  let current = '';
+  for (const word of line.split(/(?= )/)) {
+    if (current && current.length + word.length > MAX_LINE_LENGTH) {
+      lines.push(current);
+      current = word;
+    } else {
+      current += word;
+    }
+  }
+  lines.push(current);
+
+  return lines.join(CRLF);
+}
+
+export function encodeQuotedPrintable(text: string): string {
+  return text
+    .split(/\r?\n/)
+    .map(encodeQuotedPrintableLine)
+    .join(CRLF);
+}
+
+function encodeQuotedPrintableLine(line: string): string {
+  const bytes = Buffer.from(line);
+  const tokens: string[] = [];
+
+  bytes.forEach((byte, index) => {
+    const isLast = index === bytes.length - 1;
+    const isWhitespace = byte === 0x20 || byte === 0x09;
+    if ((byte >= 33 && byte <= 126 && byte !== 61) || (isWhitespace && !isLast)) {
+      tokens.push(String.fromCharCode(byte));
+    } else {
+      tokens.push(`=${byte.toString(16).toUpperCase().padStart(2, '0')}`);
+    }
+  });
+
+  // Soft line breaks ("=" at the end of a line) keep every line within 76 chars
+  const lines: string[] = [];
+  let current = '';
+  tokens.forEach((token) => {
+    if (current.length + token.length > MAX_LINE_LENGTH - 1) {
+      lines.push(`${current}=`);
+      current = '';
+    }
+    current += token;
+  });
+  lines.push(current);
+
+  return lines.join(CRLF);
+}
+
+export function wrapBase64(data: string): string {
+  return (data.match(new RegExp(`.{1,${MAX_LINE_LENGTH}}`, 'g')) || []).join(CRLF);
+}
+
+// Choose a Content-Transfer-Encoding for a text body: 7bit when it is short-lined
+// ASCII, base64 when it is mostly non-ASCII (e.g. Japanese), quoted-printable otherwise.
+export function encodeTextBody(text: string): { encoding: '7bit' | 'quoted-printable' | 'base64'; body: string } {
+  const lines = text.split(/\r?\n/);
+  if (lines.every((line) => isPrintableAscii(line.replace(/\t/g, ' ')) && line.length <= MAX_LINE_LENGTH)) {
+    return { encoding: '7bit', body: lines.join(CRLF) };
+  }
+
+  const bytes = Buffer.from(text);
+  const nonAscii = bytes.filter((byte) => byte > 0x7e).length;
+  if (nonAscii > bytes.length / 3) {
+    return { encoding: 'base64', body: wrapBase64(Buffer.from(lines.join(CRLF)).toString('base64')) };
+  }
+
+  return { encoding: 'quoted-printable', body: encodeQuotedPrintable(text) };
+}
+
+// Decode bytes in a MIME charset, falling back to UTF-8 for charsets the
+// runtime does not know.
+export function decodeCharset(bytes: Buffer, charset: string = 'utf-8'): string {
+  try {
+    return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+  } catch {
+    return bytes.toString('utf-8');
+  }
+}
+
+function decodeEncodedWordBytes(encoding: string, text: string): Buffer {
+  if (encoding.toUpperCase() === 'B') {
+    return Buffer.from(text, 'base64');
+  }
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '_') {
+      bytes.push(0x20);
+    } else if (char === '=' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(text.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(char.charCodeAt(0));
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+// Decode RFC 2047 encoded-words in a header value. Adjacent words in the same
+// charset are joined before decoding, since some senders split multi-byte
+// characters across words.
+export function decodeHeaderValue(value: string): string {
+  const pattern = /=\?([^?\s]+)\?([BbQq])\?([^?\s]*)\?=/g;
+  let result = '';
+  let lastIndex = 0;
+  let pending: { charset: string; bytes: Buffer[] } | null = null;
+
+  const flushPending = () => {
+    if (pending) {
+      result += decodeCharset(Buffer.concat(pending.bytes), pending.charset);
+      pending = null;
+    }
+  };
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(value)) !== null) {
+    const between = value.slice(lastIndex, match.index);
+    // Whitespace between two encoded-words is not part of the text
+    if (!pending || !/^\s*$/.test(between)) {
+      flushPending();
+      result += between;
+    }
+
+    // RFC 2231 allows a language suffix: charset*language
+    const charset = match[1].split('*')[0];
+    const bytes = decodeEncodedWordBytes(match[2], match[3]);
+    const current = pending as { charset: string; bytes: Buffer[] } | null;
+    if (current && current.charset.toLowerCase() === charset.toLowerCase()) {
+      current.bytes.push(bytes);
+    } else {
+      flushPending();
+      pending = { charset, bytes: [bytes] };
+    }
+    lastIndex = pattern.lastIndex;
+  }
+
+  flushPending();
+  return result + value.slice(lastIndex);
+}
@@ -0,0 +1,38 @@
+// Thrown when caller-supplied input (addresses, header values, options) is
+// rejected before anything is sent to the Gmail API.
+export class GmailValidationError extends Error {
+  readonly field: string;
+
+  constructor(field: string, message: string) {
+    super(`Invalid ${field}: ${message}`);
+    this.name = 'GmailValidationError';
+    this.field = field;
+  }
+}
+
+// Thrown when a startHistoryId is older than the history Gmail keeps (about a
+// week); the caller has to resync from scratch.
+export class GmailHistoryExpiredError extends Error {
+  readonly startHistoryId: string;
+
+  constructor(startHistoryId: string) {
+    super(`History ID ${startHistoryId} has expired; a full sync is required`);
+    this.name = 'GmailHistoryExpiredError';
+    this.startHistoryId = startHistoryId;
+  }
+}
+
+// HTTP status of a failed API call, from either the gaxios error or its response.
+export function getErrorStatus(error: unknown): number | undefined {
+  if (!error || typeof error !== 'object') {
+    return undefined;
+  }
+  const { status, code, response } = error as { status?: unknown; code?: unknown; response?: { status?: unknown } };
+  for (const value of [response?.status, status, code]) {
+    const parsed = typeof value === 'string' ? Number(value) : value;
+    if (typeof parsed === 'number' && Number.isInteger(parsed) && parsed >= 100 && parsed < 600) {
+      return parsed;
+    }
+  }
+  return undefined;
+}
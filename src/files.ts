@@ -0,0 +1,38 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface WriteFileAtomicOptions {
+  // File permissions, e.g. 0o600 for files holding secrets
+  mode?: number;
+}
+
+let tempCounter = 0;
+
+// Unique per write, so concurrent writes to one file never share a temporary file
+function tempPathFor(filePath: string): string {
+  tempCounter += 1;
+  return `${filePath}.${process.pid}.${tempCounter}.tmp`;
+}
+
+/**
+ * Writes a file through a temporary file renamed into place, so a crash
+ * never leaves it half-written. Missing parent directories are created.
+ */
+export async function writeFileAtomic(
+  filePath: string,
+  content: string,
+  options: WriteFileAtomicOptions = {}
+): Promise<void> {
+  await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  await fs.promises.writeFile(tempPath, content, options);
+  await fs.promises.rename(tempPath, filePath);
+}
+
+// Synchronous form of writeFileAtomic
+export function writeFileAtomicSync(filePath: string, content: string, options: WriteFileAtomicOptions = {}): void {
+  fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  const tempPath = tempPathFor(filePath);
+  fs.writeFileSync(tempPath, content, options);
+  fs.renameSync(tempPath, filePath);
+}
@@ -0,0 +1,84 @@
+import { FilterAction, FilterActionOptions, FilterCriteria, ParsedMessage, SuggestFilterOptions } from './types';
+import { GmailValidationError } from './errors';
+import { flattenAddresses, isValidAddress, parseAddressList } from './address';
+
+const CRITERIA_KEYS: (keyof FilterCriteria)[] = ['from', 'to', 'subject', 'query', 'negatedQuery', 'hasAttachment', 'size'];
+
+// Reject criteria Gmail would refuse or that would match every message.
+export function validateFilterCriteria(criteria: FilterCriteria): void {
+  if (!CRITERIA_KEYS.some((key) => criteria[key] !== undefined && criteria[key] !== '' && criteria[key] !== false)) {
+    throw new GmailValidationError('criteria', 'at least one of from, to, subject, query, negatedQuery, hasAttachment or size is required');
+  }
+  if (criteria.size !== undefined && (!Number.isInteger(criteria.size) || criteria.size <= 0)) {
+    throw new GmailValidationError('criteria.size', 'must be a positive number of bytes');
+  }
+  if (criteria.sizeComparison !== undefined && criteria.size === undefined) {
+    throw new GmailValidationError('criteria.sizeComparison', 'requires criteria.size');
+  }
+}
+
+// Expand the convenience flags into plain label changes and check the
+// forwarding address. Label names are resolved later by the client.
+export function buildFilterAction(options: FilterActionOptions): FilterAction {
+  const add = new Set(options.addLabelIds || []);
+  const remove = new Set(options.removeLabelIds || []);
+
+  if (options.star) add.add('STARRED');
+  if (options.markImportant) add.add('IMPORTANT');
+  if (options.neverImportant) remove.add('IMPORTANT');
+  if (options.markAsRead) remove.add('UNREAD');
+  if (options.archive) remove.add('INBOX');
+  if (options.neverSpam) remove.add('SPAM');
+  if (options.trash) add.add('TRASH');
+
+  let forward: string | undefined;
+  if (options.forward !== undefined) {
+    const addresses = flattenAddresses(parseAddressList(options.forward, 'action.forward'));
+    if (addresses.length !== 1) {
+      throw new GmailValidationError('action.forward', 'exactly one address is required');
+    }
+    forward = addresses[0].address;
+  }
+
+  if (add.size === 0 && remove.size === 0 && !forward) {
+    throw new GmailValidationError('action', 'the filter must add or remove a label or forward');
+  }
+
+  return {
+    addLabelIds: add.size > 0 ? [...add] : undefined,
+    removeLabelIds: remove.size > 0 ? [...remove] : undefined,
+    forward,
+  };
+}
+
+// Suggest criteria that match future mail like the given message: its mailing
+// list when it has a List-Id header, otherwise its sender address (or the
+// sender's whole domain with by: 'domain').
+export function suggestFilterCriteria(message: ParsedMessage, options: SuggestFilterOptions = {}): FilterCriteria {
+  const listId = message.headers['list-id']?.[0]?.match(/<([^>]+)>/)?.[1] || message.headers['list-id']?.[0]?.trim();
+  const by = options.by ?? (listId ? 'list' : 'sender');
+
+  let criteria: FilterCriteria;
+  if (by === 'list') {
+    if (!listId) {
+      throw new GmailValidationError('by', 'the message has no List-Id header');
+    }
+    criteria = { query: `list:${listId}` };
+  } else {
+    const sender = message.from?.address;
+    if (!sender) {
+      throw new GmailValidationError('by', 'the message has no sender address');
+    }
+    // A sender salvaged from a malformed From header may not be one Gmail can match
+    if (!isValidAddress(sender)) {
+      throw new GmailValidationError('by', `the sender "${sender}" is not a valid email address`);
+    }
+    criteria = { from: by === 'domain' ? `@${sender.slice(sender.lastIndexOf('@') + 1)}` : sender };
+  }
+
+  if (options.includeSubject && message.subject) {
+    criteria.subject = message.subject;
+  }
+
+  return criteria;
+}
@@ -0,0 +1,69 @@
+import { SendMessageOptions } from './types';
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+  copy: '©',
+  reg: '®',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+};
+
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const point = code[1] === 'x' || code[1] === 'X'
+        ? parseInt(code.slice(2), 16)
+        : parseInt(code.slice(1), 10);
+      return Number.isFinite(point) && point <= 0x10ffff ? String.fromCodePoint(point) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+// Convert an HTML document into readable plain text. This is not a full HTML
+// renderer; it keeps paragraph structure, list bullets and link targets.
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script|title)\b[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\b[^>]*\bhref\s*=\s*["']([^"']*)["'][^>]*>([\s\S]*?)<\/a>/gi, (_match, href: string, label: string) => {
+      const labelText = label.replace(/<[^>]+>/g, '').trim();
+      if (!href || href.startsWith('#') || href.startsWith('mailto:') || labelText === href) {
+        return label;
+      }
+      return `${label} (${href})`;
+    })
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li\b[^>]*>/gi, '\n- ')
+    .replace(/<\/(p|div|h[1-6]|ul|ol|table|tr|blockquote|pre|section|article|header|footer)>/gi, '\n\n')
+    .replace(/<(p|div|h[1-6]|tr|blockquote|pre|section|article)\b[^>]*>/gi, '\n')
+    .replace(/<\/t[dh]>/gi, '\t')
+    .replace(/<hr\b[^>]*>/gi, '\n---\n')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeEntities(text)
+    .replace(/[ \t\u00a0]+/g, ' ')
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// The HTML and plain-text bodies an outgoing message is sent with. `html: true`
+// sends `body` as HTML; the text alternative, unless given, is derived from it.
+export function resolveBodies(options: Pick<SendMessageOptions, 'body' | 'text' | 'html'>): { text: string; html?: string } {
+  const html = typeof options.html === 'string' ? options.html : options.html ? options.body || '' : undefined;
+  const text = options.text ?? (html === undefined ? options.body || '' : htmlToText(html));
+  return { text, html };
+}
@@ -11,98 +11,415 @@ import {
   ModifyLabelsOptions,
   SendMessageOptions,
   CreateDraftOptions,
+  Attachment,
+  AttachmentInfo,
+  Profile,
+  ReplyOptions,
+  ReplyMode,
+  ForwardOptions,
+  OutgoingAttachment,
+  MessageFormat,
+  ParsedMessage,
+  ParsedThread,
+  MessagePage,
+  ThreadPage,
+  IterateMessagesOptions,
+  IterateThreadsOptions,
+  BatchMessageResult,
+  ModifyMatchingOptions,
+  ModifyMatchingResult,
+  CreateLabelOptions,
+  UpdateLabelOptions,
+  ListDraftsOptions,
+  DraftPage,
+  HistoryEvent,
+  HistoryPage,
+  ListHistoryOptions,
+  SyncOptions,
+  SyncResult,
+  WatchOptions,
+  WatchResponse,
+  WatchRenewal,
+  WatchRenewalOptions,
+  Filter,
+  FilterCriteria,
+  CreateFilterOptions,
+  SuggestFilterOptions,
+  VacationSettings,
+  UpdateVacationOptions,
+  SendAs,
+  UpdateSendAsOptions,
+  AutoForwarding,
+  ForwardingAddress,
+  ImapSettings,
+  PopSettings,
+  ServiceAccountOptions,
+  TokenStore,
+  RetryPolicy,
 } from './types';
-import { resolveTokens } from './tokens';
+import { resolveTokens, resolveTokenFile, mergeRefreshedTokens, persistTokens } from './tokens';
+import { authorize, parseAuthArgs, parseAuthorizationCode, createPkcePair, DEFAULT_AUTH_SCOPES } from './auth';
+import { createServiceAccountClient, loadServiceAccountKey } from './credentials';
+import { EnvTokenStore, FileTokenStore, EncryptedFileTokenStore, tokenStoreFromEnv } from './stores';
+import { loadAccountConfig, findAccount, accountCredentials, accountTokenFile, summarizeAccounts } from './accounts';
+import { findAttachments } from './attachments';
+import { buildMessage } from './mime';
+import { parseAddressList, formatAddress, formatAddressList, isAddressGroup, flattenAddresses } from './address';
+import { GmailValidationError, GmailHistoryExpiredError, getErrorStatus } from './errors';
+import { buildReplyOptions, buildForwardOptions } from './reply';
+import { parseMessage, parseThread, getHeader } from './parse';
+import { decodeHeaderValue } from './encoding';
+import { paginate } from './paginate';
+import { BATCH_ENDPOINT, MAX_BATCH_SIZE, MAX_BULK_IDS, BatchResponse, buildBatchBody, createBatchBoundary, parseBatchResponse } from './batch';
+import { historyToEvents, HistoryRecord, MemoryCheckpointStore, FileCheckpointStore } from './sync';
+import { scheduleWatchRenewal, createPushHandler, decodePushMessage } from './watch';
+import { buildFilterAction, suggestFilterCriteria, validateFilterCriteria } from './filters';
+import { appendSignature, mergeSettings, toEpochMillis } from './settings';
+import { isLabelId, findLabel, normalizeLabelName, parentLabelNames } from './labels';
+import { compactMessage, compactThread, collapseQuotedText, DEFAULT_MAX_BODY_CHARS } from './compact';
+import { withRetry, isRetryableError, resolveRetryPolicy, retryDelay, retryPolicyFromEnv, sleep, ResolvedRetryPolicy, DEFAULT_RETRY_POLICY } from './retry';
 
 export * from './types';
-export { resolveTokens };
+export { resolveTokens, findAttachments, buildMessage, buildReplyOptions, buildForwardOptions };
+export { parseMessage, parseThread, getHeader, decodeHeaderValue };
+export { compactMessage, compactThread, collapseQuotedText, DEFAULT_MAX_BODY_CHARS };
+export { parseAddressList, formatAddress, formatAddressList, isAddressGroup, flattenAddresses, GmailValidationError };
+export { GmailHistoryExpiredError, MemoryCheckpointStore, FileCheckpointStore };
+export { scheduleWatchRenewal, createPushHandler, decodePushMessage };
+export { suggestFilterCriteria, buildFilterAction };
+export { persistTokens, mergeRefreshedTokens };
+export { authorize, parseAuthArgs, parseAuthorizationCode, createPkcePair, DEFAULT_AUTH_SCOPES };
+export { createServiceAccountClient, loadServiceAccountKey };
+export { EnvTokenStore, FileTokenStore, EncryptedFileTokenStore, tokenStoreFromEnv };
+export { loadAccountConfig, findAccount, accountCredentials, accountTokenFile, summarizeAccounts };
+export { withRetry, isRetryableError, retryPolicyFromEnv, DEFAULT_RETRY_POLICY };
 
 interface GmailClientOptions {
   tokens?: Tokens;
+  /** Where to load tokens from and save refreshed ones to (default: encrypted file when GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE is set) */
+  store?: TokenStore;
+  /** Service account key, optionally impersonating a user via domain-wide delegation */
+  serviceAccount?: ServiceAccountOptions;
+  /** Pre-built auth client (OAuth2Client, JWT, ...) used as is; takes precedence over other credentials */
+  authClient?: OAuth2Client;
+  /** Called with the merged tokens whenever the access token is refreshed */
+  onTokensRefreshed?: (tokens: Tokens) => void | Promise<void>;
+  /** Write refreshed tokens back to the store or token file they were read from (default: true) */
+  persistTokens?: boolean;
+  /** Retry rate-limited and transient failures; false turns retries off (default: GMAIL_RETRY_* or 4 attempts) */
+  retry?: RetryPolicy | false;
+}
+
+interface ClientSetupOptions {
+  store?: TokenStore;
+  onTokensRefreshed?: (tokens: Tokens) => void | Promise<void>;
+  retry?: RetryPolicy | false;
+}
+
+function isAuthClient(auth: Tokens | TokenStore | OAuth2Client): auth is OAuth2Client {
+  return typeof (auth as OAuth2Client).request === 'function';
+}
+
+function isTokenStore(auth: Tokens | TokenStore): auth is TokenStore {
+  return typeof (auth as TokenStore).load === 'function';
 }
 
 class GmailClient {
   private oauth2Client: OAuth2Client;
   private gmail: ReturnType<typeof google.gmail>;
+  private labelCache = new Map<string, Label[]>();
+  private tokens: Tokens = {};
+  private retryPolicy: ResolvedRetryPolicy;
+
+  /**
+   * `auth` is a token set, a store to load tokens from on the first request,
+   * or a ready-made auth client.
+   */
+  constructor(auth: Tokens | TokenStore | OAuth2Client, options: ClientSetupOptions = {}) {
+    this.retryPolicy = resolveRetryPolicy(options.retry);
+    if (isAuthClient(auth)) {
+      // The caller owns refresh handling for clients it built itself
+      this.oauth2Client = auth;
+      // Retries are handled by withRetry; the library's own would multiply them
+      this.gmail = google.gmail({ version: 'v1', auth, retry: false });
+      return;
+    }
 
-  constructor(tokens: Tokens) {
     this.oauth2Client = new OAuth2Client(
       process.env.GOOGLE_CLIENT_ID,
       process.env.GOOGLE_CLIENT_SECRET,
       process.env.GOOGLE_REDIRECT_URL || 'http://localhost:3000/callback'
     );
 
+    if (isTokenStore(auth)) {
+      this.loadTokensOnFirstRequest(auth);
+    } else {
+      this.setTokens(auth);
+    }
+
+    this.oauth2Client.on('tokens', (credentials) => this.handleTokensRefreshed(credentials as Tokens, options));
+    this.gmail = google.gmail({ version: 'v1', auth: this.oauth2Client, retry: false });
+  }
+
+  private setTokens(tokens: Tokens): void {
+    this.tokens = tokens;
     // Normalize tokens to snake_case for OAuth2Client
-    const normalizedTokens = {
+    this.oauth2Client.setCredentials({
       access_token: tokens.access_token || tokens.accessToken,
       refresh_token: tokens.refresh_token || tokens.refreshToken,
       expiry_date: tokens.expiry_date || tokens.expiryDate,
       token_type: tokens.token_type || tokens.tokenType,
+    });
+  }
+
+  // Every Gmail call, including batch requests, goes through the auth
+  // client's request(), so holding that back until the store has loaded
+  // keeps the constructor synchronous. A failed load is retried next time.
+  private loadTokensOnFirstRequest(store: TokenStore): void {
+    let loading: Promise<void> | undefined;
+    const load = () => {
+      loading ??= store.load().then(
+        (tokens) => {
+          if (!tokens) {
+            throw new Error('No Gmail tokens found in the token store; run `gmail-mcp auth` first');
+          }
+          this.setTokens(tokens);
+        },
+        (error) => {
+          loading = undefined;
+          throw error;
+        }
+      );
+      return loading;
     };
 
-    this.oauth2Client.setCredentials(normalizedTokens);
-    this.gmail = google.gmail({ version: 'v1', auth: this.oauth2Client });
+    const request = this.oauth2Client.request.bind(this.oauth2Client);
+    this.oauth2Client.request = (async (options: Parameters<OAuth2Client['request']>[0]) => {
+      await load();
+      return request(options);
+    }) as OAuth2Client['request'];
+  }
+
+  /**
+   * Persists refreshed credentials and notifies the caller. Failures are
+   * logged rather than thrown: the event fires mid-request and the request
+   * itself already has a valid access token.
+   */
+  private handleTokensRefreshed(credentials: Tokens, options: ClientSetupOptions): void {
+    this.tokens = mergeRefreshedTokens(this.tokens, credentials);
+    const tokens = this.tokens;
+
+    if (options.store) {
+      const store = options.store;
+      Promise.resolve()
+        .then(() => store.save(tokens))
+        .catch((error) => console.error('Failed to save refreshed tokens:', error));
+    }
+    if (options.onTokensRefreshed) {
+      Promise.resolve()
+        .then(() => options.onTokensRefreshed!(tokens))
+        .catch((error) => console.error('onTokensRefreshed callback failed:', error));
+    }
+  }
+
+  // Runs one API call under the client's retry policy, so handleError only
+  // sees the failure of the last attempt
+  private withRetry<T>(call: () => Promise<T>, options?: { idempotent?: boolean }): Promise<T> {
+    return withRetry(call, this.retryPolicy, options);
   }
 
   async listMessages(userId: string = 'me', options?: ListMessagesOptions): Promise<Message[]> {
+    return (await this.listMessagesPage(userId, options)).messages;
+  }
+
+  async listMessagesPage(userId: string = 'me', options?: ListMessagesOptions): Promise<MessagePage> {
+    const labelIds = await this.resolveLabelIds(userId, options?.labelIds);
+    let page: MessagePage;
     try {
-      const response = await this.gmail.users.messages.list({
+      const response = await this.withRetry(() => this.gmail.users.messages.list({
         userId,
         q: options?.q,
         maxResults: options?.maxResults,
         pageToken: options?.pageToken,
         includeSpamTrash: options?.includeSpamTrash,
-        labelIds: options?.labelIds,
-      });
+        labelIds,
+      }, { signal: options?.signal }));
 
-      return (response.data.messages || []) as Message[];
+      page = {
+        messages: (response.data.messages || []) as Message[],
+        nextPageToken: response.data.nextPageToken || undefined,
+        resultSizeEstimate: response.data.resultSizeEstimate ?? undefined,
+      };
     } catch (error) {
       this.handleError(error);
     }
+
+    if (options?.format && page.messages.length > 0) {
+      const results = await this.getMessages(userId, page.messages.map((message) => message.id), options.format);
+      // Messages that failed to hydrate stay as ID stubs
+      page.messages = results.map((result, index) => result.message || page.messages[index]);
+    }
+
+    return page;
   }
 
-  async getMessage(userId: string = 'me', messageId: string, format: 'full' | 'minimal' | 'raw' | 'metadata' = 'full'): Promise<Message> {
+  iterateMessages(userId: string = 'me', query?: string, options: IterateMessagesOptions = {}): AsyncGenerator<Message> {
+    const format = options.format;
+    return paginate<Message>(
+      async (pageToken, maxResults, signal) => {
+        const page = await this.listMessagesPage(userId, {
+          q: query,
+          maxResults,
+          pageToken,
+          includeSpamTrash: options.includeSpamTrash,
+          labelIds: options.labelIds,
+          signal,
+        });
+        return { items: page.messages, nextPageToken: page.nextPageToken };
+      },
+      {
+        limit: options.limit,
+        pageSize: options.pageSize,
+        concurrency: options.concurrency,
+        signal: options.signal,
+        hydrate: format ? (stub) => this.getMessage(userId, stub.id, format) : undefined,
+      }
+    );
+  }
+
+  async getMessage(userId: string | undefined, messageId: string, format: 'parsed'): Promise<ParsedMessage>;
+  async getMessage(userId: string | undefined, messageId: string, format?: MessageFormat): Promise<Message>;
+  async getMessage(userId: string = 'me', messageId: string, format: MessageFormat | 'parsed' = 'full'): Promise<Message | ParsedMessage> {
     try {
-      const response = await this.gmail.users.messages.get({
+      const response = await this.withRetry(() => this.gmail.users.messages.get({
         userId,
         id: messageId,
-        format,
-      });
+        format: format === 'parsed' ? 'full' : format,
+      }));
 
-      return response.data as Message;
+      const message = response.data as Message;
+      return format === 'parsed' ? parseMessage(message) : message;
     } catch (error) {
       this.handleError(error);
     }
   }
 
-  async searchMessages(userId: string = 'me', query: string, options?: Omit<ListMessagesOptions, 'q'>): Promise<Message[]> {
+  async getMessages(userId: string = 'me', messageIds: string[], format: MessageFormat = 'full'): Promise<BatchMessageResult[]> {
+    const results: BatchMessageResult[] = [];
+    for (let start = 0; start < messageIds.length; start += MAX_BATCH_SIZE) {
+      results.push(...(await this.getMessageBatch(userId, messageIds.slice(start, start + MAX_BATCH_SIZE), format)));
+    }
+    return results;
+  }
+
+  // One batch request per attempt. Items that failed with a rate limit or a
+  // server error go out again in a smaller batch after the backoff delay.
+  private async getMessageBatch(userId: string, ids: string[], format: MessageFormat): Promise<BatchMessageResult[]> {
+    const results: BatchMessageResult[] = [];
+    let pending = ids.map((_, index) => index);
+
+    for (let attempt = 1; pending.length > 0; attempt++) {
+      const boundary = createBatchBoundary();
+      // Content-IDs are positional so duplicate message IDs still map back
+      const requests = pending.map((index) => ({
+        id: `item-${index}`,
+        method: 'GET',
+        path: `/gmail/v1/users/${encodeURIComponent(userId)}/messages/${encodeURIComponent(ids[index])}?format=${format}`,
+      }));
+
+      let responses: BatchResponse[];
+      try {
+        const response = await this.withRetry(() => this.oauth2Client.request<string>({
+          url: BATCH_ENDPOINT,
+          method: 'POST',
+          headers: { 'Content-Type': `multipart/mixed; boundary=${boundary}` },
+          data: buildBatchBody(requests, boundary),
+          responseType: 'text',
+        }));
+        responses = parseBatchResponse(response.data, String(response.headers['content-type'] || ''));
+      } catch (error) {
+        this.handleError(error);
+      }
+
+      const byId = new Map(responses.map((response) => [response.id, response]));
+      const failed: number[] = [];
+      for (const index of pending) {
+        const id = ids[index];
+        const response = byId.get(`item-${index}`);
+        if (response && response.status >= 200 && response.status < 300) {
+          results[index] = { id, message: response.body as Message };
+          continue;
+        }
+
+        const body = response?.body as { error?: { code?: number; message?: string } } | undefined;
+        results[index] = {
+          id,
+          error: {
+            code: body?.error?.code || response?.status || 0,
+            message: body?.error?.message || 'No response for this message in the batch',
+          },
+        };
+        if (response && isRetryableError({ response: { status: response.status, data: body } })) {
+          failed.push(index);
+        }
+      }
+
+      const delayMs = failed.length > 0 && attempt < this.retryPolicy.maxAttempts
+        ? retryDelay(this.retryPolicy, attempt)
+        : undefined;
+      if (delayMs === undefined) {
+        break;
+      }
+      this.retryPolicy.onRetry?.({ attempt, delayMs, error: results[failed[0]].error });
+      await sleep(delayMs);
+      pending = failed;
+    }
+
+    return results;
+  }
+
+  async listAttachments(userId: string = 'me', messageId: string): Promise<AttachmentInfo[]> {
+    const message = await this.getMessage(userId, messageId, 'full');
+    return findAttachments(message.payload);
+  }
+
+  async getAttachment(userId: string = 'me', messageId: string, attachmentId: string): Promise<Attachment> {
     try {
-      const response = await this.gmail.users.messages.list({
+      const response = await this.withRetry(() => this.gmail.users.messages.attachments.get({
         userId,
-        q: query,
-        maxResults: options?.maxResults,
-        pageToken: options?.pageToken,
-        includeSpamTrash: options?.includeSpamTrash,
-        labelIds: options?.labelIds,
-      });
+        messageId,
+        id: attachmentId,
+      }));
 
-      return (response.data.messages || []) as Message[];
+      return response.data as Attachment;
     } catch (error) {
       this.handleError(error);
     }
   }
 
+  async searchMessages(userId: string = 'me', query: string, options?: Omit<ListMessagesOptions, 'q'>): Promise<Message[]> {
+    return (await this.searchMessagesPage(userId, query, options)).messages;
+  }
+
+  async searchMessagesPage(userId: string = 'me', query: string, options?: Omit<ListMessagesOptions, 'q'>): Promise<MessagePage> {
+    return this.listMessagesPage(userId, { ...options, q: query });
+  }
+
   async sendMessage(userId: string = 'me', options: SendMessageOptions): Promise<Message> {
+    if (options.sendAs) {
+      options = await this.applySendAs(userId, options, options.sendAs);
+    }
+
     try {
-      const email = this.buildMessage(options);
-      const response = await this.gmail.users.messages.send({
+      const email = buildMessage(options);
+      const response = await this.withRetry(() => this.gmail.users.messages.send({
         userId,
         requestBody: {
-          raw: Buffer.from(email).toString('base64'),
+          raw: Buffer.from(email).toString('base64url'),
           threadId: options.threadId,
           labelIds: options.labelIds,
         },
-      });
+      }), { idempotent: false });
 
       return response.data as Message;
     } catch (error) {
@@ -110,18 +427,103 @@ class GmailClient {
     }
   }
 
+  // Fill From from the alias and append its signature unless turned off
+  private async applySendAs(userId: string, options: SendMessageOptions, sendAsEmail: string): Promise<SendMessageOptions> {
+    const alias = await this.getSendAs(userId, sendAsEmail);
+    const withFrom = {
+      ...options,
+      from: options.from ?? formatAddress({ name: alias.displayName || undefined, address: alias.sendAsEmail }),
+    };
+    return options.appendSignature !== false && alias.signature ? appendSignature(withFrom, alias.signature) : withFrom;
+  }
+
+  async getProfile(userId: string = 'me'): Promise<Profile> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.getProfile({ userId }));
+      return response.data as Profile;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async replyToMessage(userId: string = 'me', messageId: string, options: ReplyOptions = {}, mode: ReplyMode = {}): Promise<Message> {
+    const [original, profile] = await Promise.all([
+      this.getMessage(userId, messageId, 'full'),
+      this.getProfile(userId),
+    ]);
+
+    const ownAddresses = [profile.emailAddress];
+    if (options.from) {
+      ownAddresses.push(...flattenAddresses(parseAddressList(options.from, 'from')).map((item) => item.address));
+    }
+
+    return this.sendMessage(userId, buildReplyOptions(original, ownAddresses, options, mode));
+  }
+
+  async forwardMessage(userId: string = 'me', messageId: string, to: string | string[], options: ForwardOptions = {}): Promise<Message> {
+    const original = await this.getMessage(userId, messageId, 'full');
+
+    const originalAttachments: OutgoingAttachment[] = [];
+    if (options.includeAttachments !== false) {
+      for (const info of findAttachments(original.payload)) {
+        const attachment = await this.getAttachment(userId, messageId, info.attachmentId);
+        originalAttachments.push({
+          filename: info.filename || info.attachmentId,
+          contentType: info.mimeType,
+          content: Buffer.from(attachment.data || '', 'base64url'),
+        });
+      }
+    }
+
+    return this.sendMessage(userId, buildForwardOptions(original, to, options, originalAttachments));
+  }
+
   async createDraft(userId: string = 'me', options: CreateDraftOptions): Promise<Draft> {
     try {
-      const email = this.buildMessage(options);
-      const response = await this.gmail.users.drafts.create({
+      const response = await this.withRetry(() => this.gmail.users.drafts.create({
         userId,
         requestBody: {
-          message: {
-            raw: Buffer.from(email).toString('base64'),
-            threadId: options.threadId,
-          },
+          message: this.buildDraftMessage(options),
         },
-      });
+      }), { idempotent: false });
+
+      return response.data as Draft;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async listDrafts(userId: string = 'me', options?: ListDraftsOptions): Promise<Draft[]> {
+    return (await this.listDraftsPage(userId, options)).drafts;
+  }
+
+  async listDraftsPage(userId: string = 'me', options?: ListDraftsOptions): Promise<DraftPage> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.drafts.list({
+        userId,
+        q: options?.q,
+        maxResults: options?.maxResults,
+        pageToken: options?.pageToken,
+        includeSpamTrash: options?.includeSpamTrash,
+      }));
+
+      return {
+        drafts: (response.data.drafts || []) as Draft[],
+        nextPageToken: response.data.nextPageToken || undefined,
+        resultSizeEstimate: response.data.resultSizeEstimate ?? undefined,
+      };
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getDraft(userId: string = 'me', draftId: string, format: MessageFormat = 'full'): Promise<Draft> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.drafts.get({
+        userId,
+        id: draftId,
+        format,
+      }));
 
       return response.data as Draft;
     } catch (error) {
@@ -129,25 +531,195 @@ class GmailClient {
     }
   }
 
+  // Replaces the draft's whole message; fields left out of options are dropped
+  async updateDraft(userId: string = 'me', draftId: string, options: CreateDraftOptions): Promise<Draft> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.drafts.update({
+        userId,
+        id: draftId,
+        requestBody: {
+          id: draftId,
+          message: this.buildDraftMessage(options),
+        },
+      }));
+
+      return response.data as Draft;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async deleteDraft(userId: string = 'me', draftId: string): Promise<void> {
+    try {
+      await this.withRetry(() => this.gmail.users.drafts.delete({
+        userId,
+        id: draftId,
+      }));
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async sendDraft(userId: string = 'me', draftId: string): Promise<Message> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.drafts.send({
+        userId,
+        requestBody: { id: draftId },
+      }), { idempotent: false });
+
+      return response.data as Message;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  private buildDraftMessage(options: CreateDraftOptions): { raw: string; threadId?: string } {
+    const email = buildMessage(options);
+    return {
+      raw: Buffer.from(email).toString('base64url'),
+      threadId: options.threadId,
+    };
+  }
+
   async listLabels(userId: string = 'me'): Promise<Label[]> {
     try {
-      const response = await this.gmail.users.labels.list({ userId });
-      return (response.data.labels || []) as Label[];
+      const response = await this.withRetry(() => this.gmail.users.labels.list({ userId }));
+      const labels = (response.data.labels || []) as Label[];
+      this.labelCache.set(userId, labels);
+      return labels;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Map label names (case-insensitive, e.g. "Projects/Acme") to IDs. Values
+  // that already look like IDs pass through without an API call.
+  async resolveLabelIds(userId: string = 'me', namesOrIds?: string[], field = 'labelIds'): Promise<string[] | undefined> {
+    if (!namesOrIds || namesOrIds.every(isLabelId)) {
+      return namesOrIds;
+    }
+
+    const lookup = (labels: Label[]) =>
+      namesOrIds.map((value) => (isLabelId(value) ? value : findLabel(labels, value)?.id));
+
+    const cached = this.labelCache.get(userId);
+    let ids = lookup(cached || (await this.listLabels(userId)));
+    // A cached list may predate labels created elsewhere; refresh once on a miss
+    if (cached && ids.includes(undefined)) {
+      ids = lookup(await this.listLabels(userId));
+    }
+
+    const missing = namesOrIds.filter((_, index) => !ids[index]);
+    if (missing.length > 0) {
+      throw new GmailValidationError(field, `no label named ${missing.map((name) => `"${name}"`).join(', ')}`);
+    }
+
+    return ids as string[];
+  }
+
+  async getLabel(userId: string = 'me', labelId: string): Promise<Label> {
+    const [id] = (await this.resolveLabelIds(userId, [labelId], 'labelId')) as string[];
+    try {
+      const response = await this.withRetry(() => this.gmail.users.labels.get({ userId, id }));
+      return response.data as Label;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async createLabel(userId: string = 'me', options: CreateLabelOptions): Promise<Label> {
+    const name = normalizeLabelName(options.name);
+    await this.createParentLabels(userId, name);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.labels.create({
+        userId,
+        requestBody: {
+          name,
+          labelListVisibility: options.labelListVisibility,
+          messageListVisibility: options.messageListVisibility,
+          color: options.color,
+        },
+      }), { idempotent: false });
+
+      this.labelCache.delete(userId);
+      return response.data as Label;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async updateLabel(userId: string = 'me', labelId: string, options: UpdateLabelOptions): Promise<Label> {
+    const [id] = (await this.resolveLabelIds(userId, [labelId], 'labelId')) as string[];
+    const name = options.name === undefined ? undefined : normalizeLabelName(options.name);
+    if (name) {
+      await this.createParentLabels(userId, name);
+    }
+
+    try {
+      const response = await this.withRetry(() => this.gmail.users.labels.patch({
+        userId,
+        id,
+        requestBody: {
+          name,
+          labelListVisibility: options.labelListVisibility,
+          messageListVisibility: options.messageListVisibility,
+          color: options.color,
+        },
+      }));
+
+      this.labelCache.delete(userId);
+      return response.data as Label;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async deleteLabel(userId: string = 'me', labelId: string): Promise<void> {
+    const [id] = (await this.resolveLabelIds(userId, [labelId], 'labelId')) as string[];
+    try {
+      await this.withRetry(() => this.gmail.users.labels.delete({ userId, id }));
+      this.labelCache.delete(userId);
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Gmail shows "A/B" nested under "A" only when "A" exists, so create any
+  // missing ancestors first
+  private async createParentLabels(userId: string, name: string): Promise<void> {
+    const parents = parentLabelNames(name);
+    if (parents.length === 0) {
+      return;
+    }
+
+    const labels = await this.listLabels(userId);
+    try {
+      for (const parent of parents) {
+        if (!findLabel(labels, parent)) {
+          const response = await this.withRetry(
+            () => this.gmail.users.labels.create({ userId, requestBody: { name: parent } }),
+            { idempotent: false }
+          );
+          labels.push(response.data as Label);
+        }
+      }
     } catch (error) {
       this.handleError(error);
     }
   }
 
   async modifyMessageLabels(userId: string = 'me', messageId: string, options: ModifyLabelsOptions): Promise<Message> {
+    const addLabelIds = await this.resolveLabelIds(userId, options.addLabelIds, 'addLabelIds');
+    const removeLabelIds = await this.resolveLabelIds(userId, options.removeLabelIds, 'removeLabelIds');
     try {
-      const response = await this.gmail.users.messages.modify({
+      const response = await this.withRetry(() => this.gmail.users.messages.modify({
         userId,
         id: messageId,
         requestBody: {
-          addLabelIds: options.addLabelIds,
-          removeLabelIds: options.removeLabelIds,
+          addLabelIds,
+          removeLabelIds,
         },
-      });
+      }));
 
       return response.data as Message;
     } catch (error) {
@@ -155,12 +727,67 @@ class GmailClient {
     }
   }
 
+  async batchModifyMessages(userId: string = 'me', messageIds: string[], options: ModifyLabelsOptions): Promise<void> {
+    const addLabelIds = await this.resolveLabelIds(userId, options.addLabelIds, 'addLabelIds');
+    const removeLabelIds = await this.resolveLabelIds(userId, options.removeLabelIds, 'removeLabelIds');
+    try {
+      for (let start = 0; start < messageIds.length; start += MAX_BULK_IDS) {
+        await this.withRetry(() => this.gmail.users.messages.batchModify({
+          userId,
+          requestBody: {
+            ids: messageIds.slice(start, start + MAX_BULK_IDS),
+            addLabelIds,
+            removeLabelIds,
+          },
+        }));
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async batchDeleteMessages(userId: string = 'me', messageIds: string[]): Promise<void> {
+    try {
+      for (let start = 0; start < messageIds.length; start += MAX_BULK_IDS) {
+        await this.withRetry(() => this.gmail.users.messages.batchDelete({
+          userId,
+          requestBody: { ids: messageIds.slice(start, start + MAX_BULK_IDS) },
+        }));
+      }
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async modifyMatching(
+    userId: string = 'me',
+    query: string,
+    changes: ModifyLabelsOptions,
+    options: ModifyMatchingOptions = {}
+  ): Promise<ModifyMatchingResult> {
+    // Resolve names up front so an unknown label fails before the search runs
+    const resolved = {
+      addLabelIds: await this.resolveLabelIds(userId, changes.addLabelIds, 'addLabelIds'),
+      removeLabelIds: await this.resolveLabelIds(userId, changes.removeLabelIds, 'removeLabelIds'),
+    };
+
+    // Collect every match before modifying, since label changes can move
+    // messages out of the query and shift later pages
+    const messageIds: string[] = [];
+    for await (const message of this.iterateMessages(userId, query, { ...options, pageSize: 500 })) {
+      messageIds.push(message.id);
+    }
+
+    await this.batchModifyMessages(userId, messageIds, resolved);
+    return { modified: messageIds.length };
+  }
+
   async trashMessage(userId: string = 'me', messageId: string): Promise<Message> {
     try {
-      const response = await this.gmail.users.messages.trash({
+      const response = await this.withRetry(() => this.gmail.users.messages.trash({
         userId,
         id: messageId,
-      });
+      }));
 
       return response.data as Message;
     } catch (error) {
@@ -170,10 +797,10 @@ class GmailClient {
 
   async untrashMessage(userId: string = 'me', messageId: string): Promise<Message> {
     try {
-      const response = await this.gmail.users.messages.untrash({
+      const response = await this.withRetry(() => this.gmail.users.messages.untrash({
         userId,
         id: messageId,
-      });
+      }));
 
       return response.data as Message;
     } catch (error) {
@@ -183,13 +810,13 @@ class GmailClient {
 
   async archiveMessage(userId: string = 'me', messageId: string): Promise<Message> {
     try {
-      const response = await this.gmail.users.messages.modify({
+      const response = await this.withRetry(() => this.gmail.users.messages.modify({
         userId,
         id: messageId,
         requestBody: {
           removeLabelIds: ['INBOX'],
         },
-      });
+      }));
 
       return response.data as Message;
     } catch (error) {
@@ -199,13 +826,13 @@ class GmailClient {
 
   async unarchiveMessage(userId: string = 'me', messageId: string): Promise<Message> {
     try {
-      const response = await this.gmail.users.messages.modify({
+      const response = await this.withRetry(() => this.gmail.users.messages.modify({
         userId,
         id: messageId,
         requestBody: {
           addLabelIds: ['INBOX'],
         },
-      });
+      }));
 
       return response.data as Message;
     } catch (error) {
@@ -214,58 +841,400 @@ class GmailClient {
   }
 
   async listThreads(userId: string = 'me', options?: ListThreadsOptions): Promise<Thread[]> {
+    return (await this.listThreadsPage(userId, options)).threads;
+  }
+
+  async listThreadsPage(userId: string = 'me', options?: ListThreadsOptions): Promise<ThreadPage> {
+    const labelIds = await this.resolveLabelIds(userId, options?.labelIds);
     try {
-      const response = await this.gmail.users.threads.list({
+      const response = await this.withRetry(() => this.gmail.users.threads.list({
         userId,
         q: options?.q,
         maxResults: options?.maxResults,
         pageToken: options?.pageToken,
         includeSpamTrash: options?.includeSpamTrash,
-        labelIds: options?.labelIds,
-      });
+        labelIds,
+      }, { signal: options?.signal }));
 
-      return (response.data.threads || []) as Thread[];
+      return {
+        threads: (response.data.threads || []) as Thread[],
+        nextPageToken: response.data.nextPageToken || undefined,
+        resultSizeEstimate: response.data.resultSizeEstimate ?? undefined,
+      };
     } catch (error) {
       this.handleError(error);
     }
   }
 
-  async getThread(userId: string = 'me', threadId: string, format: 'full' | 'minimal' | 'metadata' = 'full'): Promise<Thread> {
+  iterateThreads(userId: string = 'me', query?: string, options: IterateThreadsOptions = {}): AsyncGenerator<Thread> {
+    const format = options.format;
+    return paginate<Thread>(
+      async (pageToken, maxResults, signal) => {
+        const page = await this.listThreadsPage(userId, {
+          q: query,
+          maxResults,
+          pageToken,
+          includeSpamTrash: options.includeSpamTrash,
+          labelIds: options.labelIds,
+          signal,
+        });
+        return { items: page.threads, nextPageToken: page.nextPageToken };
+      },
+      {
+        limit: options.limit,
+        pageSize: options.pageSize,
+        concurrency: options.concurrency,
+        signal: options.signal,
+        hydrate: format ? (stub) => this.getThread(userId, stub.id, format) : undefined,
+      }
+    );
+  }
+
+  async getThread(userId: string | undefined, threadId: string, format: 'parsed'): Promise<ParsedThread>;
+  async getThread(userId: string | undefined, threadId: string, format?: 'full' | 'minimal' | 'metadata'): Promise<Thread>;
+  async getThread(userId: string = 'me', threadId: string, format: 'full' | 'minimal' | 'metadata' | 'parsed' = 'full'): Promise<Thread | ParsedThread> {
     try {
-      const response = await this.gmail.users.threads.get({
+      const response = await this.withRetry(() => this.gmail.users.threads.get({
         userId,
         id: threadId,
-        format,
+        format: format === 'parsed' ? 'full' : format,
+      }));
+
+      const thread = response.data as Thread;
+      return format === 'parsed' ? parseThread(thread) : thread;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async listHistoryPage(userId: string = 'me', startHistoryId: string, options: ListHistoryOptions = {}): Promise<HistoryPage> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.history.list({
+        userId,
+        startHistoryId,
+        labelId: options.labelId,
+        historyTypes: options.historyTypes,
+        maxResults: options.maxResults,
+        pageToken: options.pageToken,
+      }));
+
+      return {
+        events: historyToEvents((response.data.history || []) as HistoryRecord[]),
+        historyId: response.data.historyId || startHistoryId,
+        nextPageToken: response.data.nextPageToken || undefined,
+      };
+    } catch (error) {
+      // Gmail answers 404 when the start point is older than the history it keeps
+      if (getErrorStatus(error) === 404) {
+        throw new GmailHistoryExpiredError(startHistoryId);
+      }
+      this.handleError(error);
+    }
+  }
+
+  // Replay changes since the given or stored history ID, falling back to a
+  // full listing when there is no checkpoint or it has expired. The new
+  // checkpoint is saved only after the sync completes.
+  async syncMailbox(userId: string = 'me', options: SyncOptions = {}): Promise<SyncResult> {
+    const key = options.key ?? userId;
+    const startHistoryId = options.startHistoryId ?? (await options.store?.load(key));
+
+    let result: SyncResult;
+    if (!startHistoryId) {
+      result = await this.fullSync(userId, options, 'no-checkpoint');
+    } else {
+      try {
+        result = await this.incrementalSync(userId, startHistoryId, options);
+      } catch (error) {
+        if (!(error instanceof GmailHistoryExpiredError)) {
+          throw error;
+        }
+        result = await this.fullSync(userId, options, 'history-expired');
+      }
+    }
+
+    await options.store?.save(key, result.historyId);
+    return result;
+  }
+
+  private async incrementalSync(userId: string, startHistoryId: string, options: SyncOptions): Promise<SyncResult> {
+    const events: HistoryEvent[] = [];
+    let historyId = startHistoryId;
+    let pageToken: string | undefined;
+
+    do {
+      const page = await this.listHistoryPage(userId, startHistoryId, {
+        labelId: options.labelId,
+        historyTypes: options.historyTypes,
+        maxResults: 500,
+        pageToken,
       });
+      events.push(...page.events);
+      historyId = page.historyId;
+      pageToken = page.nextPageToken;
+    } while (pageToken);
+
+    return { mode: 'incremental', historyId, events };
+  }
+
+  private async fullSync(userId: string, options: SyncOptions, reason: SyncResult['reason']): Promise<SyncResult> {
+    // Read the history ID before listing so changes made while listing are
+    // replayed by the next incremental sync rather than lost
+    const { historyId } = await this.getProfile(userId);
+    if (!historyId) {
+      throw new Error('Gmail profile did not include a historyId');
+    }
+
+    const messages: Message[] = [];
+    const iterator = this.iterateMessages(userId, options.fullSyncQuery, {
+      labelIds: options.labelId ? [options.labelId] : undefined,
+      pageSize: 500,
+    });
+    for await (const message of iterator) {
+      messages.push(message);
+    }
+
+    return { mode: 'full', reason, historyId, events: [], messages };
+  }
 
-      return response.data as Thread;
+  async listFilters(userId: string = 'me'): Promise<Filter[]> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.filters.list({ userId }));
+      return (response.data.filter || []) as Filter[];
     } catch (error) {
       this.handleError(error);
     }
   }
 
-  private buildMessage(options: SendMessageOptions | CreateDraftOptions): string {
-    const to = Array.isArray(options.to) ? options.to.join(',') : options.to;
-    const subject = options.subject || '(no subject)';
-    const body = options.body || '';
-    const contentType = 'html' in options && options.html ? 'text/html' : 'text/plain';
+  async getFilter(userId: string = 'me', filterId: string): Promise<Filter> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.filters.get({ userId, id: filterId }));
+      return response.data as Filter;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
 
-    const headers = [
-      `To: ${to}`,
-      `Subject: ${subject}`,
-      `Content-Type: ${contentType}; charset="UTF-8"`,
-      `MIME-Version: 1.0`,
-    ];
+  async createFilter(userId: string = 'me', options: CreateFilterOptions): Promise<Filter> {
+    validateFilterCriteria(options.criteria);
+    const action = buildFilterAction(options.action);
+    const addLabelIds = await this.resolveLabelIds(userId, action.addLabelIds, 'action.addLabelIds');
+    const removeLabelIds = await this.resolveLabelIds(userId, action.removeLabelIds, 'action.removeLabelIds');
 
-    if ('inReplyTo' in options && options.inReplyTo) {
-      headers.push(`In-Reply-To: ${options.inReplyTo}`);
-      headers.push(`References: ${options.inReplyTo}`);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.filters.create({
+        userId,
+        requestBody: {
+          criteria: options.criteria,
+          action: { addLabelIds, removeLabelIds, forward: action.forward },
+        },
+      }), { idempotent: false });
+
+      return response.data as Filter;
+    } catch (error) {
+      this.handleError(error);
     }
+  }
 
-    return `${headers.join('\r\n')}\r\n\r\n${body}`;
+  async deleteFilter(userId: string = 'me', filterId: string): Promise<void> {
+    try {
+      await this.withRetry(() => this.gmail.users.settings.filters.delete({ userId, id: filterId }));
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Suggest filter criteria matching future mail like an existing message
+  async suggestFilterCriteria(userId: string = 'me', messageId: string, options?: SuggestFilterOptions): Promise<FilterCriteria> {
+    const message = await this.getMessage(userId, messageId, 'parsed');
+    return suggestFilterCriteria(message, options);
+  }
+
+  async getVacation(userId: string = 'me'): Promise<VacationSettings> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.getVacation({ userId }));
+      return response.data as VacationSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Gmail replaces the whole vacation setting, so unspecified fields keep
+  // their current values
+  async updateVacation(userId: string = 'me', options: UpdateVacationOptions): Promise<VacationSettings> {
+    const startTime = options.startTime === undefined ? undefined : toEpochMillis(options.startTime, 'startTime');
+    const endTime = options.endTime === undefined ? undefined : toEpochMillis(options.endTime, 'endTime');
+    if (startTime && endTime && Number(endTime) <= Number(startTime)) {
+      throw new GmailValidationError('endTime', 'must be after startTime');
+    }
+
+    const current = await this.getVacation(userId);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.updateVacation({
+        userId,
+        requestBody: mergeSettings<VacationSettings>(current, { ...options, startTime, endTime }),
+      }));
+
+      return response.data as VacationSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async listSendAs(userId: string = 'me'): Promise<SendAs[]> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.sendAs.list({ userId }));
+      return (response.data.sendAs || []) as SendAs[];
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getSendAs(userId: string = 'me', sendAsEmail: string): Promise<SendAs> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.sendAs.get({ userId, sendAsEmail }));
+      return response.data as SendAs;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async updateSendAs(userId: string = 'me', sendAsEmail: string, options: UpdateSendAsOptions): Promise<SendAs> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.sendAs.patch({
+        userId,
+        sendAsEmail,
+        requestBody: options,
+      }));
+
+      return response.data as SendAs;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getAutoForwarding(userId: string = 'me'): Promise<AutoForwarding> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.getAutoForwarding({ userId }));
+      return response.data as AutoForwarding;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // The target must already be a verified forwarding address
+  async updateAutoForwarding(userId: string = 'me', options: Partial<AutoForwarding>): Promise<AutoForwarding> {
+    const current = await this.getAutoForwarding(userId);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.updateAutoForwarding({
+        userId,
+        requestBody: mergeSettings(current, options),
+      }));
+
+      return response.data as AutoForwarding;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async listForwardingAddresses(userId: string = 'me'): Promise<ForwardingAddress[]> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.forwardingAddresses.list({ userId }));
+      return (response.data.forwardingAddresses || []) as ForwardingAddress[];
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getImap(userId: string = 'me'): Promise<ImapSettings> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.getImap({ userId }));
+      return response.data as ImapSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async updateImap(userId: string = 'me', options: Partial<ImapSettings>): Promise<ImapSettings> {
+    const current = await this.getImap(userId);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.updateImap({
+        userId,
+        requestBody: mergeSettings(current, options),
+      }));
+
+      return response.data as ImapSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async getPop(userId: string = 'me'): Promise<PopSettings> {
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.getPop({ userId }));
+      return response.data as PopSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async updatePop(userId: string = 'me', options: PopSettings): Promise<PopSettings> {
+    const current = await this.getPop(userId);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.settings.updatePop({
+        userId,
+        requestBody: mergeSettings(current, options),
+      }));
+
+      return response.data as PopSettings;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Ask Gmail to publish mailbox changes to a Pub/Sub topic
+  // (projects/<project>/topics/<topic>). The topic must grant publish rights
+  // to gmail-api-push@system.gserviceaccount.com.
+  async watch(userId: string = 'me', topicName: string, options: WatchOptions = {}): Promise<WatchResponse> {
+    const labelIds = await this.resolveLabelIds(userId, options.labelIds);
+    try {
+      const response = await this.withRetry(() => this.gmail.users.watch({
+        userId,
+        requestBody: {
+          topicName,
+          labelIds,
+          labelFilterBehavior: options.labelFilterBehavior,
+        },
+      }));
+
+      return response.data as WatchResponse;
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  async stopWatch(userId: string = 'me'): Promise<void> {
+    try {
+      await this.withRetry(() => this.gmail.users.stop({ userId }));
+    } catch (error) {
+      this.handleError(error);
+    }
+  }
+
+  // Register a watch and keep renewing it before the 7-day expiry
+  startWatchRenewal(
+    userId: string = 'me',
+    topicName: string,
+    options: WatchOptions & WatchRenewalOptions = {}
+  ): WatchRenewal {
+    return scheduleWatchRenewal(() => this.watch(userId, topicName, options), options);
   }
 
   private handleError(error: unknown): never {
+    // Rejected input never reached the API; let it through unlogged
+    if (error instanceof GmailValidationError) {
+      throw error;
+    }
     if (error instanceof Error) {
       console.error(`Gmail API error: ${error.message}`);
       throw error;
@@ -276,72 +1245,319 @@ class GmailClient {
 }
 
 export function createGmailClient(options?: GmailClientOptions): GmailClient {
+  const retry = options?.retry ?? retryPolicyFromEnv();
+  if (options?.authClient) {
+    return new GmailClient(options.authClient, { retry });
+  }
+  if (options?.serviceAccount) {
+    return new GmailClient(createServiceAccountClient(options.serviceAccount), { retry });
+  }
+
+  const persist = options?.persistTokens !== false;
+  const onTokensRefreshed = options?.onTokensRefreshed;
+  const store = options?.tokens ? undefined : options?.store ?? tokenStoreFromEnv();
+  if (store) {
+    return new GmailClient(store, { store: persist ? store : undefined, onTokensRefreshed, retry });
+  }
+
   const tokens = resolveTokens(options?.tokens);
-  return new GmailClient(tokens);
+  const tokenFile = !options?.tokens && persist ? resolveTokenFile() : undefined;
+  return new GmailClient(tokens, { store: tokenFile ? new FileTokenStore(tokenFile) : undefined, onTokensRefreshed, retry });
 }
 
 // Export individual functions that use default client
 export async function listMessages(userId?: string, options?: ListMessagesOptions, tokens?: Tokens): Promise<Message[]> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.listMessages(userId, options);
 }
 
-export async function getMessage(messageId: string, tokens?: Tokens, format?: 'full' | 'minimal' | 'raw' | 'metadata'): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
-  return client.getMessage('me', messageId, format);
+export async function listMessagesPage(userId?: string, options?: ListMessagesOptions, tokens?: Tokens): Promise<MessagePage> {
+  const client = createGmailClient({ tokens });
+  return client.listMessagesPage(userId, options);
+}
+
+export function iterateMessages(query?: string, options?: IterateMessagesOptions, tokens?: Tokens): AsyncGenerator<Message> {
+  const client = createGmailClient({ tokens });
+  return client.iterateMessages('me', query, options);
+}
+
+export async function getMessage(messageId: string, tokens: Tokens | undefined, format: 'parsed'): Promise<ParsedMessage>;
+export async function getMessage(messageId: string, tokens?: Tokens, format?: MessageFormat): Promise<Message>;
+export async function getMessage(messageId: string, tokens?: Tokens, format?: MessageFormat | 'parsed'): Promise<Message | ParsedMessage> {
+  const client = createGmailClient({ tokens });
+  // Both branches are needed so `format` narrows to a single overload
+  return format === 'parsed' ? client.getMessage('me', messageId, format) : client.getMessage('me', messageId, format);
+}
+
+export async function getMessages(messageIds: string[], tokens?: Tokens, format?: MessageFormat): Promise<BatchMessageResult[]> {
+  const client = createGmailClient({ tokens });
+  return client.getMessages('me', messageIds, format);
+}
+
+export async function listAttachments(messageId: string, tokens?: Tokens): Promise<AttachmentInfo[]> {
+  const client = createGmailClient({ tokens });
+  return client.listAttachments('me', messageId);
+}
+
+export async function getAttachment(messageId: string, attachmentId: string, tokens?: Tokens): Promise<Attachment> {
+  const client = createGmailClient({ tokens });
+  return client.getAttachment('me', messageId, attachmentId);
 }
 
 export async function searchMessages(query: string, tokens?: Tokens, options?: Omit<ListMessagesOptions, 'q'>): Promise<Message[]> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.searchMessages('me', query, options);
 }
 
+export async function searchMessagesPage(query: string, tokens?: Tokens, options?: Omit<ListMessagesOptions, 'q'>): Promise<MessagePage> {
+  const client = createGmailClient({ tokens });
+  return client.searchMessagesPage('me', query, options);
+}
+
 export async function sendMessage(options: SendMessageOptions, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.sendMessage('me', options);
 }
 
 export async function createDraft(options: CreateDraftOptions, tokens?: Tokens): Promise<Draft> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.createDraft('me', options);
 }
 
+export async function listDrafts(tokens?: Tokens, options?: ListDraftsOptions): Promise<Draft[]> {
+  const client = createGmailClient({ tokens });
+  return client.listDrafts('me', options);
+}
+
+export async function listDraftsPage(tokens?: Tokens, options?: ListDraftsOptions): Promise<DraftPage> {
+  const client = createGmailClient({ tokens });
+  return client.listDraftsPage('me', options);
+}
+
+export async function getDraft(draftId: string, tokens?: Tokens, format?: MessageFormat): Promise<Draft> {
+  const client = createGmailClient({ tokens });
+  return client.getDraft('me', draftId, format);
+}
+
+export async function updateDraft(draftId: string, options: CreateDraftOptions, tokens?: Tokens): Promise<Draft> {
+  const client = createGmailClient({ tokens });
+  return client.updateDraft('me', draftId, options);
+}
+
+export async function deleteDraft(draftId: string, tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.deleteDraft('me', draftId);
+}
+
+export async function sendDraft(draftId: string, tokens?: Tokens): Promise<Message> {
+  const client = createGmailClient({ tokens });
+  return client.sendDraft('me', draftId);
+}
+
+export async function getProfile(tokens?: Tokens): Promise<Profile> {
+  const client = createGmailClient({ tokens });
+  return client.getProfile();
+}
+
+export async function replyToMessage(messageId: string, options?: ReplyOptions, mode?: ReplyMode, tokens?: Tokens): Promise<Message> {
+  const client = createGmailClient({ tokens });
+  return client.replyToMessage('me', messageId, options, mode);
+}
+
+export async function forwardMessage(messageId: string, to: string | string[], options?: ForwardOptions, tokens?: Tokens): Promise<Message> {
+  const client = createGmailClient({ tokens });
+  return client.forwardMessage('me', messageId, to, options);
+}
+
 export async function listLabels(tokens?: Tokens): Promise<Label[]> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.listLabels();
 }
 
+export async function getLabel(labelId: string, tokens?: Tokens): Promise<Label> {
+  const client = createGmailClient({ tokens });
+  return client.getLabel('me', labelId);
+}
+
+export async function createLabel(options: CreateLabelOptions, tokens?: Tokens): Promise<Label> {
+  const client = createGmailClient({ tokens });
+  return client.createLabel('me', options);
+}
+
+export async function updateLabel(labelId: string, options: UpdateLabelOptions, tokens?: Tokens): Promise<Label> {
+  const client = createGmailClient({ tokens });
+  return client.updateLabel('me', labelId, options);
+}
+
+export async function deleteLabel(labelId: string, tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.deleteLabel('me', labelId);
+}
+
 export async function modifyMessageLabels(messageId: string, options: ModifyLabelsOptions, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.modifyMessageLabels('me', messageId, options);
 }
 
+export async function batchModifyMessages(messageIds: string[], options: ModifyLabelsOptions, tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.batchModifyMessages('me', messageIds, options);
+}
+
+export async function batchDeleteMessages(messageIds: string[], tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.batchDeleteMessages('me', messageIds);
+}
+
+export async function modifyMatching(
+  query: string,
+  changes: ModifyLabelsOptions,
+  tokens?: Tokens,
+  options?: ModifyMatchingOptions
+): Promise<ModifyMatchingResult> {
+  const client = createGmailClient({ tokens });
+  return client.modifyMatching('me', query, changes, options);
+}
+
 export async function trashMessage(messageId: string, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.trashMessage('me', messageId);
 }
 
 export async function untrashMessage(messageId: string, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.untrashMessage('me', messageId);
 }
 
 export async function listThreads(tokens?: Tokens, options?: ListThreadsOptions): Promise<Thread[]> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.listThreads('me', options);
 }
 
-export async function getThread(threadId: string, tokens?: Tokens, format?: 'full' | 'minimal' | 'metadata'): Promise<Thread> {
-  const client = new GmailClient(resolveTokens(tokens));
-  return client.getThread('me', threadId, format);
+export async function listThreadsPage(tokens?: Tokens, options?: ListThreadsOptions): Promise<ThreadPage> {
+  const client = createGmailClient({ tokens });
+  return client.listThreadsPage('me', options);
+}
+
+export function iterateThreads(query?: string, options?: IterateThreadsOptions, tokens?: Tokens): AsyncGenerator<Thread> {
+  const client = createGmailClient({ tokens });
+  return client.iterateThreads('me', query, options);
+}
+
+export async function getThread(threadId: string, tokens: Tokens | undefined, format: 'parsed'): Promise<ParsedThread>;
+export async function getThread(threadId: string, tokens?: Tokens, format?: 'full' | 'minimal' | 'metadata'): Promise<Thread>;
+export async function getThread(threadId: string, tokens?: Tokens, format?: 'full' | 'minimal' | 'metadata' | 'parsed'): Promise<Thread | ParsedThread> {
+  const client = createGmailClient({ tokens });
+  // Both branches are needed so `format` narrows to a single overload
+  return format === 'parsed' ? client.getThread('me', threadId, format) : client.getThread('me', threadId, format);
 }
 
 export async function archiveMessage(messageId: string, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.archiveMessage('me', messageId);
 }
 
 export async function unarchiveMessage(messageId: string, tokens?: Tokens): Promise<Message> {
-  const client = new GmailClient(resolveTokens(tokens));
+  const client = createGmailClient({ tokens });
   return client.unarchiveMessage('me', messageId);
 }
+
+export async function listHistoryPage(startHistoryId: string, tokens?: Tokens, options?: ListHistoryOptions): Promise<HistoryPage> {
+  const client = createGmailClient({ tokens });
+  return client.listHistoryPage('me', startHistoryId, options);
+}
+
+export async function syncMailbox(tokens?: Tokens, options?: SyncOptions): Promise<SyncResult> {
+  const client = createGmailClient({ tokens });
+  return client.syncMailbox('me', options);
+}
+
+export async function watch(topicName: string, tokens?: Tokens, options?: WatchOptions): Promise<WatchResponse> {
+  const client = createGmailClient({ tokens });
+  return client.watch('me', topicName, options);
+}
+
+export async function stopWatch(tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.stopWatch('me');
+}
+
+export async function listFilters(tokens?: Tokens): Promise<Filter[]> {
+  const client = createGmailClient({ tokens });
+  return client.listFilters('me');
+}
+
+export async function getFilter(filterId: string, tokens?: Tokens): Promise<Filter> {
+  const client = createGmailClient({ tokens });
+  return client.getFilter('me', filterId);
+}
+
+export async function createFilter(options: CreateFilterOptions, tokens?: Tokens): Promise<Filter> {
+  const client = createGmailClient({ tokens });
+  return client.createFilter('me', options);
+}
+
+export async function deleteFilter(filterId: string, tokens?: Tokens): Promise<void> {
+  const client = createGmailClient({ tokens });
+  return client.deleteFilter('me', filterId);
+}
+
+export async function getVacation(tokens?: Tokens): Promise<VacationSettings> {
+  const client = createGmailClient({ tokens });
+  return client.getVacation('me');
+}
+
+export async function updateVacation(options: UpdateVacationOptions, tokens?: Tokens): Promise<VacationSettings> {
+  const client = createGmailClient({ tokens });
+  return client.updateVacation('me', options);
+}
+
+export async function listSendAs(tokens?: Tokens): Promise<SendAs[]> {
+  const client = createGmailClient({ tokens });
+  return client.listSendAs('me');
+}
+
+export async function getSendAs(sendAsEmail: string, tokens?: Tokens): Promise<SendAs> {
+  const client = createGmailClient({ tokens });
+  return client.getSendAs('me', sendAsEmail);
+}
+
+export async function updateSendAs(sendAsEmail: string, options: UpdateSendAsOptions, tokens?: Tokens): Promise<SendAs> {
+  const client = createGmailClient({ tokens });
+  return client.updateSendAs('me', sendAsEmail, options);
+}
+
+export async function getAutoForwarding(tokens?: Tokens): Promise<AutoForwarding> {
+  const client = createGmailClient({ tokens });
+  return client.getAutoForwarding('me');
+}
+
+export async function updateAutoForwarding(options: Partial<AutoForwarding>, tokens?: Tokens): Promise<AutoForwarding> {
+  const client = createGmailClient({ tokens });
+  return client.updateAutoForwarding('me', options);
+}
+
+export async function listForwardingAddresses(tokens?: Tokens): Promise<ForwardingAddress[]> {
+  const client = createGmailClient({ tokens });
+  return client.listForwardingAddresses('me');
+}
+
+export async function getImap(tokens?: Tokens): Promise<ImapSettings> {
+  const client = createGmailClient({ tokens });
+  return client.getImap('me');
+}
+
+export async function updateImap(options: Partial<ImapSettings>, tokens?: Tokens): Promise<ImapSettings> {
+  const client = createGmailClient({ tokens });
+  return client.updateImap('me', options);
+}
+
+export async function getPop(tokens?: Tokens): Promise<PopSettings> {
+  const client = createGmailClient({ tokens });
+  return client.getPop('me');
+}
+
+export async function updatePop(options: PopSettings, tokens?: Tokens): Promise<PopSettings> {
+  const client = createGmailClient({ tokens });
+  return client.updatePop('me', options);
+}
@@ -0,0 +1,36 @@
+import { Label } from './types';
+import { GmailValidationError } from './errors';
+
+const SYSTEM_LABEL_ID = /^(INBOX|SPAM|TRASH|UNREAD|STARRED|IMPORTANT|SENT|DRAFT|CHAT|CATEGORY_[A-Z]+)$/;
+const USER_LABEL_ID = /^Label_\d+$/;
+
+// True for values that are already label IDs and need no lookup.
+export function isLabelId(value: string): boolean {
+  return SYSTEM_LABEL_ID.test(value) || USER_LABEL_ID.test(value);
+}
+
+// Trim each level of a nested name ("Projects / Acme" -> "Projects/Acme").
+export function normalizeLabelName(name: string, field = 'name'): string {
+  const segments = name.split('/').map((segment) => segment.trim());
+  if (segments.some((segment) => !segment)) {
+    throw new GmailValidationError(field, `label name "${name}" has an empty level`);
+  }
+  return segments.join('/');
+}
+
+// Find a label by exact ID, or by name ignoring case the way Gmail does.
+export function findLabel(labels: Label[], nameOrId: string): Label | undefined {
+  const byId = labels.find((label) => label.id === nameOrId);
+  if (byId) {
+    return byId;
+  }
+
+  const wanted = nameOrId.split('/').map((segment) => segment.trim()).join('/').toLowerCase();
+  return labels.find((label) => label.name.toLowerCase() === wanted);
+}
+
+// Every ancestor of a nested label name, outermost first.
+export function parentLabelNames(name: string): string[] {
+  const segments = name.split('/');
+  return segments.slice(1).map((_, index) => segments.slice(0, index + 1).join('/'));
+}
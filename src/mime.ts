@@ -0,0 +1,201 @@
+import * as fs from 'fs';
+import { randomBytes } from 'crypto';
+import { resolveBodies } from './html';
+import { formatAddressList, parseAddressList } from './address';
+import { GmailValidationError } from './errors';
+import {
+  encodeHeaderValue,
+  encodeParameter,
+  encodeTextBody,
+  foldHeader,
+  isPrintableAscii,
+  wrapBase64,
+} from './encoding';
+import { AddressListItem, SendMessageOptions, CreateDraftOptions, OutgoingAttachment } from './types';
+
+interface MimeNode {
+  headers: string[];
+  body?: string;
+  children?: MimeNode[];
+  subtype?: string;
+}
+
+const CRLF = '\r\n';
+
+// Headers the builder writes itself; custom headers may not override them
+const RESERVED_HEADERS = [
+  'from',
+  'to',
+  'cc',
+  'bcc',
+  'reply-to',
+  'subject',
+  'in-reply-to',
+  'references',
+  'mime-version',
+  'content-type',
+  'content-transfer-encoding',
+  'content-disposition',
+];
+
+export function buildMessage(options: SendMessageOptions | CreateDraftOptions): string {
+  const subject = sanitizeHeaderText(options.subject || '(no subject)');
+
+  const to = parseAddresses(options.to ?? [], 'to');
+  if (to.length === 0) {
+    throw new GmailValidationError('to', 'at least one recipient is required');
+  }
+
+  const headers: string[] = [];
+  if (options.from) {
+    headers.push(addressHeader('From', parseAddresses(options.from, 'from')));
+  }
+  headers.push(addressHeader('To', to));
+  if (options.cc) {
+    headers.push(addressHeader('Cc', parseAddresses(options.cc, 'cc')));
+  }
+  // Gmail strips Bcc from the delivered copy but uses it for routing
+  if (options.bcc) {
+    headers.push(addressHeader('Bcc', parseAddresses(options.bcc, 'bcc')));
+  }
+  if (options.replyTo) {
+    headers.push(addressHeader('Reply-To', parseAddresses(options.replyTo, 'replyTo')));
+  }
+  headers.push(`Subject: ${encodeHeaderValue(subject, 'Subject: '.length)}`);
+
+  if ('inReplyTo' in options && options.inReplyTo) {
+    const inReplyTo = assertSingleLine(options.inReplyTo, 'inReplyTo');
+    const references = options.references && options.references.length > 0
+      ? options.references.map((id) => assertSingleLine(id, 'references'))
+      : [inReplyTo];
+    headers.push(`In-Reply-To: ${inReplyTo}`);
+    headers.push(`References: ${references.join(' ')}`);
+  }
+
+  for (const [name, value] of Object.entries(options.headers || {})) {
+    if (!/^[!-9;-~]+$/.test(name)) {
+      throw new GmailValidationError('headers', `"${name}" is not a valid header name`);
+    }
+    if (RESERVED_HEADERS.includes(name.toLowerCase())) {
+      throw new GmailValidationError('headers', `"${name}" cannot be set through custom headers`);
+    }
+    headers.push(`${name}: ${encodeHeaderValue(sanitizeHeaderText(String(value)), `${name}: `.length)}`);
+  }
+
+  let root = buildBody(options);
+  if (options.attachments && options.attachments.length > 0) {
+    root = {
+      headers: [],
+      subtype: 'mixed',
+      children: [root, ...options.attachments.map(buildAttachmentPart)],
+    };
+  }
+
+  return renderNode(root, [...headers.map(foldHeader), 'MIME-Version: 1.0']);
+}
+
+function parseAddresses(addresses: string | string[], field: string): AddressListItem[] {
+  const list = Array.isArray(addresses) ? addresses : [addresses];
+  return list.flatMap((entry) => parseAddressList(entry, field));
+}
+
+// The first display name is encoded to fit after the header name
+function addressHeader(name: string, items: AddressListItem[]): string {
+  return `${name}: ${formatAddressList(items, `${name}: `.length)}`;
+}
+
+// Free text such as a subject may contain stray line breaks (often from
+// generated content); fold them to spaces so they cannot start a new header.
+function sanitizeHeaderText(value: string): string {
+  return value.replace(/[\r\n]+[ \t]*/g, ' ');
+}
+
+function assertSingleLine(value: string, field: string): string {
+  if (/[\r\n\0]/.test(value)) {
+    throw new GmailValidationError(field, 'line breaks are not allowed');
+  }
+  return value;
+}
+
+function buildBody(options: SendMessageOptions | CreateDraftOptions): MimeNode {
+  const { text, html } = resolveBodies(options);
+  const textPart = buildTextPart('text/plain', text);
+
+  if (html === undefined) {
+    return textPart;
+  }
+
+  return {
+    headers: [],
+    subtype: 'alternative',
+    // Clients render the last alternative they understand, so HTML goes last
+    children: [textPart, buildTextPart('text/html', html)],
+  };
+}
+
+function buildTextPart(contentType: string, text: string): MimeNode {
+  const { encoding, body } = encodeTextBody(text);
+  return {
+    headers: [
+      `Content-Type: ${contentType}; charset="UTF-8"`,
+      `Content-Transfer-Encoding: ${encoding}`,
+    ],
+    body,
+  };
+}
+
+function buildAttachmentPart(attachment: OutgoingAttachment): MimeNode {
+  const contentType = assertSingleLine(attachment.contentType || 'application/octet-stream', 'attachments.contentType');
+  const filename = attachment.filename.replace(/["\\\r\n]/g, '_');
+
+  // Non-ASCII names use RFC 2231 for Content-Disposition and an encoded-word
+  // in the legacy name parameter, which older clients still read. Folding
+  // moves a long parameter onto its own line, where the first encoded-word is
+  // sized to fit after ' name="' with the closing quote.
+  const disposition = isPrintableAscii(filename)
+    ? `filename="${filename}"`
+    : encodeParameter('filename', filename);
+
+  return {
+    headers: [
+      `Content-Type: ${contentType}; name="${encodeHeaderValue(filename, ' name="'.length + 1)}"`,
+      `Content-Disposition: attachment; ${disposition}`,
+      'Content-Transfer-Encoding: base64',
+    ].map(foldHeader),
+    body: wrapBase64(readAttachmentContent(attachment).toString('base64')),
+  };
+}
+
+function readAttachmentContent(attachment: OutgoingAttachment): Buffer {
+  if (attachment.content !== undefined) {
+    return Buffer.isBuffer(attachment.content)
+      ? attachment.content
+      : Buffer.from(attachment.content, 'base64');
+  }
+
+  if (attachment.path) {
+    try {
+      return fs.readFileSync(attachment.path);
+    } catch (error) {
+      throw new Error(`Failed to read attachment file at ${attachment.path}`);
+    }
+  }
+
+  throw new Error(`Attachment "${attachment.filename}" has neither content nor path`);
+}
+
+function renderNode(node: MimeNode, extraHeaders: string[] = []): string {
+  if (!node.children) {
+    return `${[...extraHeaders, ...node.headers].join(CRLF)}${CRLF}${CRLF}${node.body || ''}`;
+  }
+
+  const boundary = `----=_Part_${randomBytes(12).toString('hex')}`;
+  const headers = [
+    ...extraHeaders,
+    ...node.headers,
+    `Content-Type: multipart/${node.subtype}; boundary="${boundary}"`,
+  ];
+  const parts = node.children.map((child) => `--${boundary}${CRLF}${renderNode(child)}`);
+
+  return `${headers.join(CRLF)}${CRLF}${CRLF}${parts.join(CRLF)}${CRLF}--${boundary}--`;
+}
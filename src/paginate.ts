@@ -0,0 +1,70 @@
+export interface PageResult<T> {
+  items: T[];
+  nextPageToken?: string;
+}
+
+export interface PaginateOptions<T, R> {
+  limit?: number;
+  pageSize?: number;
+  concurrency?: number;
+  signal?: AbortSignal;
+  hydrate?: (item: T) => Promise<R>;
+}
+
+// Gmail's list endpoints return at most 500 items per page
+const MAX_PAGE_SIZE = 500;
+const DEFAULT_PAGE_SIZE = 100;
+
+// Follow page tokens until the results, the limit or the abort signal run out.
+// With `hydrate`, items are fetched `concurrency` at a time but still yielded
+// in list order. The signal is handed to `fetchPage` so an abort also cancels
+// the request in flight, which then ends the iteration like any other abort.
+export async function* paginate<T, R = T>(
+  fetchPage: (pageToken: string | undefined, maxResults: number, signal?: AbortSignal) => Promise<PageResult<T>>,
+  options: PaginateOptions<T, R> = {}
+): AsyncGenerator<R> {
+  const limit = options.limit ?? Infinity;
+  const pageSize = Math.min(options.pageSize ?? DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+  const concurrency = Math.max(1, options.concurrency ?? 1);
+  const hydrate = options.hydrate ?? (async (item: T) => item as unknown as R);
+
+  let yielded = 0;
+  let pageToken: string | undefined;
+  if (limit <= 0) {
+    return;
+  }
+
+  do {
+    if (options.signal?.aborted) {
+      return;
+    }
+
+    let page: PageResult<T>;
+    try {
+      page = await fetchPage(pageToken, Math.min(pageSize, limit - yielded), options.signal);
+    } catch (error) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      throw error;
+    }
+
+    const items = page.items.slice(0, limit - yielded);
+
+    for (let i = 0; i < items.length; i += concurrency) {
+      if (options.signal?.aborted) {
+        return;
+      }
+      const batch = await Promise.all(items.slice(i, i + concurrency).map(hydrate));
+      for (const item of batch) {
+        if (options.signal?.aborted) {
+          return;
+        }
+        yield item;
+        yielded++;
+      }
+    }
+
+    pageToken = page.nextPageToken;
+  } while (pageToken && yielded < limit);
+}
@@ -0,0 +1,110 @@
+import { findAttachments } from './attachments';
+import { parseReceivedAddresses } from './address';
+import { decodeCharset, decodeHeaderValue } from './encoding';
+import { EmailAddress, Message, MessagePayload, ParsedMessage, ParsedThread, Thread } from './types';
+
+export function getHeader(payload: MessagePayload | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return payload?.headers?.find((header) => header.name.toLowerCase() === lower)?.value;
+}
+
+export function decodeBodyData(data: string): Buffer {
+  return Buffer.from(data, 'base64url');
+}
+
+function charsetOf(part: MessagePayload): string | undefined {
+  const contentType = getHeader(part, 'Content-Type');
+  return contentType?.match(/charset\s*=\s*"?([^";\s]+)"?/i)?.[1];
+}
+
+// Find the first inline text/plain and text/html bodies of a payload,
+// skipping anything sent as an attachment, and decode them using the charset
+// declared on their part.
+export function extractBodies(payload?: MessagePayload): { text?: string; html?: string } {
+  const bodies: { text?: string; html?: string } = {};
+
+  const walk = (part: MessagePayload) => {
+    if (part.filename || part.body?.attachmentId) {
+      return;
+    }
+    if (part.body?.data) {
+      const decode = () => decodeCharset(decodeBodyData(part.body!.data!), charsetOf(part));
+      if (part.mimeType === 'text/plain' && bodies.text === undefined) {
+        bodies.text = decode();
+      } else if (part.mimeType === 'text/html' && bodies.html === undefined) {
+        bodies.html = decode();
+      }
+    }
+    for (const child of part.parts || []) {
+      walk(child);
+    }
+  };
+
+  if (payload) {
+    walk(payload);
+  }
+
+  return bodies;
+}
+
+// Entries our strict parser rejects keep their display name and address
+function addresses(value: string | undefined): EmailAddress[] {
+  return value ? parseReceivedAddresses(decodeHeaderValue(value)) : [];
+}
+
+function parseDate(header: string | undefined, internalDate: string | undefined): Date | undefined {
+  if (header) {
+    const date = new Date(header.replace(/\s*\([^)]*\)\s*$/, ''));
+    if (!Number.isNaN(date.getTime())) {
+      return date;
+    }
+  }
+  return internalDate ? new Date(Number(internalDate)) : undefined;
+}
+
+// Turn a Gmail API message (format 'full' or 'metadata') into a flat,
+// decoded form: addresses parsed, encoded-words decoded, bodies decoded to
+// strings, and attachments listed.
+export function parseMessage(message: Message): ParsedMessage {
+  const payload = message.payload;
+  const headers: Record<string, string[]> = {};
+  for (const header of payload?.headers || []) {
+    const name = header.name.toLowerCase();
+    (headers[name] = headers[name] || []).push(decodeHeaderValue(header.value));
+  }
+
+  const first = (name: string) => headers[name]?.[0];
+  const raw = (name: string) => getHeader(payload, name);
+  const bodies = extractBodies(payload);
+
+  return {
+    id: message.id,
+    threadId: message.threadId,
+    labelIds: message.labelIds || [],
+    snippet: message.snippet,
+    historyId: message.historyId,
+    from: addresses(raw('From'))[0],
+    to: addresses(raw('To')),
+    cc: addresses(raw('Cc')),
+    bcc: addresses(raw('Bcc')),
+    replyTo: addresses(raw('Reply-To')),
+    subject: first('subject'),
+    date: parseDate(first('date'), message.internalDate),
+    messageId: first('message-id'),
+    inReplyTo: first('in-reply-to'),
+    references: (first('references') || '').split(/\s+/).filter(Boolean),
+    headers,
+    text: bodies.text,
+    html: bodies.html,
+    attachments: findAttachments(payload),
+  };
+}
+
+export function parseThread(thread: Thread): ParsedThread {
+  return {
+    id: thread.id,
+    snippet: thread.snippet,
+    historyId: thread.historyId,
+    messages: (thread.messages || []).map(parseMessage),
+  };
+}
@@ -0,0 +1,190 @@
+import { parseReceivedAddresses } from './address';
+import { GmailValidationError } from './errors';
+import { htmlToText, resolveBodies } from './html';
+import { extractBodies, getHeader } from './parse';
+import {
+  EmailAddress,
+  ForwardOptions,
+  Message,
+  OutgoingAttachment,
+  ReplyMode,
+  ReplyOptions,
+  SendMessageOptions,
+} from './types';
+
+function addPrefix(prefix: string, pattern: RegExp, subject: string | undefined): string {
+  const trimmed = (subject || '').trim();
+  return pattern.test(trimmed) ? trimmed : `${prefix} ${trimmed}`.trim();
+}
+
+// Original header values are not validated the way outgoing ones are; a
+// malformed entry on someone else's mail should not stop us replying to the
+// addresses that can still be read.
+function mailboxes(value: string | undefined): EmailAddress[] {
+  return value ? parseReceivedAddresses(value) : [];
+}
+
+function render(address: EmailAddress): string {
+  return address.name ? `"${address.name.replace(/(["\\])/g, '\\$1')}" <${address.address}>` : address.address;
+}
+
+function dedupe(addresses: EmailAddress[], exclude: Set<string>): EmailAddress[] {
+  const seen = new Set(exclude);
+  return addresses.filter((address) => {
+    const key = address.address.toLowerCase();
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+function originalText(message: Message): string {
+  const bodies = extractBodies(message.payload);
+  return bodies.text ?? (bodies.html !== undefined ? htmlToText(bodies.html) : message.snippet || '');
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// Append quoted content below the caller's text and (when present) HTML bodies
+function withQuote(
+  options: ReplyOptions | ForwardOptions,
+  textQuote: string,
+  htmlQuote: string
+): Pick<SendMessageOptions, 'body' | 'text' | 'html'> {
+  const { text, html } = resolveBodies(options);
+
+  return {
+    text: `${text}\n\n${textQuote}`,
+    html: html === undefined ? undefined : `${html}<br><br>${htmlQuote}`,
+  };
+}
+
+function threading(original: Message): Pick<SendMessageOptions, 'threadId' | 'inReplyTo' | 'references'> {
+  const messageId = getHeader(original.payload, 'Message-ID');
+  const references = (getHeader(original.payload, 'References') || '').split(/\s+/).filter(Boolean);
+  if (messageId && !references.includes(messageId)) {
+    references.push(messageId);
+  }
+
+  return {
+    threadId: original.threadId,
+    inReplyTo: messageId,
+    references: messageId ? references : undefined,
+  };
+}
+
+// Work out recipients, subject and threading headers for a reply to `original`.
+// `ownAddresses` are excluded from the recipients; when the original was sent
+// by us, the reply goes back to its recipients as Gmail does.
+export function buildReplyOptions(
+  original: Message,
+  ownAddresses: string[],
+  options: ReplyOptions = {},
+  mode: ReplyMode = {}
+): SendMessageOptions {
+  const own = new Set(ownAddresses.map((address) => address.toLowerCase()));
+  const payload = original.payload;
+  const from = mailboxes(getHeader(payload, 'From'));
+  const replyTo = mailboxes(getHeader(payload, 'Reply-To'));
+  const originalTo = mailboxes(getHeader(payload, 'To'));
+  const originalCc = mailboxes(getHeader(payload, 'Cc'));
+  const sentByUs = from.some((address) => own.has(address.address.toLowerCase()));
+
+  let to: EmailAddress[];
+  let cc: EmailAddress[] = [];
+  if (sentByUs) {
+    to = originalTo;
+    cc = mode.replyAll ? originalCc : [];
+  } else {
+    to = replyTo.length > 0 ? replyTo : from;
+    if (mode.replyAll) {
+      to = [...to, ...originalTo];
+      cc = originalCc;
+    }
+  }
+
+  // Own addresses are only dropped when someone else is left to reply to
+  const filteredTo = dedupe(to, own);
+  to = filteredTo.length > 0 ? filteredTo : dedupe(to, new Set());
+  if (to.length === 0) {
+    throw new GmailValidationError('to', 'the original message has no address to reply to');
+  }
+  cc = dedupe(cc, new Set([...own, ...to.map((address) => address.address.toLowerCase())]));
+
+  const extraCc = options.cc ? (Array.isArray(options.cc) ? options.cc : [options.cc]) : [];
+  const ccList = [...cc.map(render), ...extraCc];
+
+  let bodies: Pick<SendMessageOptions, 'body' | 'text' | 'html'> = {
+    body: options.body,
+    text: options.text,
+    html: options.html,
+  };
+  if (options.quoteOriginal) {
+    const date = getHeader(payload, 'Date') || '';
+    const sender = getHeader(payload, 'From') || '';
+    const attribution = `On ${date}, ${sender} wrote:`;
+    const quotedText = originalText(original).split(/\r?\n/).map((line) => `> ${line}`).join('\n');
+    const originalHtml = extractBodies(payload).html ?? escapeHtml(originalText(original)).replace(/\r?\n/g, '<br>');
+    bodies = withQuote(
+      options,
+      `${attribution}\n${quotedText}`,
+      `<div class="gmail_quote">${escapeHtml(attribution)}<br><blockquote class="gmail_quote" `
+        + `style="margin:0 0 0 .8ex;border-left:1px solid #ccc;padding-left:1ex">${originalHtml}</blockquote></div>`
+    );
+  }
+
+  return {
+    ...bodies,
+    to: to.map(render),
+    cc: ccList.length > 0 ? ccList : undefined,
+    bcc: options.bcc,
+    from: options.from,
+    subject: addPrefix('Re:', /^re:/i, getHeader(payload, 'Subject')),
+    attachments: options.attachments,
+    headers: options.headers,
+    labelIds: options.labelIds,
+    ...threading(original),
+  };
+}
+
+// Build a forward of `original` to `to`. The original body is always included
+// below a "Forwarded message" separator; `originalAttachments` are appended to
+// any attachments the caller supplied.
+export function buildForwardOptions(
+  original: Message,
+  to: string | string[],
+  options: ForwardOptions = {},
+  originalAttachments: OutgoingAttachment[] = []
+): SendMessageOptions {
+  const payload = original.payload;
+  const summary = ['From', 'Date', 'Subject', 'To', 'Cc']
+    .map((name) => [name, getHeader(payload, name)])
+    .filter(([, value]) => value)
+    .map(([name, value]) => `${name}: ${value}`);
+  const separator = '---------- Forwarded message ---------';
+  const originalHtml = extractBodies(payload).html ?? escapeHtml(originalText(original)).replace(/\r?\n/g, '<br>');
+
+  const bodies = withQuote(
+    options,
+    `${separator}\n${summary.join('\n')}\n\n${originalText(original)}`,
+    `<div class="gmail_quote">${separator}<br>${summary.map(escapeHtml).join('<br>')}<br><br>${originalHtml}</div>`
+  );
+  const attachments = [...(options.attachments || []), ...originalAttachments];
+
+  return {
+    ...bodies,
+    to,
+    cc: options.cc,
+    bcc: options.bcc,
+    from: options.from,
+    subject: addPrefix('Fwd:', /^(fwd?|fw):/i, getHeader(payload, 'Subject')),
+    attachments: attachments.length > 0 ? attachments : undefined,
+    headers: options.headers,
+    labelIds: options.labelIds,
+    ...threading(original),
+  };
+}
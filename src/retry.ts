@@ -0,0 +1,155 @@
+import { RetryPolicy } from './types';
+import { getErrorStatus } from './errors';
+
+export type ResolvedRetryPolicy = Required<Omit<RetryPolicy, 'onRetry'>> & Pick<RetryPolicy, 'onRetry'>;
+
+export const DEFAULT_RETRY_POLICY: ResolvedRetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 30 * 1000,
+  jitter: true,
+  retryNonIdempotent: false,
+};
+
+// Quota rejections; Gmail refused these before doing any work
+const RATE_LIMIT_REASONS = new Set(['rateLimitExceeded', 'userRateLimitExceeded']);
+const SERVER_ERROR_STATUSES = new Set([500, 502, 503, 504]);
+// The connection never opened, so the request cannot have reached Gmail
+const CONNECT_ERROR_CODES = new Set(['ECONNREFUSED', 'ENOTFOUND', 'EAI_AGAIN']);
+// The connection broke mid-request; Gmail may already have processed it
+const DROPPED_CONNECTION_CODES = new Set(['ECONNRESET', 'ETIMEDOUT', 'ESOCKETTIMEDOUT', 'ECONNABORTED', 'EPIPE']);
+
+// Error reasons from the gaxios error or the JSON error body it carries
+function errorReasons(error: object): string[] {
+  const { errors, response } = error as {
+    errors?: unknown;
+    response?: { data?: { error?: { errors?: unknown } } };
+  };
+  const details = [errors, response?.data?.error?.errors].flatMap((value) => (Array.isArray(value) ? value : []));
+  return details.map((detail) => detail?.reason).filter((reason): reason is string => typeof reason === 'string');
+}
+
+/**
+ * Whether a failed call is worth repeating. Rate limits and connections that
+ * never opened are always safe to retry. Server errors and dropped
+ * connections leave it unknown whether the call took effect, so they are
+ * retried only for idempotent calls.
+ */
+export function isRetryableError(error: unknown, idempotent = true): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const status = getErrorStatus(error);
+  if (status === 429 || (status === 403 && errorReasons(error).some((reason) => RATE_LIMIT_REASONS.has(reason)))) {
+    return true;
+  }
+  if (status !== undefined) {
+    return idempotent && SERVER_ERROR_STATUSES.has(status);
+  }
+
+  const code = (error as { code?: unknown }).code;
+  if (typeof code !== 'string') {
+    return false;
+  }
+  return CONNECT_ERROR_CODES.has(code) || (idempotent && DROPPED_CONNECTION_CODES.has(code));
+}
+
+// Retry-After header of a failed call in milliseconds, given either as
+// seconds or as an HTTP date
+export function retryAfterMs(error: unknown): number | undefined {
+  const headers = (error as { response?: { headers?: Record<string, unknown> } } | undefined)?.response?.headers;
+  const value = headers?.['retry-after'] ?? headers?.['Retry-After'];
+  if (typeof value !== 'string' && typeof value !== 'number') {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (String(value).trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+export function resolveRetryPolicy(policy: RetryPolicy | false = {}): ResolvedRetryPolicy {
+  if (policy === false) {
+    return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  }
+  return {
+    maxAttempts: Math.max(1, Math.floor(policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelayMs: policy.baseDelayMs ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: policy.maxDelayMs ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+    jitter: policy.jitter ?? DEFAULT_RETRY_POLICY.jitter,
+    retryNonIdempotent: policy.retryNonIdempotent ?? DEFAULT_RETRY_POLICY.retryNonIdempotent,
+    onRetry: policy.onRetry,
+  };
+}
+
+/**
+ * Delay before retrying after the given failed attempt: exponential backoff,
+ * with full jitter unless turned off. A Retry-After from the server is
+ * waited out in full; undefined when it asks for longer than maxDelayMs.
+ */
+export function retryDelay(policy: ResolvedRetryPolicy, attempt: number, retryAfter?: number): number | undefined {
+  const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  const delay = policy.jitter ? Math.random() * backoff : backoff;
+  if (retryAfter === undefined) {
+    return Math.round(delay);
+  }
+  return retryAfter > policy.maxDelayMs ? undefined : Math.round(Math.max(retryAfter, delay));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Runs `call`, repeating it under the policy while it fails with a retryable
+ * error. Calls that send or create something pass `idempotent: false`.
+ */
+export async function withRetry<T>(
+  call: () => Promise<T>,
+  policy: RetryPolicy | false = {},
+  options: { idempotent?: boolean } = {}
+): Promise<T> {
+  const resolved = resolveRetryPolicy(policy);
+  const idempotent = (options.idempotent ?? true) || resolved.retryNonIdempotent;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      const delayMs = attempt < resolved.maxAttempts && isRetryableError(error, idempotent)
+        ? retryDelay(resolved, attempt, retryAfterMs(error))
+        : undefined;
+      if (delayMs === undefined) {
+        throw error;
+      }
+      resolved.onRetry?.({ attempt, delayMs, error });
+      await sleep(delayMs);
+    }
+  }
+}
+
+// Policy from GMAIL_RETRY_* environment variables; undefined when none is set
+export function retryPolicyFromEnv(): RetryPolicy | undefined {
+  const number = (name: string) => {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+    return parsed;
+  };
+
+  const policy: RetryPolicy = {
+    maxAttempts: number('GMAIL_RETRY_MAX_ATTEMPTS'),
+    baseDelayMs: number('GMAIL_RETRY_BASE_DELAY_MS'),
+    maxDelayMs: number('GMAIL_RETRY_MAX_DELAY_MS'),
+  };
+  return Object.values(policy).some((value) => value !== undefined) ? policy : undefined;
+}
@@ -8,10 +8,36 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as readline from 'readline';
+import { spawn } from 'child_process';
 import {
   createGmailClient,
   resolveTokens,
+  authorize,
+  parseAuthArgs,
+  tokenStoreFromEnv,
+  TokenStore,
+  loadAccountConfig,
+  findAccount,
+  accountCredentials,
+  accountTokenFile,
+  summarizeAccounts,
+  AccountConfig,
+  retryPolicyFromEnv,
+  RetryPolicy,
+  EncryptedFileTokenStore,
+  GmailValidationError,
+  GmailHistoryExpiredError,
+  compactMessage,
+  compactThread,
+  CompactOptions,
+  CompactMessage,
+  parseMessage,
+  DEFAULT_MAX_BODY_CHARS,
   Tokens,
+  OutgoingAttachment,
   Message,
   Label,
   Thread,
@@ -41,36 +67,119 @@ const tokensSchema = {
   },
 };
 
+const impersonateSchema = {
+  type: 'string' as const,
+  description: 'Email of the user to act as through a service account with domain-wide delegation (defaults to GMAIL_IMPERSONATE)',
+};
+
+const accountSchema = {
+  type: 'string' as const,
+  description: 'Name of a configured account (see gmailListAccounts); defaults to the default account',
+};
+
+const attachmentsSchema = {
+  type: 'array' as const,
+  items: {
+    type: 'object',
+    properties: {
+      filename: { type: 'string', description: 'File name shown to the recipient' },
+      contentType: { type: 'string', description: 'MIME type (defaults to application/octet-stream)' },
+      content: { type: 'string', description: 'Base64-encoded file content' },
+      path: { type: 'string', description: 'Path of a file inside GMAIL_ATTACHMENT_DIR to attach, relative to it (used when content is omitted)' },
+    },
+    required: ['filename'],
+  },
+};
+
+const responseShapingSchema = {
+  responseFormat: {
+    type: 'string',
+    enum: ['full', 'compact'],
+    description: 'compact returns key headers and readable plain text with quotes and signatures collapsed',
+  },
+  maxBodyChars: { type: 'number', description: 'Body character budget per message in compact mode' },
+};
+
 const ListMessagesInputSchema = {
   type: 'object' as const,
   properties: {
     q: { type: 'string', description: 'Gmail search query' },
     maxResults: { type: 'number', description: 'Max results to return' },
-    pageToken: { type: 'string', description: 'Pagination token' },
+    pageToken: { type: 'string', description: 'nextPageToken from a previous call' },
     includeSpamTrash: { type: 'boolean', description: 'Include spam and trash' },
-    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs to filter by' },
+    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names (e.g. "Projects/Acme") to filter by' },
+    format: { type: 'string', enum: ['minimal', 'metadata', 'full'], description: 'Also fetch each listed message in this format, in one batch request' },
+    ...responseShapingSchema,
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const GetMessagesInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageIds: { type: 'array', items: { type: 'string' }, description: 'Message IDs to fetch' },
+    format: { type: 'string', enum: ['full', 'minimal', 'raw', 'metadata'], description: 'Message format' },
+    ...responseShapingSchema,
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
+  required: ['messageIds'],
 };
 
 const GetMessageInputSchema = {
   type: 'object' as const,
   properties: {
     messageId: { type: 'string', description: 'The message ID' },
-    format: { type: 'string', enum: ['full', 'minimal', 'raw', 'metadata'], description: 'Message format' },
+    format: { type: 'string', enum: ['full', 'minimal', 'raw', 'metadata', 'parsed'], description: 'Message format; parsed returns decoded headers, bodies and attachments' },
+    ...responseShapingSchema,
+    cursor: { type: 'number', description: 'Continue a truncated compact body from this nextCursor' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId'],
+};
+
+const ListAttachmentsInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['messageId'],
 };
 
+const GetAttachmentInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID' },
+    attachmentId: { type: 'string', description: 'The attachment ID' },
+    save: { type: 'boolean', description: 'Save the file to GMAIL_ATTACHMENT_DIR instead of returning base64 data' },
+    filename: { type: 'string', description: 'File name to save as (defaults to the attachment filename)' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId', 'attachmentId'],
+};
+
 const SearchMessagesInputSchema = {
   type: 'object' as const,
   properties: {
     query: { type: 'string', description: 'Gmail search query' },
     maxResults: { type: 'number', description: 'Max results to return' },
-    pageToken: { type: 'string', description: 'Pagination token' },
-    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs to filter by' },
+    pageToken: { type: 'string', description: 'nextPageToken from a previous call' },
+    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names (e.g. "Projects/Acme") to filter by' },
+    format: { type: 'string', enum: ['minimal', 'metadata', 'full'], description: 'Also fetch each matching message in this format, in one batch request' },
+    ...responseShapingSchema,
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['query'],
 };
@@ -79,12 +188,23 @@ const SendMessageInputSchema = {
   type: 'object' as const,
   properties: {
     to: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Recipient(s)' },
+    cc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Cc recipient(s)' },
+    bcc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Bcc recipient(s)' },
+    from: { type: 'string', description: 'From address (must be a verified send-as alias)' },
+    replyTo: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Reply-To address(es)' },
     subject: { type: 'string', description: 'Email subject' },
     body: { type: 'string', description: 'Email body' },
-    html: { type: 'boolean', description: 'Whether body is HTML' },
+    html: { oneOf: [{ type: 'boolean' }, { type: 'string' }], description: 'true if body is HTML, or the HTML body itself' },
+    text: { type: 'string', description: 'Plain-text body sent alongside the HTML body (derived from the HTML when omitted)' },
     threadId: { type: 'string', description: 'Reply to thread ID' },
     inReplyTo: { type: 'string', description: 'In-Reply-To message ID' },
+    attachments: { ...attachmentsSchema, description: 'Files to attach' },
+    headers: { type: 'object', additionalProperties: { type: 'string' }, description: 'Custom headers such as X-Priority or List-Id' },
+    sendAs: { type: 'string', description: 'Send-as alias address to send from; its display name and signature are used' },
+    appendSignature: { type: 'boolean', description: 'Append the send-as alias signature (default true when sendAs is set)' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['to'],
 };
@@ -93,38 +213,253 @@ const CreateDraftInputSchema = {
   type: 'object' as const,
   properties: {
     to: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Recipient(s)' },
+    cc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Cc recipient(s)' },
+    bcc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Bcc recipient(s)' },
+    from: { type: 'string', description: 'From address (must be a verified send-as alias)' },
+    replyTo: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Reply-To address(es)' },
     subject: { type: 'string', description: 'Email subject' },
     body: { type: 'string', description: 'Email body' },
-    html: { type: 'boolean', description: 'Whether body is HTML' },
+    html: { oneOf: [{ type: 'boolean' }, { type: 'string' }], description: 'true if body is HTML, or the HTML body itself' },
+    text: { type: 'string', description: 'Plain-text body sent alongside the HTML body (derived from the HTML when omitted)' },
     threadId: { type: 'string', description: 'Reply to thread ID' },
+    attachments: { ...attachmentsSchema, description: 'Files to attach' },
+    headers: { type: 'object', additionalProperties: { type: 'string' }, description: 'Custom headers such as X-Priority or List-Id' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['to'],
 };
 
+const ListDraftsInputSchema = {
+  type: 'object' as const,
+  properties: {
+    q: { type: 'string', description: 'Gmail search query to filter drafts' },
+    maxResults: { type: 'number', description: 'Max results to return' },
+    pageToken: { type: 'string', description: 'nextPageToken from a previous call' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const GetDraftInputSchema = {
+  type: 'object' as const,
+  properties: {
+    draftId: { type: 'string', description: 'The draft ID' },
+    format: { type: 'string', enum: ['full', 'minimal', 'raw', 'metadata'], description: 'Message format' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['draftId'],
+};
+
+const UpdateDraftInputSchema = {
+  type: 'object' as const,
+  properties: {
+    draftId: { type: 'string', description: 'The draft ID' },
+    ...CreateDraftInputSchema.properties,
+  },
+  required: ['draftId', 'to'],
+};
+
+const DeleteDraftInputSchema = {
+  type: 'object' as const,
+  properties: {
+    draftId: { type: 'string', description: 'The draft ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['draftId'],
+};
+
+const SendDraftInputSchema = {
+  type: 'object' as const,
+  properties: {
+    draftId: { type: 'string', description: 'The draft ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['draftId'],
+};
+
+const ReplyToMessageInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID to reply to' },
+    replyAll: { type: 'boolean', description: 'Reply to all original recipients' },
+    body: { type: 'string', description: 'Reply body' },
+    html: { oneOf: [{ type: 'boolean' }, { type: 'string' }], description: 'true if body is HTML, or the HTML body itself' },
+    text: { type: 'string', description: 'Plain-text body sent alongside the HTML body (derived from the HTML when omitted)' },
+    quoteOriginal: { type: 'boolean', description: 'Quote the original message below the reply' },
+    cc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Additional Cc recipient(s)' },
+    bcc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Bcc recipient(s)' },
+    from: { type: 'string', description: 'From address (must be a verified send-as alias)' },
+    attachments: { ...attachmentsSchema, description: 'Files to attach' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId'],
+};
+
+const ForwardMessageInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID to forward' },
+    to: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Recipient(s)' },
+    body: { type: 'string', description: 'Note shown above the forwarded message' },
+    html: { oneOf: [{ type: 'boolean' }, { type: 'string' }], description: 'true if body is HTML, or the HTML body itself' },
+    text: { type: 'string', description: 'Plain-text body sent alongside the HTML body (derived from the HTML when omitted)' },
+    includeAttachments: { type: 'boolean', description: 'Carry over the original attachments (default true)' },
+    cc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Cc recipient(s)' },
+    bcc: { oneOf: [{ type: 'string' }, { type: 'array', items: { type: 'string' } }], description: 'Bcc recipient(s)' },
+    from: { type: 'string', description: 'From address (must be a verified send-as alias)' },
+    attachments: { ...attachmentsSchema, description: 'Additional files to attach' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId', 'to'],
+};
+
 const ListLabelsInputSchema = {
   type: 'object' as const,
   properties: {
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const labelColorSchema = {
+  type: 'object',
+  properties: {
+    textColor: { type: 'string', description: 'Text color as a hex string from the Gmail palette, e.g. #ffffff' },
+    backgroundColor: { type: 'string', description: 'Background color as a hex string from the Gmail palette, e.g. #16a765' },
+  },
+  required: ['textColor', 'backgroundColor'],
+};
+
+const labelVisibilityProperties = {
+  labelListVisibility: {
+    type: 'string',
+    enum: ['labelShow', 'labelShowIfUnread', 'labelHide'],
+    description: 'Visibility in the label list',
+  },
+  messageListVisibility: { type: 'string', enum: ['show', 'hide'], description: 'Visibility in the message list' },
+};
+
+const GetLabelInputSchema = {
+  type: 'object' as const,
+  properties: {
+    labelId: { type: 'string', description: 'Label ID or name' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['labelId'],
+};
+
+const CreateLabelInputSchema = {
+  type: 'object' as const,
+  properties: {
+    name: { type: 'string', description: 'Label name; use "/" for nesting, e.g. "Projects/Acme". Missing parents are created' },
+    ...labelVisibilityProperties,
+    color: labelColorSchema,
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['name'],
+};
+
+const UpdateLabelInputSchema = {
+  type: 'object' as const,
+  properties: {
+    labelId: { type: 'string', description: 'Label ID or current name' },
+    name: { type: 'string', description: 'New label name; missing parents are created' },
+    ...labelVisibilityProperties,
+    color: labelColorSchema,
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
+  required: ['labelId'],
+};
+
+const DeleteLabelInputSchema = {
+  type: 'object' as const,
+  properties: {
+    labelId: { type: 'string', description: 'Label ID or name' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['labelId'],
 };
 
 const ModifyLabelsInputSchema = {
   type: 'object' as const,
   properties: {
     messageId: { type: 'string', description: 'The message ID' },
-    addLabelIds: { type: 'array', items: { type: 'string' }, description: 'Labels to add' },
-    removeLabelIds: { type: 'array', items: { type: 'string' }, description: 'Labels to remove' },
+    addLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to add' },
+    removeLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to remove' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['messageId'],
 };
 
+const BatchModifyMessagesInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageIds: { type: 'array', items: { type: 'string' }, description: 'Message IDs to modify' },
+    addLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to add' },
+    removeLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to remove' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageIds'],
+};
+
+const BatchDeleteMessagesInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageIds: { type: 'array', items: { type: 'string' }, description: 'Message IDs to delete permanently' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageIds'],
+};
+
+const ModifyMatchingInputSchema = {
+  type: 'object' as const,
+  properties: {
+    query: { type: 'string', description: 'Gmail search query selecting the messages to modify' },
+    addLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to add' },
+    removeLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to remove' },
+    includeSpamTrash: { type: 'boolean', description: 'Include messages from SPAM and TRASH' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['query'],
+};
+
 const TrashMessageInputSchema = {
   type: 'object' as const,
   properties: {
     messageId: { type: 'string', description: 'The message ID' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['messageId'],
 };
@@ -134,6 +469,8 @@ const UntrashMessageInputSchema = {
   properties: {
     messageId: { type: 'string', description: 'The message ID' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['messageId'],
 };
@@ -143,133 +480,1187 @@ const ListThreadsInputSchema = {
   properties: {
     q: { type: 'string', description: 'Gmail search query' },
     maxResults: { type: 'number', description: 'Max results to return' },
-    pageToken: { type: 'string', description: 'Pagination token' },
-    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs to filter by' },
+    pageToken: { type: 'string', description: 'nextPageToken from a previous call' },
+    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names (e.g. "Projects/Acme") to filter by' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const ListHistoryInputSchema = {
+  type: 'object' as const,
+  properties: {
+    startHistoryId: { type: 'string', description: 'History ID to list changes after, e.g. from a message or a previous call' },
+    labelId: { type: 'string', description: 'Only return changes to messages with this label ID' },
+    historyTypes: {
+      type: 'array',
+      items: { type: 'string', enum: ['messageAdded', 'messageDeleted', 'labelAdded', 'labelRemoved'] },
+      description: 'Kinds of change to return (default all)',
+    },
+    maxResults: { type: 'number', description: 'Max history records to return' },
+    pageToken: { type: 'string', description: 'nextPageToken from a previous call' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['startHistoryId'],
+};
+
+const filterCriteriaSchema = {
+  type: 'object',
+  properties: {
+    from: { type: 'string', description: 'Sender address, name or domain (e.g. @vendor.com)' },
+    to: { type: 'string', description: 'Recipient address or name' },
+    subject: { type: 'string', description: 'Text in the subject' },
+    query: { type: 'string', description: 'Gmail search query the message must match' },
+    negatedQuery: { type: 'string', description: 'Gmail search query the message must not match' },
+    hasAttachment: { type: 'boolean', description: 'Only messages with attachments' },
+    excludeChats: { type: 'boolean', description: 'Skip chat messages' },
+    size: { type: 'number', description: 'Message size in bytes, compared with sizeComparison' },
+    sizeComparison: { type: 'string', enum: ['larger', 'smaller'], description: 'How to compare size' },
+  },
+};
+
+const filterActionSchema = {
+  type: 'object',
+  properties: {
+    addLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to apply' },
+    removeLabelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to remove' },
+    forward: { type: 'string', description: 'Verified forwarding address' },
+    star: { type: 'boolean', description: 'Star the message' },
+    markImportant: { type: 'boolean', description: 'Always mark as important' },
+    neverImportant: { type: 'boolean', description: 'Never mark as important' },
+    markAsRead: { type: 'boolean', description: 'Mark as read' },
+    archive: { type: 'boolean', description: 'Skip the inbox' },
+    neverSpam: { type: 'boolean', description: 'Never send to spam' },
+    trash: { type: 'boolean', description: 'Delete it' },
+  },
+};
+
+const ListFiltersInputSchema = {
+  type: 'object' as const,
+  properties: {
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const GetFilterInputSchema = {
+  type: 'object' as const,
+  properties: {
+    filterId: { type: 'string', description: 'The filter ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['filterId'],
+};
+
+const CreateFilterInputSchema = {
+  type: 'object' as const,
+  properties: {
+    criteria: { ...filterCriteriaSchema, description: 'Which incoming messages the filter matches' },
+    action: { ...filterActionSchema, description: 'What to do with matching messages' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['criteria', 'action'],
+};
+
+const DeleteFilterInputSchema = {
+  type: 'object' as const,
+  properties: {
+    filterId: { type: 'string', description: 'The filter ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['filterId'],
+};
+
+const SuggestFilterInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'An example message the filter should match' },
+    by: {
+      type: 'string',
+      enum: ['list', 'sender', 'domain'],
+      description: 'Match the mailing list, the sender address or the sender domain (default list when available, else sender)',
+    },
+    includeSubject: { type: 'boolean', description: 'Also require the same subject' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId'],
+};
+
+const timeSchema = {
+  oneOf: [{ type: 'string' }, { type: 'number' }],
+  description: 'ISO 8601 date-time or milliseconds since the epoch',
+};
+
+const SettingsInputSchema = {
+  type: 'object' as const,
+  properties: {
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const UpdateVacationInputSchema = {
+  type: 'object' as const,
+  properties: {
+    enableAutoReply: { type: 'boolean', description: 'Turn the vacation responder on or off' },
+    responseSubject: { type: 'string', description: 'Subject of the automatic reply' },
+    responseBodyPlainText: { type: 'string', description: 'Plain-text reply body' },
+    responseBodyHtml: { type: 'string', description: 'HTML reply body' },
+    restrictToContacts: { type: 'boolean', description: 'Only reply to people in your contacts' },
+    restrictToDomain: { type: 'boolean', description: 'Only reply to people in your domain (Workspace only)' },
+    startTime: { ...timeSchema, description: 'When to start replying (ISO 8601 or epoch milliseconds)' },
+    endTime: { ...timeSchema, description: 'When to stop replying (ISO 8601 or epoch milliseconds)' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const GetSendAsInputSchema = {
+  type: 'object' as const,
+  properties: {
+    sendAsEmail: { type: 'string', description: 'The send-as alias address' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['sendAsEmail'],
+};
+
+const UpdateSendAsInputSchema = {
+  type: 'object' as const,
+  properties: {
+    sendAsEmail: { type: 'string', description: 'The send-as alias address' },
+    displayName: { type: 'string', description: 'Name shown in the From header' },
+    replyToAddress: { type: 'string', description: 'Reply-To address for mail sent from this alias' },
+    signature: { type: 'string', description: 'HTML signature' },
+    isDefault: { type: 'boolean', description: 'Make this the default alias' },
+    treatAsAlias: { type: 'boolean', description: 'Treat as an alias of the primary address' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['sendAsEmail'],
+};
+
+const forwardingDispositionSchema = {
+  type: 'string',
+  enum: ['leaveInInbox', 'archive', 'trash', 'markRead'],
+};
+
+const UpdateAutoForwardingInputSchema = {
+  type: 'object' as const,
+  properties: {
+    enabled: { type: 'boolean', description: 'Turn automatic forwarding on or off' },
+    emailAddress: { type: 'string', description: 'Verified forwarding address' },
+    disposition: { ...forwardingDispositionSchema, description: 'What to do with the original after forwarding' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const UpdateImapInputSchema = {
+  type: 'object' as const,
+  properties: {
+    enabled: { type: 'boolean', description: 'Turn IMAP access on or off' },
+    autoExpunge: { type: 'boolean', description: 'Expunge immediately when a message is marked deleted' },
+    expungeBehavior: { type: 'string', enum: ['archive', 'trash', 'deleteForever'], description: 'What happens to expunged messages' },
+    maxFolderSize: { type: 'number', description: 'Message limit per folder (0 for no limit)' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const UpdatePopInputSchema = {
+  type: 'object' as const,
+  properties: {
+    accessWindow: { type: 'string', enum: ['disabled', 'fromNowOn', 'allMail'], description: 'Which messages POP can download' },
+    disposition: { ...forwardingDispositionSchema, description: 'What to do with a message after POP downloads it' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+};
+
+const WatchInputSchema = {
+  type: 'object' as const,
+  properties: {
+    topicName: { type: 'string', description: 'Pub/Sub topic, e.g. projects/my-project/topics/gmail' },
+    labelIds: { type: 'array', items: { type: 'string' }, description: 'Label IDs or names to watch (default all mail)' },
+    labelFilterBehavior: {
+      type: 'string',
+      enum: ['include', 'exclude'],
+      description: 'Notify only for labelIds (include) or for everything except them (exclude)',
+    },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['topicName'],
+};
+
+const StopWatchInputSchema = {
+  type: 'object' as const,
+  properties: {
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
 };
 
+const ListAccountsInputSchema = {
+  type: 'object' as const,
+  properties: {},
+};
+
 const GetThreadInputSchema = {
   type: 'object' as const,
   properties: {
     threadId: { type: 'string', description: 'The thread ID' },
-    format: { type: 'string', enum: ['full', 'minimal', 'metadata'], description: 'Thread format' },
+    format: { type: 'string', enum: ['full', 'minimal', 'metadata', 'parsed'], description: 'Thread format; parsed returns decoded headers, bodies and attachments' },
+    ...responseShapingSchema,
+    maxBodyChars: { type: 'number', description: 'Body character budget for the whole thread in compact mode' },
+    cursor: { type: 'number', description: 'Continue a truncated compact thread from its nextCursor' },
     tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
   },
   required: ['threadId'],
 };
 
-const ArchiveMessageInputSchema = {
-  type: 'object' as const,
-  properties: {
-    messageId: { type: 'string', description: 'The message ID' },
-    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
-  },
-  required: ['messageId'],
-};
+const ArchiveMessageInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId'],
+};
+
+const UnarchiveMessageInputSchema = {
+  type: 'object' as const,
+  properties: {
+    messageId: { type: 'string', description: 'The message ID' },
+    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
+    impersonate: impersonateSchema,
+    account: accountSchema,
+  },
+  required: ['messageId'],
+};
+
+const tools: Tool[] = [
+  {
+    name: 'gmailListAccounts',
+    description: 'List the configured Gmail accounts by name; pass a name as `account` to any other tool',
+    inputSchema: ListAccountsInputSchema,
+  },
+  {
+    name: 'gmailListMessages',
+    description: 'List messages in the mailbox, with nextPageToken and resultSizeEstimate for paging',
+    inputSchema: ListMessagesInputSchema,
+  },
+  {
+    name: 'gmailGetMessages',
+    description: 'Get several messages by ID in one batch request, with per-message errors',
+    inputSchema: GetMessagesInputSchema,
+  },
+  {
+    name: 'gmailGetMessage',
+    description: 'Get a specific message by ID',
+    inputSchema: GetMessageInputSchema,
+  },
+  {
+    name: 'gmailListAttachments',
+    description: 'List attachments (filename, MIME type, size, ID) of a message',
+    inputSchema: ListAttachmentsInputSchema,
+  },
+  {
+    name: 'gmailGetAttachment',
+    description: 'Download an attachment as base64 data or save it to the attachment directory',
+    inputSchema: GetAttachmentInputSchema,
+  },
+  {
+    name: 'gmailSearchMessages',
+    description: 'Search for messages using Gmail search syntax, with nextPageToken and resultSizeEstimate for paging',
+    inputSchema: SearchMessagesInputSchema,
+  },
+  {
+    name: 'gmailSendMessage',
+    description: 'Send an email message',
+    inputSchema: SendMessageInputSchema,
+  },
+  {
+    name: 'gmailReplyToMessage',
+    description: 'Reply (or reply all) to a message, with recipients, subject and threading derived from the original',
+    inputSchema: ReplyToMessageInputSchema,
+  },
+  {
+    name: 'gmailForwardMessage',
+    description: 'Forward a message, including its body and attachments',
+    inputSchema: ForwardMessageInputSchema,
+  },
+  {
+    name: 'gmailCreateDraft',
+    description: 'Create a draft email message',
+    inputSchema: CreateDraftInputSchema,
+  },
+  {
+    name: 'gmailListDrafts',
+    description: 'List drafts in the mailbox',
+    inputSchema: ListDraftsInputSchema,
+  },
+  {
+    name: 'gmailGetDraft',
+    description: 'Get a draft and its message by draft ID',
+    inputSchema: GetDraftInputSchema,
+  },
+  {
+    name: 'gmailUpdateDraft',
+    description: 'Replace the content of a draft',
+    inputSchema: UpdateDraftInputSchema,
+  },
+  {
+    name: 'gmailDeleteDraft',
+    description: 'Permanently delete a draft',
+    inputSchema: DeleteDraftInputSchema,
+  },
+  {
+    name: 'gmailSendDraft',
+    description: 'Send an existing draft',
+    inputSchema: SendDraftInputSchema,
+  },
+  {
+    name: 'gmailListLabels',
+    description: 'List all labels in the mailbox',
+    inputSchema: ListLabelsInputSchema,
+  },
+  {
+    name: 'gmailGetLabel',
+    description: 'Get a label with its message and thread counts',
+    inputSchema: GetLabelInputSchema,
+  },
+  {
+    name: 'gmailCreateLabel',
+    description: 'Create a label, including any missing parent labels',
+    inputSchema: CreateLabelInputSchema,
+  },
+  {
+    name: 'gmailUpdateLabel',
+    description: 'Rename a label or change its color or visibility',
+    inputSchema: UpdateLabelInputSchema,
+  },
+  {
+    name: 'gmailDeleteLabel',
+    description: 'Delete a label; messages keep their other labels',
+    inputSchema: DeleteLabelInputSchema,
+  },
+  {
+    name: 'gmailListFilters',
+    description: 'List the mailbox filters',
+    inputSchema: ListFiltersInputSchema,
+  },
+  {
+    name: 'gmailGetFilter',
+    description: 'Get a filter by ID',
+    inputSchema: GetFilterInputSchema,
+  },
+  {
+    name: 'gmailCreateFilter',
+    description: 'Create a filter that labels, archives, stars or forwards matching incoming mail',
+    inputSchema: CreateFilterInputSchema,
+  },
+  {
+    name: 'gmailDeleteFilter',
+    description: 'Delete a filter',
+    inputSchema: DeleteFilterInputSchema,
+  },
+  {
+    name: 'gmailSuggestFilter',
+    description: 'Suggest filter criteria that match future mail like an example message',
+    inputSchema: SuggestFilterInputSchema,
+  },
+  {
+    name: 'gmailModifyMessageLabels',
+    description: 'Add or remove labels from a message',
+    inputSchema: ModifyLabelsInputSchema,
+  },
+  {
+    name: 'gmailBatchModifyMessages',
+    description: 'Add or remove labels on many messages at once',
+    inputSchema: BatchModifyMessagesInputSchema,
+  },
+  {
+    name: 'gmailBatchDeleteMessages',
+    description: 'Permanently delete many messages at once, bypassing trash',
+    inputSchema: BatchDeleteMessagesInputSchema,
+  },
+  {
+    name: 'gmailModifyMatching',
+    description: 'Add or remove labels on every message matching a search query',
+    inputSchema: ModifyMatchingInputSchema,
+  },
+  {
+    name: 'gmailTrashMessage',
+    description: 'Move a message to trash',
+    inputSchema: TrashMessageInputSchema,
+  },
+  {
+    name: 'gmailUntrashMessage',
+    description: 'Restore a message from trash',
+    inputSchema: UntrashMessageInputSchema,
+  },
+  {
+    name: 'gmailListThreads',
+    description: 'List threads in the mailbox, with nextPageToken and resultSizeEstimate for paging',
+    inputSchema: ListThreadsInputSchema,
+  },
+  {
+    name: 'gmailGetThread',
+    description: 'Get a specific thread by ID',
+    inputSchema: GetThreadInputSchema,
+  },
+  {
+    name: 'gmailListHistory',
+    description: 'List mailbox changes (messages added or deleted, labels added or removed) since a history ID',
+    inputSchema: ListHistoryInputSchema,
+  },
+  {
+    name: 'gmailGetVacation',
+    description: 'Get the vacation responder (out-of-office) settings',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailUpdateVacation',
+    description: 'Turn the vacation responder on or off or change its message and dates; omitted fields are kept',
+    inputSchema: UpdateVacationInputSchema,
+  },
+  {
+    name: 'gmailListSendAs',
+    description: 'List send-as aliases with their display names and signatures',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailGetSendAs',
+    description: 'Get a send-as alias',
+    inputSchema: GetSendAsInputSchema,
+  },
+  {
+    name: 'gmailUpdateSendAs',
+    description: 'Update a send-as alias, e.g. its signature or display name',
+    inputSchema: UpdateSendAsInputSchema,
+  },
+  {
+    name: 'gmailGetAutoForwarding',
+    description: 'Get the automatic forwarding settings',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailUpdateAutoForwarding',
+    description: 'Turn automatic forwarding on or off; omitted fields are kept',
+    inputSchema: UpdateAutoForwardingInputSchema,
+  },
+  {
+    name: 'gmailListForwardingAddresses',
+    description: 'List forwarding addresses and whether they are verified',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailGetImap',
+    description: 'Get the IMAP settings',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailUpdateImap',
+    description: 'Change the IMAP settings; omitted fields are kept',
+    inputSchema: UpdateImapInputSchema,
+  },
+  {
+    name: 'gmailGetPop',
+    description: 'Get the POP settings',
+    inputSchema: SettingsInputSchema,
+  },
+  {
+    name: 'gmailUpdatePop',
+    description: 'Change the POP settings; omitted fields are kept',
+    inputSchema: UpdatePopInputSchema,
+  },
+  {
+    name: 'gmailWatch',
+    description: 'Start or renew push notifications of mailbox changes to a Pub/Sub topic (expires after 7 days)',
+    inputSchema: WatchInputSchema,
+  },
+  {
+    name: 'gmailStopWatch',
+    description: 'Stop push notifications for the mailbox',
+    inputSchema: StopWatchInputSchema,
+  },
+  {
+    name: 'gmailArchiveMessage',
+    description: 'Archive a message (remove from inbox)',
+    inputSchema: ArchiveMessageInputSchema,
+  },
+  {
+    name: 'gmailUnarchiveMessage',
+    description: 'Unarchive a message (restore to inbox)',
+    inputSchema: UnarchiveMessageInputSchema,
+  },
+];
+
+// Compact mode is chosen per call, or for every call via GMAIL_RESPONSE_FORMAT
+function compactOptions(toolArgs: Record<string, unknown>): CompactOptions | undefined {
+  const responseFormat = (toolArgs.responseFormat as string) || process.env.GMAIL_RESPONSE_FORMAT || 'full';
+  if (responseFormat !== 'compact') {
+    return undefined;
+  }
+
+  return {
+    maxBodyChars: (toolArgs.maxBodyChars as number | undefined)
+      ?? (Number(process.env.GMAIL_MAX_BODY_CHARS) || DEFAULT_MAX_BODY_CHARS),
+    cursor: toolArgs.cursor as number | undefined,
+  };
+}
+
+// Hydrated messages in list results get the same compact view as
+// gmailGetMessage; ID stubs are left as they are
+function compactListed(messages: Message[], compact: CompactOptions): Array<Message | CompactMessage> {
+  return messages.map((message) => (message.payload ? compactMessage(parseMessage(message), { ...compact, cursor: 0 }) : message));
+}
+
+function attachmentDir(): string {
+  return path.resolve(process.env.GMAIL_ATTACHMENT_DIR || './attachments');
+}
+
+// A tool call may only attach files from the attachment directory. Anything
+// else (token files, service account keys, ~/.ssh) could be mailed out by a
+// misled model. Symlinks are resolved before the check.
+function confineAttachmentPaths(value: unknown): OutgoingAttachment[] | undefined {
+  if (!Array.isArray(value)) {
+    return undefined;
+  }
+
+  return value.map((attachment: OutgoingAttachment) => {
+    const { path: filePath, ...rest } = attachment;
+    if (rest.content !== undefined || !filePath) {
+      return rest;
+    }
+
+    let realDir: string;
+    let realPath: string;
+    try {
+      realDir = fs.realpathSync(attachmentDir());
+      realPath = fs.realpathSync(path.resolve(attachmentDir(), filePath));
+    } catch (error) {
+      throw new GmailValidationError('attachments', `no file "${filePath}" in the attachment directory`);
+    }
+    if (!realPath.startsWith(realDir + path.sep)) {
+      throw new GmailValidationError('attachments', `"${filePath}" is outside the attachment directory (GMAIL_ATTACHMENT_DIR)`);
+    }
+    return { ...rest, path: realPath };
+  });
+}
+
+// Write `data` under `filename` in `dir` without replacing an existing file:
+// taken names get a counter, as in "report (1).pdf"
+function writeNewFile(dir: string, filename: string, data: Buffer): string {
+  const { name, ext } = path.parse(filename);
+  for (let copy = 0; ; copy++) {
+    const filePath = path.join(dir, copy === 0 ? filename : `${name} (${copy})${ext}`);
+    try {
+      fs.writeFileSync(filePath, data, { flag: 'wx' });
+      return filePath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+}
+
+async function fetchAttachment(client: any, toolArgs: Record<string, unknown>) {
+  const messageId = toolArgs.messageId as string;
+  const attachmentId = toolArgs.attachmentId as string;
+  const attachment = await client.getAttachment('me', messageId, attachmentId);
+  const data = Buffer.from(attachment.data || '', 'base64url');
+
+  if (!toolArgs.save) {
+    return {
+      attachmentId,
+      size: attachment.size,
+      data: data.toString('base64'),
+    };
+  }
+
+  let filename = toolArgs.filename as string | undefined;
+  if (!filename) {
+    const attachments = await client.listAttachments('me', messageId);
+    const match = attachments.find((a: { attachmentId: string }) => a.attachmentId === attachmentId);
+    filename = match?.filename || attachmentId;
+  }
+
+  const dir = attachmentDir();
+  fs.mkdirSync(dir, { recursive: true });
+  // Never let a filename from the message escape the attachment directory
+  const filePath = writeNewFile(dir, path.basename(filename as string), data);
+
+  return {
+    attachmentId,
+    size: data.length,
+    path: filePath,
+  };
+}
+
+server.setRequestHandler(ListToolsRequestSchema, async () => {
+  return { tools };
+});
+
+// Set by runServer; shared so a store can cache derived keys across calls
+let tokenStore: TokenStore | undefined;
+
+// Set by runServer from GMAIL_RETRY_* and used by every client it creates
+let retryPolicy: RetryPolicy | false | undefined;
+
+// Set by runServer from GMAIL_ACCOUNTS; unset means a single implicit account
+let accountConfig: AccountConfig | undefined;
+// One client per account (and impersonated user), so label caches and
+// access tokens survive across calls
+const accountClients = new Map<string, ReturnType<typeof createGmailClient>>();
+
+function accountClient(config: AccountConfig, name: string | undefined, impersonate: string | undefined) {
+  const account = findAccount(config, name);
+  if (impersonate && !account.serviceAccount) {
+    throw new GmailValidationError('impersonate', `account "${account.name}" does not use a service account`);
+  }
+  const subject = account.serviceAccount
+    ? impersonate || account.serviceAccount.subject || process.env.GMAIL_IMPERSONATE
+    : undefined;
+  const key = subject ? `${account.name}/${subject}` : account.name;
+
+  let client = accountClients.get(key);
+  if (!client) {
+    const credentials = accountCredentials(account);
+    client = createGmailClient(
+      credentials.serviceAccount
+        ? { serviceAccount: { ...credentials.serviceAccount, subject }, retry: retryPolicy }
+        : { ...credentials, retry: retryPolicy }
+    );
+    accountClients.set(key, client);
+  }
+  return client;
+}
+
+// Client of the single implicit account, kept like the account clients
+let defaultClient: ReturnType<typeof createGmailClient> | undefined;
+
+function storeClient() {
+  defaultClient ??= createGmailClient({ store: tokenStore, retry: retryPolicy });
+  return defaultClient;
+}
+
+// JWT clients cache their access token, so keep one per impersonated user
+const serviceAccountClients = new Map<string, ReturnType<typeof createGmailClient>>();
+
+function serviceAccountClient(subject: string) {
+  let client = serviceAccountClients.get(subject);
+  if (!client) {
+    client = createGmailClient({ serviceAccount: { subject }, retry: retryPolicy });
+    serviceAccountClients.set(subject, client);
+  }
+  return client;
+}
+
+server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  const { params } = request;
+  const { name, arguments: args } = params;
+  const toolArgs = (args || {}) as Record<string, unknown>;
+  const tokens = (toolArgs.tokens as Tokens) || undefined;
+  const account = (toolArgs.account as string) || undefined;
+  const impersonate = (toolArgs.impersonate as string) || process.env.GMAIL_IMPERSONATE;
+
+  try {
+    if (name === 'gmailListAccounts') {
+      const accounts = accountConfig ? summarizeAccounts(accountConfig) : [];
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ accounts }) }],
+      };
+    }
+    if (tokens && (account || toolArgs.impersonate)) {
+      throw new GmailValidationError(account ? 'account' : 'impersonate', 'cannot be combined with tokens');
+    }
+    if (account && !accountConfig) {
+      throw new GmailValidationError('account', 'no accounts are configured; set GMAIL_ACCOUNTS to a config file or directory');
+    }
+
+    const client = tokens ? createGmailClient({ tokens, retry: retryPolicy })
+      : accountConfig ? accountClient(accountConfig, account, (toolArgs.impersonate as string) || undefined)
+      : impersonate ? serviceAccountClient(impersonate)
+      : storeClient();
+
+    switch (name) {
+      case 'gmailListMessages': {
+        const compact = compactOptions(toolArgs);
+        const page = await (client as any).listMessagesPage('me', {
+          q: toolArgs.q,
+          maxResults: toolArgs.maxResults,
+          pageToken: toolArgs.pageToken,
+          includeSpamTrash: toolArgs.includeSpamTrash,
+          labelIds: toolArgs.labelIds,
+          format: toolArgs.format,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(compact ? { ...page, messages: compactListed(page.messages, compact) } : page),
+            },
+          ],
+        };
+      }
+
+      case 'gmailGetMessages': {
+        const compact = compactOptions(toolArgs);
+        const results: Array<{ id: string; message?: Message }> = await (client as any).getMessages('me', toolArgs.messageIds, toolArgs.format);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                compact
+                  ? results.map((result) => (result.message ? { ...result, message: compactListed([result.message], compact)[0] } : result))
+                  : results
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'gmailGetMessage': {
+        const compact = compactOptions(toolArgs);
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                compact
+                  ? compactMessage(await (client as any).getMessage('me', toolArgs.messageId, 'parsed'), compact)
+                  : await (client as any).getMessage('me', toolArgs.messageId, toolArgs.format)
+              ),
+            },
+          ],
+        };
+      }
+
+      case 'gmailListAttachments':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).listAttachments('me', toolArgs.messageId)
+              ),
+            },
+          ],
+        };
+
+      case 'gmailGetAttachment':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await fetchAttachment(client, toolArgs)),
+            },
+          ],
+        };
+
+      case 'gmailSearchMessages': {
+        const compact = compactOptions(toolArgs);
+        const page = await (client as any).searchMessagesPage('me', toolArgs.query, {
+          maxResults: toolArgs.maxResults,
+          pageToken: toolArgs.pageToken,
+          labelIds: toolArgs.labelIds,
+          format: toolArgs.format,
+        });
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(compact ? { ...page, messages: compactListed(page.messages, compact) } : page),
+            },
+          ],
+        };
+      }
+
+      case 'gmailSendMessage':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).sendMessage('me', {
+                  to: toolArgs.to,
+                  cc: toolArgs.cc,
+                  bcc: toolArgs.bcc,
+                  from: toolArgs.from,
+                  replyTo: toolArgs.replyTo,
+                  subject: toolArgs.subject,
+                  body: toolArgs.body,
+                  text: toolArgs.text,
+                  html: toolArgs.html,
+                  threadId: toolArgs.threadId,
+                  inReplyTo: toolArgs.inReplyTo,
+                  attachments: confineAttachmentPaths(toolArgs.attachments),
+                  headers: toolArgs.headers,
+                  sendAs: toolArgs.sendAs,
+                  appendSignature: toolArgs.appendSignature,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailReplyToMessage':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).replyToMessage('me', toolArgs.messageId, {
+                  body: toolArgs.body,
+                  text: toolArgs.text,
+                  html: toolArgs.html,
+                  quoteOriginal: toolArgs.quoteOriginal,
+                  cc: toolArgs.cc,
+                  bcc: toolArgs.bcc,
+                  from: toolArgs.from,
+                  attachments: confineAttachmentPaths(toolArgs.attachments),
+                }, { replyAll: toolArgs.replyAll })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailForwardMessage':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).forwardMessage('me', toolArgs.messageId, toolArgs.to, {
+                  body: toolArgs.body,
+                  text: toolArgs.text,
+                  html: toolArgs.html,
+                  includeAttachments: toolArgs.includeAttachments,
+                  cc: toolArgs.cc,
+                  bcc: toolArgs.bcc,
+                  from: toolArgs.from,
+                  attachments: confineAttachmentPaths(toolArgs.attachments),
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailCreateDraft':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).createDraft('me', {
+                  to: toolArgs.to,
+                  cc: toolArgs.cc,
+                  bcc: toolArgs.bcc,
+                  from: toolArgs.from,
+                  replyTo: toolArgs.replyTo,
+                  subject: toolArgs.subject,
+                  body: toolArgs.body,
+                  text: toolArgs.text,
+                  html: toolArgs.html,
+                  threadId: toolArgs.threadId,
+                  attachments: confineAttachmentPaths(toolArgs.attachments),
+                  headers: toolArgs.headers,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailListDrafts':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).listDraftsPage('me', {
+                  q: toolArgs.q,
+                  maxResults: toolArgs.maxResults,
+                  pageToken: toolArgs.pageToken,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailGetDraft':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getDraft('me', toolArgs.draftId, toolArgs.format)),
+            },
+          ],
+        };
+
+      case 'gmailUpdateDraft':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).updateDraft('me', toolArgs.draftId, {
+                  to: toolArgs.to,
+                  cc: toolArgs.cc,
+                  bcc: toolArgs.bcc,
+                  from: toolArgs.from,
+                  replyTo: toolArgs.replyTo,
+                  subject: toolArgs.subject,
+                  body: toolArgs.body,
+                  text: toolArgs.text,
+                  html: toolArgs.html,
+                  threadId: toolArgs.threadId,
+                  attachments: confineAttachmentPaths(toolArgs.attachments),
+                  headers: toolArgs.headers,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailDeleteDraft':
+        await (client as any).deleteDraft('me', toolArgs.draftId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ deleted: toolArgs.draftId }) }],
+        };
+
+      case 'gmailSendDraft':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).sendDraft('me', toolArgs.draftId)),
+            },
+          ],
+        };
+
+      case 'gmailListLabels':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).listLabels()),
+            },
+          ],
+        };
+
+      case 'gmailGetLabel':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getLabel('me', toolArgs.labelId)),
+            },
+          ],
+        };
+
+      case 'gmailCreateLabel':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).createLabel('me', {
+                  name: toolArgs.name,
+                  labelListVisibility: toolArgs.labelListVisibility,
+                  messageListVisibility: toolArgs.messageListVisibility,
+                  color: toolArgs.color,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailUpdateLabel':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).updateLabel('me', toolArgs.labelId, {
+                  name: toolArgs.name,
+                  labelListVisibility: toolArgs.labelListVisibility,
+                  messageListVisibility: toolArgs.messageListVisibility,
+                  color: toolArgs.color,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailDeleteLabel':
+        await (client as any).deleteLabel('me', toolArgs.labelId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ deleted: toolArgs.labelId }) }],
+        };
+
+      case 'gmailListFilters':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).listFilters('me')),
+            },
+          ],
+        };
+
+      case 'gmailGetFilter':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getFilter('me', toolArgs.filterId)),
+            },
+          ],
+        };
+
+      case 'gmailCreateFilter':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).createFilter('me', {
+                  criteria: toolArgs.criteria || {},
+                  action: toolArgs.action || {},
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailDeleteFilter':
+        await (client as any).deleteFilter('me', toolArgs.filterId);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ deleted: toolArgs.filterId }) }],
+        };
+
+      case 'gmailSuggestFilter':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).suggestFilterCriteria('me', toolArgs.messageId, {
+                  by: toolArgs.by,
+                  includeSubject: toolArgs.includeSubject,
+                })
+              ),
+            },
+          ],
+        };
+
+      case 'gmailModifyMessageLabels':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).modifyMessageLabels('me', toolArgs.messageId, {
+                  addLabelIds: toolArgs.addLabelIds,
+                  removeLabelIds: toolArgs.removeLabelIds,
+                })
+              ),
+            },
+          ],
+        };
 
-const UnarchiveMessageInputSchema = {
-  type: 'object' as const,
-  properties: {
-    messageId: { type: 'string', description: 'The message ID' },
-    tokens: { ...tokensSchema, description: 'Gmail authentication tokens' },
-  },
-  required: ['messageId'],
-};
+      case 'gmailBatchModifyMessages':
+        await (client as any).batchModifyMessages('me', toolArgs.messageIds, {
+          addLabelIds: toolArgs.addLabelIds,
+          removeLabelIds: toolArgs.removeLabelIds,
+        });
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ modified: (toolArgs.messageIds as string[]).length }) }],
+        };
 
-const tools: Tool[] = [
-  {
-    name: 'gmailListMessages',
-    description: 'List messages in the mailbox',
-    inputSchema: ListMessagesInputSchema,
-  },
-  {
-    name: 'gmailGetMessage',
-    description: 'Get a specific message by ID',
-    inputSchema: GetMessageInputSchema,
-  },
-  {
-    name: 'gmailSearchMessages',
-    description: 'Search for messages using Gmail search syntax',
-    inputSchema: SearchMessagesInputSchema,
-  },
-  {
-    name: 'gmailSendMessage',
-    description: 'Send an email message',
-    inputSchema: SendMessageInputSchema,
-  },
-  {
-    name: 'gmailCreateDraft',
-    description: 'Create a draft email message',
-    inputSchema: CreateDraftInputSchema,
-  },
-  {
-    name: 'gmailListLabels',
-    description: 'List all labels in the mailbox',
-    inputSchema: ListLabelsInputSchema,
-  },
-  {
-    name: 'gmailModifyMessageLabels',
-    description: 'Add or remove labels from a message',
-    inputSchema: ModifyLabelsInputSchema,
-  },
-  {
-    name: 'gmailTrashMessage',
-    description: 'Move a message to trash',
-    inputSchema: TrashMessageInputSchema,
-  },
-  {
-    name: 'gmailUntrashMessage',
-    description: 'Restore a message from trash',
-    inputSchema: UntrashMessageInputSchema,
-  },
-  {
-    name: 'gmailListThreads',
-    description: 'List threads in the mailbox',
-    inputSchema: ListThreadsInputSchema,
-  },
-  {
-    name: 'gmailGetThread',
-    description: 'Get a specific thread by ID',
-    inputSchema: GetThreadInputSchema,
-  },
-  {
-    name: 'gmailArchiveMessage',
-    description: 'Archive a message (remove from inbox)',
-    inputSchema: ArchiveMessageInputSchema,
-  },
-  {
-    name: 'gmailUnarchiveMessage',
-    description: 'Unarchive a message (restore to inbox)',
-    inputSchema: UnarchiveMessageInputSchema,
-  },
-];
+      case 'gmailBatchDeleteMessages':
+        await (client as any).batchDeleteMessages('me', toolArgs.messageIds);
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ deleted: (toolArgs.messageIds as string[]).length }) }],
+        };
 
-server.setRequestHandler(ListToolsRequestSchema, async () => {
-  return { tools };
-});
+      case 'gmailModifyMatching':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(
+                await (client as any).modifyMatching(
+                  'me',
+                  toolArgs.query,
+                  { addLabelIds: toolArgs.addLabelIds, removeLabelIds: toolArgs.removeLabelIds },
+                  { includeSpamTrash: toolArgs.includeSpamTrash }
+                )
+              ),
+            },
+          ],
+        };
 
-server.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { params } = request;
-  const { name, arguments: args } = params;
-  const toolArgs = (args || {}) as Record<string, unknown>;
-  const tokens = (toolArgs.tokens as Tokens) || undefined;
+      case 'gmailTrashMessage':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).trashMessage('me', toolArgs.messageId)),
+            },
+          ],
+        };
 
-  try {
-    const client = createGmailClient({ tokens });
+      case 'gmailUntrashMessage':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).untrashMessage('me', toolArgs.messageId)),
+            },
+          ],
+        };
 
-    switch (name) {
-      case 'gmailListMessages':
+      case 'gmailListThreads':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).listMessages('me', {
+                await (client as any).listThreadsPage('me', {
                   q: toolArgs.q,
                   maxResults: toolArgs.maxResults,
                   pageToken: toolArgs.pageToken,
-                  includeSpamTrash: toolArgs.includeSpamTrash,
                   labelIds: toolArgs.labelIds,
                 })
               ),
@@ -277,144 +1668,216 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           ],
         };
 
-      case 'gmailGetMessage':
+      case 'gmailListHistory':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).getMessage('me', toolArgs.messageId, toolArgs.format)
+                await (client as any).listHistoryPage('me', toolArgs.startHistoryId, {
+                  labelId: toolArgs.labelId,
+                  historyTypes: toolArgs.historyTypes,
+                  maxResults: toolArgs.maxResults,
+                  pageToken: toolArgs.pageToken,
+                })
               ),
             },
           ],
         };
 
-      case 'gmailSearchMessages':
+      case 'gmailGetVacation':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getVacation('me')),
+            },
+          ],
+        };
+
+      case 'gmailUpdateVacation':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).searchMessages('me', toolArgs.query, {
-                  maxResults: toolArgs.maxResults,
-                  pageToken: toolArgs.pageToken,
-                  labelIds: toolArgs.labelIds,
+                await (client as any).updateVacation('me', {
+                  enableAutoReply: toolArgs.enableAutoReply,
+                  responseSubject: toolArgs.responseSubject,
+                  responseBodyPlainText: toolArgs.responseBodyPlainText,
+                  responseBodyHtml: toolArgs.responseBodyHtml,
+                  restrictToContacts: toolArgs.restrictToContacts,
+                  restrictToDomain: toolArgs.restrictToDomain,
+                  startTime: toolArgs.startTime,
+                  endTime: toolArgs.endTime,
                 })
               ),
             },
           ],
         };
 
-      case 'gmailSendMessage':
+      case 'gmailListSendAs':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).listSendAs('me')),
+            },
+          ],
+        };
+
+      case 'gmailGetSendAs':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getSendAs('me', toolArgs.sendAsEmail)),
+            },
+          ],
+        };
+
+      case 'gmailUpdateSendAs':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).sendMessage('me', {
-                  to: toolArgs.to,
-                  subject: toolArgs.subject,
-                  body: toolArgs.body,
-                  html: toolArgs.html,
-                  threadId: toolArgs.threadId,
-                  inReplyTo: toolArgs.inReplyTo,
+                await (client as any).updateSendAs('me', toolArgs.sendAsEmail, {
+                  displayName: toolArgs.displayName,
+                  replyToAddress: toolArgs.replyToAddress,
+                  signature: toolArgs.signature,
+                  isDefault: toolArgs.isDefault,
+                  treatAsAlias: toolArgs.treatAsAlias,
                 })
               ),
             },
           ],
         };
 
-      case 'gmailCreateDraft':
+      case 'gmailGetAutoForwarding':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getAutoForwarding('me')),
+            },
+          ],
+        };
+
+      case 'gmailUpdateAutoForwarding':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).createDraft('me', {
-                  to: toolArgs.to,
-                  subject: toolArgs.subject,
-                  body: toolArgs.body,
-                  html: toolArgs.html,
-                  threadId: toolArgs.threadId,
+                await (client as any).updateAutoForwarding('me', {
+                  enabled: toolArgs.enabled,
+                  emailAddress: toolArgs.emailAddress,
+                  disposition: toolArgs.disposition,
                 })
               ),
             },
           ],
         };
 
-      case 'gmailListLabels':
+      case 'gmailListForwardingAddresses':
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(await (client as any).listLabels()),
+              text: JSON.stringify(await (client as any).listForwardingAddresses('me')),
             },
           ],
         };
 
-      case 'gmailModifyMessageLabels':
+      case 'gmailGetImap':
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(await (client as any).getImap('me')),
+            },
+          ],
+        };
+
+      case 'gmailUpdateImap':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).modifyMessageLabels('me', toolArgs.messageId, {
-                  addLabelIds: toolArgs.addLabelIds,
-                  removeLabelIds: toolArgs.removeLabelIds,
+                await (client as any).updateImap('me', {
+                  enabled: toolArgs.enabled,
+                  autoExpunge: toolArgs.autoExpunge,
+                  expungeBehavior: toolArgs.expungeBehavior,
+                  maxFolderSize: toolArgs.maxFolderSize,
                 })
               ),
             },
           ],
         };
 
-      case 'gmailTrashMessage':
+      case 'gmailGetPop':
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(await (client as any).trashMessage('me', toolArgs.messageId)),
+              text: JSON.stringify(await (client as any).getPop('me')),
             },
           ],
         };
 
-      case 'gmailUntrashMessage':
+      case 'gmailUpdatePop':
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(await (client as any).untrashMessage('me', toolArgs.messageId)),
+              text: JSON.stringify(
+                await (client as any).updatePop('me', {
+                  accessWindow: toolArgs.accessWindow,
+                  disposition: toolArgs.disposition,
+                })
+              ),
             },
           ],
         };
 
-      case 'gmailListThreads':
+      case 'gmailWatch':
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).listThreads('me', {
-                  q: toolArgs.q,
-                  maxResults: toolArgs.maxResults,
-                  pageToken: toolArgs.pageToken,
+                await (client as any).watch('me', toolArgs.topicName, {
                   labelIds: toolArgs.labelIds,
+                  labelFilterBehavior: toolArgs.labelFilterBehavior,
                 })
               ),
             },
           ],
         };
 
-      case 'gmailGetThread':
+      case 'gmailStopWatch':
+        await (client as any).stopWatch('me');
+        return {
+          content: [{ type: 'text', text: JSON.stringify({ stopped: true }) }],
+        };
+
+      case 'gmailGetThread': {
+        const compact = compactOptions(toolArgs);
         return {
           content: [
             {
               type: 'text',
               text: JSON.stringify(
-                await (client as any).getThread('me', toolArgs.threadId, toolArgs.format)
+                compact
+                  ? compactThread(await (client as any).getThread('me', toolArgs.threadId, 'parsed'), compact)
+                  : await (client as any).getThread('me', toolArgs.threadId, toolArgs.format)
               ),
             },
           ],
         };
+      }
 
       case 'gmailArchiveMessage':
         return {
@@ -452,6 +1915,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
     }
   } catch (error) {
+    if (error instanceof GmailValidationError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'validation_error', field: error.field, message: error.message }),
+          },
+        ],
+        isError: true,
+      };
+    }
+    if (error instanceof GmailHistoryExpiredError) {
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({ error: 'history_expired', startHistoryId: error.startHistoryId, message: error.message }),
+          },
+        ],
+        isError: true,
+      };
+    }
     const message = error instanceof Error ? error.message : String(error);
     console.error(`Tool error: ${message}`);
     return {
@@ -466,13 +1951,125 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   }
 });
 
-async function main() {
+const AUTH_USAGE = `Usage: gmail-mcp auth [--no-browser] [--token-file <path> | --account <name>] [--scopes <scope,...>]
+
+Authorizes Gmail access and writes the tokens to --token-file, GMAIL_TOKEN_FILE
+or ./token.json. Requires GOOGLE_CLIENT_ID and GOOGLE_CLIENT_SECRET from a
+Desktop OAuth client.
+
+  --no-browser   Print the consent URL and paste back the code or the URL the
+                 browser was redirected to (for headless machines)
+  --token-file   Where to write the tokens
+  --account      Write the tokens for this account from GMAIL_ACCOUNTS; in an
+                 account directory a new name adds the account
+  --scopes       Comma-separated OAuth scopes (default: full Gmail access plus
+                 settings)`;
+
+function openBrowser(url: string): void {
+  const [command, args] =
+    process.platform === 'darwin' ? ['open', [url]]
+    : process.platform === 'win32' ? ['rundll32', ['url.dll,FileProtocolHandler', url]]
+    : ['xdg-open', [url]];
+  const child = spawn(command, args, { stdio: 'ignore', detached: true });
+  // No browser available; the URL is printed anyway
+  child.on('error', () => undefined);
+  child.unref();
+}
+
+async function prompt(question: string): Promise<string> {
+  const rl = readline.createInterface({ input: process.stdin, output: process.stdout });
+  try {
+    return await new Promise<string>((resolve) => rl.question(question, resolve));
+  } finally {
+    rl.close();
+  }
+}
+
+async function runAuthCommand(argv: string[]) {
+  const args = parseAuthArgs(argv);
+  if (args.help) {
+    console.log(AUTH_USAGE);
+    return;
+  }
+
+  let tokenFile = args.tokenFile;
+  let store = tokenStoreFromEnv(tokenFile);
+  if (args.account) {
+    if (args.tokenFile) {
+      throw new Error('--token-file and --account cannot be combined');
+    }
+    if (!process.env.GMAIL_ACCOUNTS) {
+      throw new Error('--account needs GMAIL_ACCOUNTS to point at an account config file or directory');
+    }
+    const target = accountTokenFile(process.env.GMAIL_ACCOUNTS, args.account);
+    tokenFile = target.tokenFile;
+    const encrypted = target.encrypted ?? Boolean(store);
+    store = encrypted ? new EncryptedFileTokenStore(tokenFile) : undefined;
+  }
+
+  const result = await authorize({
+    scopes: args.scopes,
+    tokenFile,
+    store,
+    onAuthUrl: (url) => {
+      if (args.noBrowser) {
+        console.log(`Open this URL in a browser on any machine and approve access:\n\n${url}\n`);
+        console.log('The browser then fails to load a 127.0.0.1 page; copy that page\'s URL from the address bar.');
+        return;
+      }
+      console.log(`Opening your browser to approve access. If it does not open, visit:\n\n${url}\n`);
+      openBrowser(url);
+    },
+    promptForCode: args.noBrowser ? () => prompt('Paste the URL or authorization code: ') : undefined,
+  });
+
+  const written = result.tokenFile ?? path.resolve(tokenFile || process.env.GMAIL_TOKEN_FILE || './token.json');
+  console.log(`Tokens written to ${written}${store ? ' (encrypted)' : ''}`);
+}
+
+export interface RunServerOptions {
+  // Where tool calls without tokens load them from (default: tokenStoreFromEnv())
+  tokenStore?: TokenStore;
+  // Named accounts, or the path of an account config file or directory (default: GMAIL_ACCOUNTS)
+  accounts?: AccountConfig | string;
+  // Retry policy for Gmail API calls; false turns retries off (default: GMAIL_RETRY_* variables)
+  retry?: RetryPolicy | false;
+}
+
+/**
+ * Serves the tools over stdio. Embedders can pass their own token store,
+ * for example one backed by a secret manager.
+ */
+export async function runServer(options: RunServerOptions = {}) {
+  tokenStore = options.tokenStore ?? tokenStoreFromEnv();
+  const accounts = options.accounts ?? process.env.GMAIL_ACCOUNTS;
+  accountConfig = typeof accounts === 'string' ? loadAccountConfig(accounts) : accounts;
+  const retry = options.retry ?? retryPolicyFromEnv() ?? {};
+  // stdout carries the protocol, so retries are reported on stderr
+  retryPolicy = retry && !retry.onRetry
+    ? { ...retry, onRetry: ({ attempt, delayMs }) => console.error(`Gmail API call failed (attempt ${attempt}); retrying in ${delayMs} ms`) }
+    : retry;
+  // Clients built before this point used the previous settings
+  defaultClient = undefined;
+  accountClients.clear();
+  serviceAccountClients.clear();
   const transport = new StdioServerTransport();
   await server.connect(transport);
   console.error('Gmail MCP server running on stdio');
 }
 
-main().catch((error) => {
-  console.error('Fatal error:', error);
-  process.exit(1);
-});
+async function main() {
+  const [command, ...args] = process.argv.slice(2);
+  if (command === 'auth') {
+    await runAuthCommand(args);
+    return;
+  }
+  await runServer();
+}
+
+if (require.main === module) {
+  main().catch((error) => {
+    console.error('Fatal error:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,61 @@
+import { SendMessageOptions } from './types';
+import { GmailValidationError } from './errors';
+import { htmlToText, resolveBodies } from './html';
+
+// Gmail settings take timestamps as milliseconds since the epoch in a string.
+// Accept a Date, a number of milliseconds, a numeric string or anything
+// Date.parse understands (e.g. "2026-05-01T09:00:00Z").
+export function toEpochMillis(value: Date | number | string, field: string): string {
+  let millis: number;
+  if (value instanceof Date) {
+    millis = value.getTime();
+  } else if (typeof value === 'number') {
+    millis = value;
+  } else {
+    millis = /^\d+$/.test(value.trim()) ? Number(value) : Date.parse(value);
+  }
+
+  if (!Number.isFinite(millis)) {
+    throw new GmailValidationError(field, `"${value}" is not a valid date`);
+  }
+  return String(Math.trunc(millis));
+}
+
+// Append a send-as signature (stored by Gmail as HTML) to an outgoing message.
+// HTML bodies get the signature as HTML; plain-text bodies get it converted to
+// text below the conventional "-- " separator.
+export function appendSignature(options: SendMessageOptions, signature: string): SendMessageOptions {
+  if (!signature.trim()) {
+    return options;
+  }
+
+  const textSignature = `\r\n\r\n-- \r\n${htmlToText(signature)}`;
+  const { html } = resolveBodies(options);
+
+  if (html !== undefined) {
+    return {
+      ...options,
+      html: `${html}<br><br><div class="gmail_signature">${signature}</div>`,
+      // An explicit text alternative needs the signature too; otherwise it is
+      // derived from the HTML, signature included
+      text: options.text === undefined ? undefined : options.text + textSignature,
+    };
+  }
+
+  if (options.text !== undefined) {
+    return { ...options, text: options.text + textSignature };
+  }
+  return { ...options, body: (options.body || '') + textSignature };
+}
+
+// Gmail's settings updates replace the whole resource; overlay the changes
+// that were actually given onto the current values.
+export function mergeSettings<T extends object>(current: T, changes: Partial<T>): T {
+  const merged = { ...current };
+  for (const [key, value] of Object.entries(changes)) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
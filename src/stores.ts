@@ -0,0 +1,276 @@
+import * as crypto from 'crypto';
+import { promises as fs } from 'fs';
+import * as path from 'path';
+import { promisify } from 'util';
+import { EncryptedTokenStoreOptions, Tokens, TokenStore } from './types';
+import { mergeRefreshedTokens } from './tokens';
+import { writeFileAtomic } from './files';
+
+const scrypt = promisify(crypto.scrypt) as (
+  password: crypto.BinaryLike,
+  salt: crypto.BinaryLike,
+  keylen: number,
+  options: crypto.ScryptOptions
+) => Promise<Buffer>;
+
+const CIPHER = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+// scrypt cost parameters; 128 * N * r bytes must stay under Node's 32 MB default maxmem
+const SCRYPT_PARAMS = { N: 2 ** 14, r: 8, p: 1 };
+const AAD = Buffer.from('gmail-mcp-lib/tokens/v1');
+
+interface EncryptedTokenFile {
+  version: 1;
+  cipher: typeof CIPHER;
+  kdf?: { name: 'scrypt'; salt: string; N: number; r: number; p: number };
+  iv: string;
+  tag: string;
+  ciphertext: string;
+}
+
+function defaultTokenFile(): string {
+  return process.env.GMAIL_TOKEN_FILE || './token.json';
+}
+
+async function readJson(filePath: string): Promise<unknown> {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  try {
+    return JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Failed to read or parse token file at ${filePath}`);
+  }
+}
+
+// Tokens are secrets, so their files are owner-only
+async function writeTokenFile(filePath: string, content: string): Promise<void> {
+  await writeFileAtomic(filePath, content, { mode: 0o600 });
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const TOKEN_FIELD_TYPES: Record<keyof Tokens, 'string' | 'number'> = {
+  access_token: 'string',
+  refresh_token: 'string',
+  expiry_date: 'number',
+  token_type: 'string',
+  accessToken: 'string',
+  refreshToken: 'string',
+  expiryDate: 'number',
+  tokenType: 'string',
+};
+
+// An object whose token fields, where present, have the right types. Other
+// fields (scope, id_token, ...) are kept as they are.
+function isTokens(value: unknown): value is Tokens {
+  return isRecord(value) && Object.entries(TOKEN_FIELD_TYPES)
+    .every(([field, type]) => value[field] === undefined || value[field] === null || typeof value[field] === type);
+}
+
+function assertTokens(value: unknown, source: string): Tokens {
+  if (!isTokens(value)) {
+    throw new Error(`${source} does not hold Gmail tokens`);
+  }
+  return value;
+}
+
+async function unlinkIfExists(filePath: string): Promise<void> {
+  try {
+    await fs.unlink(filePath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+function parseKey(key: Buffer | string): Buffer {
+  const bytes = Buffer.isBuffer(key)
+    ? key
+    : /^[0-9a-f]{64}$/i.test(key) ? Buffer.from(key, 'hex') : Buffer.from(key, 'base64');
+  if (bytes.length !== KEY_BYTES) {
+    throw new Error(`Token encryption key must be ${KEY_BYTES} bytes, given as base64 or hex`);
+  }
+  return bytes;
+}
+
+// Reads tokens from an environment variable holding JSON. Saving only
+// updates this process's environment.
+export class EnvTokenStore implements TokenStore {
+  constructor(private readonly variable: string = 'GMAIL_TOKEN') {}
+
+  async load(): Promise<Tokens | undefined> {
+    const value = process.env[this.variable];
+    if (!value) {
+      return undefined;
+    }
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(value);
+    } catch (error) {
+      throw new Error(`${this.variable} environment variable is not valid JSON`);
+    }
+    return assertTokens(parsed, `${this.variable} environment variable`);
+  }
+
+  async save(tokens: Tokens): Promise<void> {
+    process.env[this.variable] = JSON.stringify(tokens);
+  }
+
+  async delete(): Promise<void> {
+    delete process.env[this.variable];
+  }
+}
+
+// Plain JSON token file, the format `resolveTokens` reads. Saving merges
+// into the existing file so its snake_case or camelCase shape is kept.
+export class FileTokenStore implements TokenStore {
+  private readonly filePath: string;
+
+  constructor(filePath: string = defaultTokenFile()) {
+    this.filePath = path.resolve(filePath);
+  }
+
+  async load(): Promise<Tokens | undefined> {
+    const file = await readJson(this.filePath);
+    return file === undefined ? undefined : assertTokens(file, `Token file at ${this.filePath}`);
+  }
+
+  async save(tokens: Tokens): Promise<void> {
+    const current = await this.load().catch(() => undefined);
+    const merged = current ? mergeRefreshedTokens(current, tokens) : tokens;
+    await writeTokenFile(this.filePath, JSON.stringify(merged, null, 2));
+  }
+
+  async delete(): Promise<void> {
+    await unlinkIfExists(this.filePath);
+  }
+}
+
+/**
+ * Token file encrypted with AES-256-GCM. The key is either given directly
+ * or derived from a passphrase with scrypt, using a random salt stored in
+ * the file. A plaintext token file found at the path is encrypted in place
+ * on first load.
+ */
+export class EncryptedFileTokenStore implements TokenStore {
+  private readonly filePath: string;
+  private readonly key?: Buffer;
+  private readonly passphrase?: string;
+  // Derived keys by salt, so scrypt runs once per file rather than per load
+  private readonly derivedKeys = new Map<string, Buffer>();
+  private salt?: string;
+
+  constructor(filePath: string = defaultTokenFile(), options: EncryptedTokenStoreOptions = {}) {
+    this.filePath = path.resolve(filePath);
+    const key = options.key ?? process.env.GMAIL_TOKEN_KEY;
+    this.passphrase = options.passphrase ?? process.env.GMAIL_TOKEN_PASSPHRASE;
+    if (key) {
+      this.key = parseKey(key);
+    } else if (!this.passphrase) {
+      throw new Error('EncryptedFileTokenStore needs a key or passphrase (GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE)');
+    }
+  }
+
+  async load(): Promise<Tokens | undefined> {
+    const file = await readJson(this.filePath);
+    if (file === undefined) {
+      return undefined;
+    }
+    if (!isRecord(file) || typeof file.ciphertext !== 'string') {
+      const tokens = assertTokens(file, `Token file at ${this.filePath}`);
+      await this.save(tokens);
+      return tokens;
+    }
+    if (file.version !== 1 || file.cipher !== CIPHER || typeof file.iv !== 'string' || typeof file.tag !== 'string') {
+      throw new Error(`Unsupported token file format at ${this.filePath}`);
+    }
+
+    const encrypted = file as unknown as EncryptedTokenFile;
+    const key = await this.keyFor(encrypted);
+    let plaintext: Buffer;
+    try {
+      const decipher = crypto.createDecipheriv(CIPHER, key, Buffer.from(encrypted.iv, 'base64'));
+      decipher.setAAD(AAD);
+      decipher.setAuthTag(Buffer.from(encrypted.tag, 'base64'));
+      plaintext = Buffer.concat([decipher.update(Buffer.from(encrypted.ciphertext, 'base64')), decipher.final()]);
+    } catch (error) {
+      throw new Error(`Failed to decrypt token file at ${this.filePath}: wrong key or the file was modified`);
+    }
+    return assertTokens(JSON.parse(plaintext.toString('utf-8')), `Token file at ${this.filePath}`);
+  }
+
+  async save(tokens: Tokens): Promise<void> {
+    const file: Omit<EncryptedTokenFile, 'iv' | 'tag' | 'ciphertext'> = { version: 1, cipher: CIPHER };
+    if (!this.key) {
+      this.salt ??= crypto.randomBytes(16).toString('base64');
+      file.kdf = { name: 'scrypt', salt: this.salt, ...SCRYPT_PARAMS };
+    }
+
+    const key = await this.keyFor(file);
+    const iv = crypto.randomBytes(IV_BYTES);
+    const cipher = crypto.createCipheriv(CIPHER, key, iv);
+    cipher.setAAD(AAD);
+    const ciphertext = Buffer.concat([cipher.update(JSON.stringify(tokens), 'utf-8'), cipher.final()]);
+
+    const encrypted: EncryptedTokenFile = {
+      ...file,
+      iv: iv.toString('base64'),
+      tag: cipher.getAuthTag().toString('base64'),
+      ciphertext: ciphertext.toString('base64'),
+    };
+    await writeTokenFile(this.filePath, JSON.stringify(encrypted, null, 2));
+  }
+
+  async delete(): Promise<void> {
+    await unlinkIfExists(this.filePath);
+  }
+
+  private async keyFor(file: Pick<EncryptedTokenFile, 'kdf'>): Promise<Buffer> {
+    if (!file.kdf) {
+      if (!this.key) {
+        throw new Error(`Token file at ${this.filePath} was encrypted with a key; set GMAIL_TOKEN_KEY`);
+      }
+      return this.key;
+    }
+    if (!this.passphrase) {
+      throw new Error(`Token file at ${this.filePath} was encrypted with a passphrase; set GMAIL_TOKEN_PASSPHRASE`);
+    }
+
+    const { salt, N, r, p } = file.kdf;
+    let key = this.derivedKeys.get(salt);
+    if (!key) {
+      key = await scrypt(this.passphrase, Buffer.from(salt, 'base64'), KEY_BYTES, { N, r, p });
+      this.derivedKeys.set(salt, key);
+    }
+    // Keep saving under the salt whose key is already derived
+    this.salt ??= salt;
+    return key;
+  }
+}
+
+// The encrypted file store when GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE
+// is set; otherwise undefined, and tokens resolve as before. GMAIL_TOKEN
+// cannot be combined with them: the encrypted store would silently ignore it.
+export function tokenStoreFromEnv(filePath?: string): TokenStore | undefined {
+  if (process.env.GMAIL_TOKEN_KEY || process.env.GMAIL_TOKEN_PASSPHRASE) {
+    if (process.env.GMAIL_TOKEN) {
+      throw new Error(
+        'GMAIL_TOKEN cannot be combined with GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE; '
+          + 'keep the tokens in the encrypted token file instead'
+      );
+    }
+    return new EncryptedFileTokenStore(filePath);
+  }
+  return undefined;
+}
@@ -0,0 +1,90 @@
+import { promises as fs } from 'fs';
+import { CheckpointStore, HistoryEvent, Message } from './types';
+import { writeFileAtomic } from './files';
+
+interface HistoryMessageChange {
+  message?: Message;
+  labelIds?: string[];
+}
+
+export interface HistoryRecord {
+  id?: string | null;
+  messagesAdded?: HistoryMessageChange[];
+  messagesDeleted?: HistoryMessageChange[];
+  labelsAdded?: HistoryMessageChange[];
+  labelsRemoved?: HistoryMessageChange[];
+}
+
+// Flatten history records into change events, oldest first. Within a record,
+// additions come before label changes and deletions last.
+export function historyToEvents(records: HistoryRecord[]): HistoryEvent[] {
+  const events: HistoryEvent[] = [];
+
+  for (const record of records) {
+    const historyId = record.id || '';
+    for (const change of record.messagesAdded || []) {
+      if (change.message) {
+        events.push({ type: 'messageAdded', historyId, message: change.message });
+      }
+    }
+    for (const change of record.labelsAdded || []) {
+      if (change.message) {
+        events.push({ type: 'labelsAdded', historyId, message: change.message, labelIds: change.labelIds || [] });
+      }
+    }
+    for (const change of record.labelsRemoved || []) {
+      if (change.message) {
+        events.push({ type: 'labelsRemoved', historyId, message: change.message, labelIds: change.labelIds || [] });
+      }
+    }
+    for (const change of record.messagesDeleted || []) {
+      if (change.message) {
+        events.push({ type: 'messageDeleted', historyId, message: change.message });
+      }
+    }
+  }
+
+  return events;
+}
+
+// Keeps checkpoints for the life of the process; useful for tests and
+// long-running workers.
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, string>();
+
+  async load(key: string): Promise<string | undefined> {
+    return this.checkpoints.get(key);
+  }
+
+  async save(key: string, historyId: string): Promise<void> {
+    this.checkpoints.set(key, historyId);
+  }
+}
+
+// Stores checkpoints as a JSON object of key -> historyId. Writes go to a
+// temporary file that is renamed into place, so a crash never leaves a
+// half-written checkpoint.
+export class FileCheckpointStore implements CheckpointStore {
+  constructor(private readonly filePath: string) {}
+
+  async load(key: string): Promise<string | undefined> {
+    return (await this.readAll())[key];
+  }
+
+  async save(key: string, historyId: string): Promise<void> {
+    const checkpoints = await this.readAll();
+    checkpoints[key] = historyId;
+    await writeFileAtomic(this.filePath, JSON.stringify(checkpoints, null, 2));
+  }
+
+  private async readAll(): Promise<Record<string, string>> {
+    try {
+      return JSON.parse(await fs.readFile(this.filePath, 'utf-8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return {};
+      }
+      throw error;
+    }
+  }
+}
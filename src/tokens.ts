@@ -1,6 +1,7 @@
 import * as fs from 'fs';
 import * as path from 'path';
 import { Tokens } from './types';
+import { writeFileAtomicSync } from './files';
 
 export function resolveTokens(provided?: Tokens): Tokens {
   // Priority 1: Directly provided tokens (highest)
@@ -19,8 +20,7 @@ export function resolveTokens(provided?: Tokens): Tokens {
   }
 
   // Priority 3: JSON file (lowest)
-  const tokenFile = process.env.GMAIL_TOKEN_FILE || './token.json';
-  const tokenPath = path.resolve(tokenFile);
+  const tokenPath = tokenFilePath();
 
   if (fs.existsSync(tokenPath)) {
     try {
@@ -35,3 +35,69 @@ export function resolveTokens(provided?: Tokens): Tokens {
     'No Gmail tokens found. Provide tokens via: 1) GMAIL_TOKEN env var, 2) GMAIL_TOKEN_FILE env var pointing to JSON file, 3) direct function parameter'
   );
 }
+
+function tokenFilePath(): string {
+  return path.resolve(process.env.GMAIL_TOKEN_FILE || './token.json');
+}
+
+/**
+ * Returns the path of the token file `resolveTokens()` reads from, or
+ * undefined when tokens come from GMAIL_TOKEN or no file exists.
+ */
+export function resolveTokenFile(): string | undefined {
+  if (process.env.GMAIL_TOKEN) {
+    return undefined;
+  }
+  const tokenPath = tokenFilePath();
+  return fs.existsSync(tokenPath) ? tokenPath : undefined;
+}
+
+/**
+ * Merges refreshed OAuth2 credentials into existing tokens, writing them
+ * back in the shape the original used. The refreshed values may be in
+ * either shape. A refresh without a new refresh token keeps the existing
+ * one, and unrelated fields are preserved.
+ */
+export function mergeRefreshedTokens(original: Tokens, refreshed: Tokens): Tokens {
+  const camelCase = original.access_token === undefined && original.refresh_token === undefined
+    && (original.accessToken !== undefined || original.refreshToken !== undefined);
+  const merged: Tokens = { ...original };
+  const fields: Array<[keyof Tokens, keyof Tokens]> = [
+    ['access_token', 'accessToken'],
+    ['refresh_token', 'refreshToken'],
+    ['expiry_date', 'expiryDate'],
+    ['token_type', 'tokenType'],
+  ];
+
+  for (const [snake, camel] of fields) {
+    const value = refreshed[snake] ?? refreshed[camel];
+    if (value === undefined || value === null) {
+      continue;
+    }
+    const record = merged as Record<string, unknown>;
+    delete record[camelCase ? snake : camel];
+    record[camelCase ? camel : snake] = value;
+  }
+
+  return merged;
+}
+
+/**
+ * Writes refreshed credentials back to a token file. The current file
+ * contents are re-read so fields written by other processes survive, and
+ * the file is replaced atomically via a temporary file and rename.
+ */
+export function persistTokens(filePath: string, refreshed: Tokens, fallback: Tokens = {}): Tokens {
+  let current = fallback;
+  if (fs.existsSync(filePath)) {
+    try {
+      current = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+    } catch (error) {
+      current = fallback;
+    }
+  }
+
+  const merged = mergeRefreshedTokens(current, refreshed);
+  writeFileAtomicSync(filePath, JSON.stringify(merged, null, 2), { mode: 0o600 });
+  return merged;
+}
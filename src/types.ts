@@ -1,3 +1,5 @@
+import { IncomingMessage, ServerResponse } from 'http';
+
 export interface Tokens {
   // Support both snake_case (OAuth2 standard) and camelCase
   access_token?: string;
@@ -10,6 +12,120 @@ export interface Tokens {
   tokenType?: string;
 }
 
+export interface TokenStore {
+  // Resolves undefined when nothing has been saved yet
+  load(): Promise<Tokens | undefined>;
+  save(tokens: Tokens): Promise<void>;
+  delete(): Promise<void>;
+}
+
+export interface EncryptedTokenStoreOptions {
+  // 32-byte key as a Buffer, base64 or hex (default GMAIL_TOKEN_KEY)
+  key?: Buffer | string;
+  // Passphrase the key is derived from with scrypt (default GMAIL_TOKEN_PASSPHRASE)
+  passphrase?: string;
+}
+
+export interface ServiceAccountKey {
+  type?: string;
+  client_email: string;
+  private_key: string;
+  private_key_id?: string;
+}
+
+export interface ServiceAccountOptions {
+  // Path to the key JSON file (default GOOGLE_APPLICATION_CREDENTIALS)
+  keyFile?: string;
+  // Parsed key contents, used instead of a file
+  key?: ServiceAccountKey;
+  // User to impersonate through domain-wide delegation
+  subject?: string;
+  // Must match the scopes granted to the client ID in the Admin console (default DEFAULT_AUTH_SCOPES)
+  scopes?: string[];
+}
+
+export interface AccountProfile {
+  name: string;
+  description?: string;
+  // Exactly one token source: a token file, an environment variable or a service account
+  tokenFile?: string;
+  // Read tokenFile with EncryptedFileTokenStore (default: when GMAIL_TOKEN_KEY or GMAIL_TOKEN_PASSPHRASE is set)
+  encrypted?: boolean;
+  tokenEnv?: string;
+  serviceAccount?: ServiceAccountOptions;
+}
+
+export interface AccountConfig {
+  defaultAccount?: string;
+  accounts: AccountProfile[];
+}
+
+export interface AccountSummary {
+  name: string;
+  description?: string;
+  type: 'oauth' | 'service_account';
+  default: boolean;
+}
+
+export interface AccountCredentials {
+  store?: TokenStore;
+  serviceAccount?: ServiceAccountOptions;
+}
+
+export interface AuthorizeOptions {
+  // OAuth client credentials (default GOOGLE_CLIENT_ID / GOOGLE_CLIENT_SECRET)
+  clientId?: string;
+  clientSecret?: string;
+  scopes?: string[];
+  // Where to write the tokens (default GMAIL_TOKEN_FILE or ./token.json)
+  tokenFile?: string;
+  // Save the tokens here instead of a plain token file
+  store?: TokenStore;
+  // Called with the consent URL once it is ready to be opened
+  onAuthUrl: (url: string) => void | Promise<void>;
+  // When set, the code is read from this prompt instead of a loopback listener
+  promptForCode?: () => Promise<string>;
+  // Give up waiting for the loopback redirect after this long (default 5 minutes)
+  timeoutMs?: number;
+}
+
+export interface AuthorizeResult {
+  tokens: Tokens;
+  // Unset when the tokens went to a custom store
+  tokenFile?: string;
+}
+
+export interface AuthCommandArgs {
+  noBrowser: boolean;
+  scopes?: string[];
+  tokenFile?: string;
+  account?: string;
+  help: boolean;
+}
+
+export interface RetryPolicy {
+  // Attempts per call including the first one; 1 turns retries off (default 4)
+  maxAttempts?: number;
+  // Delay before the first retry, doubled for each one after it (default 500 ms)
+  baseDelayMs?: number;
+  // Cap on a single delay; a longer Retry-After fails the call instead of waiting (default 30 seconds)
+  maxDelayMs?: number;
+  // Pick each delay at random between zero and the backoff value (default true)
+  jitter?: boolean;
+  // Also retry server errors and dropped connections on calls that send or
+  // create something, which may then happen twice (default false)
+  retryNonIdempotent?: boolean;
+  // Called before waiting for each retry
+  onRetry?: (attempt: RetryAttempt) => void;
+}
+
+export interface RetryAttempt {
+  // The attempt that failed, starting at 1
+  attempt: number;
+  delayMs: number;
+  error: unknown;
+}
+
 export interface Message {
   id: string;
   threadId: string;
@@ -23,6 +139,7 @@ export interface Message {
 }
 
 export interface MessagePayload {
+  partId?: string;
   mimeType?: string;
   filename?: string;
   headers?: MessageHeader[];
@@ -54,6 +171,33 @@ export interface Label {
   labelListVisibility?: string;
   messageListVisibility?: string;
   type?: string;
+  messagesTotal?: number;
+  messagesUnread?: number;
+  threadsTotal?: number;
+  threadsUnread?: number;
+  color?: LabelColor;
+}
+
+export interface LabelColor {
+  textColor: string;
+  backgroundColor: string;
+}
+
+export type LabelListVisibility = 'labelShow' | 'labelShowIfUnread' | 'labelHide';
+export type MessageListVisibility = 'show' | 'hide';
+
+export interface CreateLabelOptions {
+  name: string;
+  labelListVisibility?: LabelListVisibility;
+  messageListVisibility?: MessageListVisibility;
+  color?: LabelColor;
+}
+
+export interface UpdateLabelOptions {
+  name?: string;
+  labelListVisibility?: LabelListVisibility;
+  messageListVisibility?: MessageListVisibility;
+  color?: LabelColor;
 }
 
 export interface Draft {
@@ -61,12 +205,305 @@ export interface Draft {
   message?: Message;
 }
 
+export type HistoryType = 'messageAdded' | 'messageDeleted' | 'labelAdded' | 'labelRemoved';
+
+// A single mailbox change. `message` carries only id, threadId and labelIds.
+export type HistoryEvent =
+  | { type: 'messageAdded'; historyId: string; message: Message }
+  | { type: 'messageDeleted'; historyId: string; message: Message }
+  | { type: 'labelsAdded'; historyId: string; message: Message; labelIds: string[] }
+  | { type: 'labelsRemoved'; historyId: string; message: Message; labelIds: string[] };
+
+export interface ListHistoryOptions {
+  labelId?: string;
+  historyTypes?: HistoryType[];
+  maxResults?: number;
+  pageToken?: string;
+}
+
+export interface HistoryPage {
+  events: HistoryEvent[];
+  // The mailbox's current history ID; use it as the next starting point
+  historyId: string;
+  nextPageToken?: string;
+}
+
+export interface CheckpointStore {
+  load(key: string): Promise<string | undefined>;
+  save(key: string, historyId: string): Promise<void>;
+}
+
+export interface SyncOptions {
+  // Falls back to the stored checkpoint when omitted
+  startHistoryId?: string;
+  store?: CheckpointStore;
+  // Checkpoint key; defaults to the user ID
+  key?: string;
+  labelId?: string;
+  historyTypes?: HistoryType[];
+  // Search query limiting which messages a full sync lists
+  fullSyncQuery?: string;
+}
+
+export interface SyncResult {
+  mode: 'incremental' | 'full';
+  // Why a full sync ran instead of an incremental one
+  reason?: 'no-checkpoint' | 'history-expired';
+  historyId: string;
+  events: HistoryEvent[];
+  // Full sync only: every message currently matching, as ID stubs
+  messages?: Message[];
+}
+
+export interface WatchOptions {
+  labelIds?: string[];
+  // 'include' notifies only for the given labels; 'exclude' for all others
+  labelFilterBehavior?: 'include' | 'exclude';
+}
+
+export interface WatchResponse {
+  historyId: string;
+  // Expiry as milliseconds since the epoch
+  expiration: string;
+}
+
+export interface PushNotification {
+  emailAddress: string;
+  historyId: string;
+  messageId?: string;
+  publishTime?: string;
+  subscription?: string;
+}
+
+export interface WatchRenewalOptions {
+  // Renew at least this often (default 24 hours)
+  intervalMs?: number;
+  // Renew at least this long before the watch expires (default 1 hour)
+  renewBeforeMs?: number;
+  // Wait before retrying a failed renewal (default 1 minute)
+  retryDelayMs?: number;
+  onRenewed?: (response: WatchResponse) => void;
+  // Called for every failed registration (default: log to stderr)
+  onError?: (error: unknown) => void;
+}
+
+export interface WatchRenewal {
+  // Resolves with the first successful registration
+  ready: Promise<WatchResponse>;
+  current(): WatchResponse | undefined;
+  stop(): void;
+}
+
+export interface HistorySource {
+  syncMailbox(userId: string | undefined, options?: SyncOptions): Promise<SyncResult>;
+  // Used by createPushHandler to ignore notifications for other mailboxes
+  getProfile?(userId?: string): Promise<{ emailAddress: string }>;
+}
+
+export interface PushHandlerOptions {
+  // Client used for the follow-up history fetch, or a function returning the
+  // client for a notification's mailbox (undefined ignores the notification)
+  client: HistorySource | ((emailAddress: string) => HistorySource | undefined | Promise<HistorySource | undefined>);
+  // Holds the last processed history ID per mailbox (default in-memory)
+  store?: CheckpointStore;
+  labelId?: string;
+  // When set, requests must carry ?token=<value> in the push endpoint URL
+  verificationToken?: string;
+  onChanges: (result: SyncResult, notification: PushNotification) => void | Promise<void>;
+  onError?: (error: unknown, notification?: PushNotification) => void;
+}
+
+export type PushHandler = (req: IncomingMessage, res: ServerResponse) => Promise<void>;
+
+export interface FilterCriteria {
+  from?: string;
+  to?: string;
+  subject?: string;
+  // Gmail search syntax, e.g. "list:news.example.com" or "has:attachment"
+  query?: string;
+  negatedQuery?: string;
+  hasAttachment?: boolean;
+  excludeChats?: boolean;
+  // Message size in bytes
+  size?: number;
+  sizeComparison?: 'larger' | 'smaller';
+}
+
+export interface FilterAction {
+  addLabelIds?: string[];
+  removeLabelIds?: string[];
+  // Verified forwarding address
+  forward?: string;
+}
+
+export interface Filter {
+  id: string;
+  criteria: FilterCriteria;
+  action: FilterAction;
+}
+
+// FilterAction plus shorthands that expand to system label changes
+export interface FilterActionOptions extends FilterAction {
+  star?: boolean;
+  markImportant?: boolean;
+  neverImportant?: boolean;
+  markAsRead?: boolean;
+  archive?: boolean;
+  neverSpam?: boolean;
+  trash?: boolean;
+}
+
+export interface CreateFilterOptions {
+  criteria: FilterCriteria;
+  action: FilterActionOptions;
+}
+
+export interface SuggestFilterOptions {
+  // Match the mailing list (default when List-Id is present), the sender
+  // address, or every sender at the sender's domain
+  by?: 'list' | 'sender' | 'domain';
+  includeSubject?: boolean;
+}
+
+export interface VacationSettings {
+  enableAutoReply: boolean;
+  responseSubject?: string;
+  responseBodyPlainText?: string;
+  responseBodyHtml?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+  // Milliseconds since the epoch
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface UpdateVacationOptions {
+  enableAutoReply?: boolean;
+  responseSubject?: string;
+  responseBodyPlainText?: string;
+  responseBodyHtml?: string;
+  restrictToContacts?: boolean;
+  restrictToDomain?: boolean;
+  startTime?: Date | number | string;
+  endTime?: Date | number | string;
+}
+
+export interface SendAs {
+  sendAsEmail: string;
+  displayName?: string;
+  replyToAddress?: string;
+  // HTML signature
+  signature?: string;
+  isPrimary?: boolean;
+  isDefault?: boolean;
+  treatAsAlias?: boolean;
+  verificationStatus?: string;
+}
+
+export interface UpdateSendAsOptions {
+  displayName?: string;
+  replyToAddress?: string;
+  signature?: string;
+  isDefault?: boolean;
+  treatAsAlias?: boolean;
+}
+
+export type ForwardingDisposition = 'leaveInInbox' | 'archive' | 'trash' | 'markRead';
+
+export interface AutoForwarding {
+  enabled: boolean;
+  emailAddress?: string;
+  disposition?: ForwardingDisposition;
+}
+
+export interface ForwardingAddress {
+  forwardingEmail: string;
+  verificationStatus?: string;
+}
+
+export interface ImapSettings {
+  enabled: boolean;
+  autoExpunge?: boolean;
+  expungeBehavior?: 'archive' | 'trash' | 'deleteForever';
+  // Message limit per IMAP folder; 0 means no limit
+  maxFolderSize?: number;
+}
+
+export interface PopSettings {
+  accessWindow?: 'disabled' | 'fromNowOn' | 'allMail';
+  disposition?: ForwardingDisposition;
+}
+
+export interface ListDraftsOptions {
+  q?: string;
+  maxResults?: number;
+  pageToken?: string;
+  includeSpamTrash?: boolean;
+}
+
+export interface DraftPage {
+  drafts: Draft[];
+  nextPageToken?: string;
+  resultSizeEstimate?: number;
+}
+
 export interface ListMessagesOptions {
   q?: string;
   maxResults?: number;
   pageToken?: string;
   includeSpamTrash?: boolean;
   labelIds?: string[];
+  // Hydrate the listed messages in this format through a single batch request
+  format?: MessageFormat;
+  // Aborts the list request while it is in flight
+  signal?: AbortSignal;
+}
+
+export interface MessagePage {
+  messages: Message[];
+  nextPageToken?: string;
+  resultSizeEstimate?: number;
+}
+
+export interface ThreadPage {
+  threads: Thread[];
+  nextPageToken?: string;
+  resultSizeEstimate?: number;
+}
+
+export interface BatchError {
+  code: number;
+  message: string;
+}
+
+export interface BatchMessageResult {
+  id: string;
+  message?: Message;
+  error?: BatchError;
+}
+
+export interface IterateMessagesOptions {
+  // Stop after this many messages in total
+  limit?: number;
+  // maxResults per list request (at most 500)
+  pageSize?: number;
+  includeSpamTrash?: boolean;
+  labelIds?: string[];
+  // Fetch each message with getMessage in this format instead of yielding ID stubs
+  format?: MessageFormat;
+  // How many messages to fetch at once when format is set
+  concurrency?: number;
+  signal?: AbortSignal;
+}
+
+export interface IterateThreadsOptions {
+  limit?: number;
+  pageSize?: number;
+  includeSpamTrash?: boolean;
+  labelIds?: string[];
+  format?: 'full' | 'minimal' | 'metadata';
+  concurrency?: number;
+  signal?: AbortSignal;
 }
 
 export interface ListThreadsOptions {
@@ -75,6 +512,8 @@ export interface ListThreadsOptions {
   pageToken?: string;
   includeSpamTrash?: boolean;
   labelIds?: string[];
+  // Aborts the list request while it is in flight
+  signal?: AbortSignal;
 }
 
 export interface ModifyLabelsOptions {
@@ -82,20 +521,200 @@ export interface ModifyLabelsOptions {
   removeLabelIds?: string[];
 }
 
+export interface ModifyMatchingOptions {
+  includeSpamTrash?: boolean;
+  labelIds?: string[];
+}
+
+export interface ModifyMatchingResult {
+  modified: number;
+}
+
 export interface SendMessageOptions {
   to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  replyTo?: string | string[];
   subject?: string;
   body?: string;
-  html?: boolean;
+  // Plain-text body; sent alongside the HTML body as multipart/alternative
+  text?: string;
+  // true marks `body` as HTML; a string is used as the HTML body itself
+  html?: boolean | string;
   threadId?: string;
   labelIds?: string[];
   inReplyTo?: string;
+  // Full References chain; defaults to inReplyTo alone
+  references?: string[];
+  attachments?: OutgoingAttachment[];
+  headers?: Record<string, string>;
+  // Send from this send-as alias; From defaults to the alias's display name
+  sendAs?: string;
+  // Append the alias's signature (default true when sendAs is set)
+  appendSignature?: boolean;
 }
 
 export interface CreateDraftOptions {
   to: string | string[];
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  replyTo?: string | string[];
   subject?: string;
   body?: string;
-  html?: boolean;
+  // Plain-text body; sent alongside the HTML body as multipart/alternative
+  text?: string;
+  // true marks `body` as HTML; a string is used as the HTML body itself
+  html?: boolean | string;
   threadId?: string;
+  attachments?: OutgoingAttachment[];
+  headers?: Record<string, string>;
+}
+
+export interface OutgoingAttachment {
+  filename: string;
+  contentType?: string;
+  // Raw bytes or a base64 string; takes precedence over path
+  content?: Buffer | string;
+  path?: string;
+}
+
+export interface AttachmentInfo {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+  partId?: string;
+}
+
+export interface Attachment {
+  attachmentId?: string;
+  size: number;
+  data: string;
+}
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface AddressGroup {
+  group: string;
+  members: EmailAddress[];
+}
+
+export type AddressListItem = EmailAddress | AddressGroup;
+
+export interface Profile {
+  emailAddress: string;
+  messagesTotal?: number;
+  threadsTotal?: number;
+  historyId?: string;
+}
+
+export interface ReplyOptions {
+  body?: string;
+  text?: string;
+  html?: boolean | string;
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  attachments?: OutgoingAttachment[];
+  headers?: Record<string, string>;
+  labelIds?: string[];
+  // Append the original message below the reply, prefixed with "> "
+  quoteOriginal?: boolean;
+}
+
+export interface ReplyMode {
+  replyAll?: boolean;
+}
+
+export interface ForwardOptions {
+  body?: string;
+  text?: string;
+  html?: boolean | string;
+  cc?: string | string[];
+  bcc?: string | string[];
+  from?: string;
+  attachments?: OutgoingAttachment[];
+  headers?: Record<string, string>;
+  labelIds?: string[];
+  // Carry over the original message's attachments (default true)
+  includeAttachments?: boolean;
+}
+
+export type MessageFormat = 'full' | 'minimal' | 'raw' | 'metadata';
+
+export interface ParsedMessage {
+  id: string;
+  threadId: string;
+  labelIds: string[];
+  snippet?: string;
+  historyId?: string;
+  from?: EmailAddress;
+  to: EmailAddress[];
+  cc: EmailAddress[];
+  bcc: EmailAddress[];
+  replyTo: EmailAddress[];
+  subject?: string;
+  date?: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references: string[];
+  // Decoded header values keyed by lower-cased header name
+  headers: Record<string, string[]>;
+  text?: string;
+  html?: string;
+  attachments: AttachmentInfo[];
+}
+
+export interface ParsedThread {
+  id: string;
+  snippet?: string;
+  historyId?: string;
+  messages: ParsedMessage[];
+}
+
+export interface CompactOptions {
+  // Character budget for the body, or for all bodies together in a thread;
+  // the rest is reachable through nextCursor
+  maxBodyChars?: number;
+  // Body offset (thread: offset across all bodies) to continue from, as returned in nextCursor
+  cursor?: number;
+  // Collapse quoted replies and signatures (default true)
+  collapseQuotes?: boolean;
+}
+
+export interface CompactAttachment {
+  attachmentId: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+export interface CompactMessage {
+  id: string;
+  threadId: string;
+  date?: string;
+  from?: string;
+  to: string[];
+  cc: string[];
+  subject?: string;
+  labels: string[];
+  body: string;
+  totalBodyChars: number;
+  nextCursor?: number;
+  attachments: CompactAttachment[];
+}
+
+export interface CompactThread {
+  id: string;
+  messageCount: number;
+  // Only the messages whose bodies overlap this page
+  messages: CompactMessage[];
+  // Body characters across the whole thread; nextCursor is an offset into them
+  totalBodyChars: number;
+  nextCursor?: number;
 }
@@ -0,0 +1,228 @@
+import * as crypto from 'crypto';
+import { IncomingMessage } from 'http';
+import { HistorySource, PushHandler, PushHandlerOptions, PushNotification, WatchRenewal, WatchRenewalOptions, WatchResponse } from './types';
+import { MemoryCheckpointStore } from './sync';
+
+// Gmail stops a watch after 7 days; Google recommends renewing daily
+const DEFAULT_RENEW_INTERVAL_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RENEW_BEFORE_MS = 60 * 60 * 1000;
+const DEFAULT_RETRY_DELAY_MS = 60 * 1000;
+const MAX_PUSH_BODY_BYTES = 1024 * 1024;
+
+// Register a watch now and keep re-registering it before it expires. Timers
+// are unref'd so a pending renewal never keeps the process alive.
+//
+// A failed first registration (unknown topic, missing Pub/Sub permission)
+// rejects `ready` and ends the schedule. Later renewals that fail are retried
+// after retryDelayMs; their errors go to onError, or to stderr without one.
+export function scheduleWatchRenewal(register: () => Promise<WatchResponse>, options: WatchRenewalOptions = {}): WatchRenewal {
+  const intervalMs = options.intervalMs ?? DEFAULT_RENEW_INTERVAL_MS;
+  const renewBeforeMs = options.renewBeforeMs ?? DEFAULT_RENEW_BEFORE_MS;
+  const retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+  const onError = options.onError ?? ((error: unknown) => console.error('Gmail watch renewal failed:', error));
+
+  let current: WatchResponse | undefined;
+  let timer: NodeJS.Timeout | undefined;
+  let stopped = false;
+  let resolveReady!: (response: WatchResponse) => void;
+  let rejectReady!: (error: unknown) => void;
+  const ready = new Promise<WatchResponse>((resolve, reject) => {
+    resolveReady = resolve;
+    rejectReady = reject;
+  });
+
+  const schedule = (delayMs: number) => {
+    if (stopped) {
+      return;
+    }
+    timer = setTimeout(renew, Math.max(0, delayMs));
+    timer.unref?.();
+  };
+
+  const renew = async () => {
+    try {
+      const response = await register();
+      current = response;
+      resolveReady(response);
+      options.onRenewed?.(response);
+
+      const untilExpiry = Number(response.expiration) - Date.now() - renewBeforeMs;
+      schedule(Number.isFinite(untilExpiry) ? Math.min(intervalMs, untilExpiry) : intervalMs);
+    } catch (error) {
+      onError(error);
+      if (current) {
+        schedule(retryDelayMs);
+      } else {
+        stopped = true;
+        rejectReady(error);
+      }
+    }
+  };
+
+  void renew();
+
+  return {
+    ready,
+    current: () => current,
+    stop: () => {
+      stopped = true;
+      if (timer) {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+// Decode a Pub/Sub push request body. The Gmail notification is base64 JSON
+// in message.data.
+export function decodePushMessage(body: string): PushNotification {
+  let envelope: { message?: { data?: string; messageId?: string; publishTime?: string }; subscription?: string };
+  try {
+    envelope = JSON.parse(body);
+  } catch {
+    throw new Error('Push body is not valid JSON');
+  }
+
+  const data = envelope?.message?.data;
+  if (typeof data !== 'string') {
+    throw new Error('Push body has no message.data');
+  }
+
+  let payload: { emailAddress?: unknown; historyId?: unknown };
+  try {
+    payload = JSON.parse(Buffer.from(data, 'base64').toString('utf-8'));
+  } catch {
+    throw new Error('Push message.data is not base64-encoded JSON');
+  }
+
+  if (typeof payload.emailAddress !== 'string' || payload.historyId === undefined) {
+    throw new Error('Push message.data is missing emailAddress or historyId');
+  }
+
+  return {
+    emailAddress: payload.emailAddress,
+    historyId: String(payload.historyId),
+    messageId: envelope.message?.messageId,
+    publishTime: envelope.message?.publishTime,
+    subscription: envelope.subscription,
+  };
+}
+
+// Compare in constant time so response timing gives away nothing about the token
+function tokenMatches(token: string | null, expected: string): boolean {
+  const given = Buffer.from(token ?? '');
+  const wanted = Buffer.from(expected);
+  return given.length === wanted.length && crypto.timingSafeEqual(given, wanted);
+}
+
+// Build a request handler for a Pub/Sub push subscription. Each notification
+// triggers a history sync from the stored checkpoint and hands the typed
+// changes to onChanges. Success is acknowledged with 204; a failed sync
+// answers 500 so Pub/Sub redelivers.
+//
+// Pub/Sub only says that something changed as of historyId, so the first
+// notification for a mailbox without a checkpoint just records it; seed the
+// store with the historyId returned by watch() to receive those changes too.
+export function createPushHandler(options: PushHandlerOptions): PushHandler {
+  const store = options.store ?? new MemoryCheckpointStore();
+  // Notifications for one mailbox are processed one at a time so concurrent
+  // pushes never replay the same history twice
+  const queues = new Map<string, Promise<void>>();
+
+  // A single client only syncs its own mailbox, matched against its profile
+  // address (looked up once); a resolver function picks one per address
+  let ownAddress: Promise<string> | undefined;
+  const clientFor = async (emailAddress: string): Promise<HistorySource | undefined> => {
+    const { client } = options;
+    if (typeof client === 'function') {
+      return client(emailAddress);
+    }
+    if (!client.getProfile) {
+      return client;
+    }
+    ownAddress ??= client.getProfile('me').then(
+      (profile) => profile.emailAddress.toLowerCase(),
+      (error) => {
+        ownAddress = undefined;
+        throw error;
+      }
+    );
+    return (await ownAddress) === emailAddress.toLowerCase() ? client : undefined;
+  };
+
+  const handleNotification = async (notification: PushNotification) => {
+    const key = notification.emailAddress;
+    const client = await clientFor(key);
+    if (!client) {
+      // Acknowledged anyway: redelivery would never find a client either
+      options.onError?.(new Error(`No client for mailbox ${key}; notification ignored`), notification);
+      return;
+    }
+    if (!(await store.load(key))) {
+      await store.save(key, notification.historyId);
+      return;
+    }
+
+    const result = await client.syncMailbox('me', { store, key, labelId: options.labelId });
+    await options.onChanges(result, notification);
+  };
+
+  return async (req, res) => {
+    if (req.method !== 'POST') {
+      res.writeHead(405, { Allow: 'POST' }).end();
+      return;
+    }
+
+    if (options.verificationToken !== undefined) {
+      const token = new URL(req.url || '/', 'http://localhost').searchParams.get('token');
+      if (!tokenMatches(token, options.verificationToken)) {
+        res.writeHead(403).end();
+        return;
+      }
+    }
+
+    let notification: PushNotification;
+    try {
+      notification = decodePushMessage(await readBody(req));
+    } catch (error) {
+      options.onError?.(error);
+      res.writeHead(400).end();
+      return;
+    }
+
+    const key = notification.emailAddress;
+    const run = (queues.get(key) || Promise.resolve()).then(() => handleNotification(notification));
+    const settled = run.catch(() => undefined);
+    queues.set(key, settled);
+
+    try {
+      await run;
+      res.writeHead(204).end();
+    } catch (error) {
+      options.onError?.(error, notification);
+      res.writeHead(500).end();
+    } finally {
+      if (queues.get(key) === settled) {
+        queues.delete(key);
+      }
+    }
+  };
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > MAX_PUSH_BODY_BYTES) {
+        reject(new Error('Push body is too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf-8')));
+    req.on('error', reject);
+  });
+}